@@ -9,13 +9,26 @@ import { AuthProvider, useAuth } from "@/lib/auth-context";
 import Dashboard from "@/pages/Dashboard";
 import AuditDetail from "@/pages/AuditDetail";
 import NewAudit from "@/pages/NewAudit";
+import AuditImport from "@/pages/AuditImport";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import ForgotPassword from "@/pages/ForgotPassword";
 import AdminDashboard from "@/pages/AdminDashboard";
 import AdminAuditLog from "@/pages/AdminAuditLog";
+import AdminActivityLog from "@/pages/AdminActivityLog";
+import AdminCareerLevels from "@/pages/AdminCareerLevels";
+import AdminScoringRules from "@/pages/AdminScoringRules";
+import AdminPromptTemplates from "@/pages/AdminPromptTemplates";
+import AdminKnowledge from "@/pages/AdminKnowledge";
+import AdminRescore from "@/pages/AdminRescore";
+import AdminPeople from "@/pages/AdminPeople";
+import PersonTimeline from "@/pages/PersonTimeline";
+import AdminBranches from "@/pages/AdminBranches";
+import BranchAnalytics from "@/pages/BranchAnalytics";
+import PeerFeedback from "@/pages/PeerFeedback";
+import Trash from "@/pages/Trash";
 import NotFound from "@/pages/not-found";
-import { ClipboardList, MessageCircle, LogOut, UserCircle, Shield, Home, FileText } from "lucide-react";
+import { ClipboardList, MessageCircle, LogOut, UserCircle, Shield, Home, FileText, Layers, SlidersHorizontal, RefreshCw, Contact, Building2, BarChart3, Trash2, Activity, MessageSquareText, BookOpen } from "lucide-react";
 import type { ReactNode } from "react";
 
 // Protected Route Component
@@ -50,6 +63,7 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
       <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/feedback/:token" component={PeerFeedback} />
       
       {/* Protected routes - Order matters! More specific routes first */}
       <Route path="/">
@@ -57,11 +71,61 @@ function Router() {
           <Dashboard />
         </ProtectedRoute>
       </Route>
+      <Route path="/analytics">
+        <ProtectedRoute>
+          <BranchAnalytics />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/trash">
+        <ProtectedRoute>
+          <Trash />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/audit-log">
         <ProtectedRoute>
           <AdminAuditLog />
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/activity-log">
+        <ProtectedRoute>
+          <AdminActivityLog />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/career-levels">
+        <ProtectedRoute>
+          <AdminCareerLevels />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/scoring-rules">
+        <ProtectedRoute>
+          <AdminScoringRules />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/prompt-templates">
+        <ProtectedRoute>
+          <AdminPromptTemplates />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/knowledge">
+        <ProtectedRoute>
+          <AdminKnowledge />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/rescore">
+        <ProtectedRoute>
+          <AdminRescore />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/people">
+        <ProtectedRoute>
+          <AdminPeople />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/branches">
+        <ProtectedRoute>
+          <AdminBranches />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin">
         <ProtectedRoute>
           <AdminDashboard />
@@ -72,11 +136,21 @@ function Router() {
           <NewAudit />
         </ProtectedRoute>
       </Route>
+      <Route path="/audit/import">
+        <ProtectedRoute>
+          <AuditImport />
+        </ProtectedRoute>
+      </Route>
       <Route path="/audit/:id">
         <ProtectedRoute>
           <AuditDetail />
         </ProtectedRoute>
       </Route>
+      <Route path="/people/:id">
+        <ProtectedRoute>
+          <PersonTimeline />
+        </ProtectedRoute>
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
@@ -123,6 +197,24 @@ function AppHeader() {
               <Home className="w-4 h-4" />
               Home
             </Button>
+            <Button
+              variant={location === "/analytics" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setLocation("/analytics")}
+              className="gap-1.5"
+            >
+              <BarChart3 className="w-4 h-4" />
+              Analitik
+            </Button>
+            <Button
+              variant={location === "/trash" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setLocation("/trash")}
+              className="gap-1.5"
+            >
+              <Trash2 className="w-4 h-4" />
+              Sampah
+            </Button>
             {(user.role === "full_admin" || user.role === "admin") && (
               <>
                 <Button
@@ -143,6 +235,78 @@ function AppHeader() {
                   <FileText className="w-4 h-4" />
                   Audit Log
                 </Button>
+                <Button
+                  variant={location === "/admin/activity-log" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/activity-log")}
+                  className="gap-1.5"
+                >
+                  <Activity className="w-4 h-4" />
+                  Aktivitas
+                </Button>
+                <Button
+                  variant={location === "/admin/career-levels" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/career-levels")}
+                  className="gap-1.5"
+                >
+                  <Layers className="w-4 h-4" />
+                  Levels
+                </Button>
+                <Button
+                  variant={location === "/admin/scoring-rules" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/scoring-rules")}
+                  className="gap-1.5"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                  Rules
+                </Button>
+                <Button
+                  variant={location === "/admin/prompt-templates" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/prompt-templates")}
+                  className="gap-1.5"
+                >
+                  <MessageSquareText className="w-4 h-4" />
+                  Prompts
+                </Button>
+                <Button
+                  variant={location === "/admin/knowledge" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/knowledge")}
+                  className="gap-1.5"
+                >
+                  <BookOpen className="w-4 h-4" />
+                  Knowledge
+                </Button>
+                <Button
+                  variant={location === "/admin/rescore" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/rescore")}
+                  className="gap-1.5"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Re-score
+                </Button>
+                <Button
+                  variant={location === "/admin/people" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/people")}
+                  className="gap-1.5"
+                >
+                  <Contact className="w-4 h-4" />
+                  People
+                </Button>
+                <Button
+                  variant={location === "/admin/branches" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLocation("/admin/branches")}
+                  className="gap-1.5"
+                >
+                  <Building2 className="w-4 h-4" />
+                  Cabang
+                </Button>
               </>
             )}
           </div>
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, CheckCircle2, AlertTriangle } from "lucide-react";
+import type { ActionPlanItem, ActionPlanStatus, Audit } from "@shared/schema";
+
+export interface ActionPlanResponse {
+  items: Array<ActionPlanItem & { overdue: boolean }>;
+  summary: { total: number; selesai: number; terlambat: number; progress: number };
+  ews: Audit["auditReport"]["ews"];
+}
+
+const STATUS_LABELS: Record<ActionPlanStatus, string> = {
+  belum_mulai: "Belum Mulai",
+  berjalan: "Berjalan",
+  selesai: "Selesai",
+  terhambat: "Terhambat",
+};
+
+const STATUS_BADGE: Record<ActionPlanStatus, string> = {
+  belum_mulai: "bg-muted text-muted-foreground",
+  berjalan: "bg-blue-500/20 text-blue-600 border-blue-500/30",
+  selesai: "bg-green-500/20 text-green-600 border-green-500/30",
+  terhambat: "bg-red-500/20 text-red-600 border-red-500/30",
+};
+
+interface CheckInForm {
+  status: ActionPlanStatus;
+  progress: string;
+  evidenceNotes: string;
+}
+
+interface ActionPlanTrackerProps {
+  auditId: string;
+  readOnly?: boolean;
+}
+
+export function ActionPlanTracker({ auditId, readOnly = false }: ActionPlanTrackerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CheckInForm>({ status: "belum_mulai", progress: "0", evidenceNotes: "" });
+
+  const { data, isLoading } = useQuery<ActionPlanResponse>({
+    queryKey: [`/api/audit/${auditId}/action-plan`],
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async ({ itemId, values }: { itemId: string; values: CheckInForm }) => {
+      const res = await fetch(`/api/audit/${auditId}/action-plan/${itemId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          status: values.status,
+          progress: parseInt(values.progress) || 0,
+          evidenceNotes: values.evidenceNotes.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || error.details || "Gagal menyimpan check-in");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${auditId}/action-plan`] });
+      setEditingId(null);
+      toast({
+        title: "✅ Check-in Tersimpan",
+        description: "Progress action plan diperbarui",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startCheckIn = (item: ActionPlanItem) => {
+    setEditingId(item.id);
+    setForm({ status: item.status, progress: String(item.progress), evidenceNotes: item.evidenceNotes ?? "" });
+  };
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted/40 rounded-lg animate-pulse" />;
+  }
+
+  if (!data || data.items.length === 0) {
+    return <p className="text-sm text-muted-foreground">Belum ada action plan untuk audit ini.</p>;
+  }
+
+  const { items, summary } = data;
+
+  return (
+    <div className="space-y-4">
+      {/* Overall progress */}
+      <div className="p-4 rounded-lg bg-muted/30 border">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-sm">
+          <span className="font-medium">Progress Keseluruhan</span>
+          <span className="text-muted-foreground">
+            {summary.selesai}/{summary.total} selesai
+            {summary.terlambat > 0 && <span className="text-red-600 font-medium"> • {summary.terlambat} terlambat</span>}
+          </span>
+        </div>
+        <Progress value={summary.progress} className="h-2" />
+        <p className="text-xs text-muted-foreground mt-1">{summary.progress}%</p>
+      </div>
+
+      {items.map((item) => (
+        <div
+          key={item.id}
+          className={`p-4 border rounded-lg ${item.overdue ? "border-red-500/40 bg-red-500/5" : ""}`}
+          data-testid={`action-plan-item-${item.id}`}
+        >
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <Badge variant="outline">{item.periode}</Badge>
+            <h3 className="font-semibold flex-1 min-w-0">{item.target}</h3>
+            <Badge className={`${STATUS_BADGE[item.status]} border`}>{STATUS_LABELS[item.status]}</Badge>
+            {item.overdue && (
+              <Badge className="bg-red-500/20 text-red-600 border-red-500/30 border gap-1">
+                <AlertTriangle className="w-3 h-3" /> Terlambat
+              </Badge>
+            )}
+          </div>
+          <div className="space-y-2 text-sm">
+            <div>
+              <span className="font-medium text-muted-foreground">Aktivitas: </span>
+              <span>{item.aktivitas}</span>
+            </div>
+            <div>
+              <span className="font-medium text-muted-foreground">PIC: </span>
+              <span>{item.pic}</span>
+            </div>
+            <div>
+              <span className="font-medium text-muted-foreground">Output: </span>
+              <span className="text-primary font-medium">{item.output}</span>
+            </div>
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <CalendarClock className="w-4 h-4" />
+              <span>Jatuh tempo {new Date(item.dueDate).toLocaleDateString("id-ID", { day: "numeric", month: "long", year: "numeric" })}</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <Progress value={item.progress} className="h-2 flex-1" />
+              <span className="text-xs font-medium w-10 text-right">{item.progress}%</span>
+            </div>
+            {item.evidenceNotes && editingId !== item.id && (
+              <div className="p-3 rounded bg-muted/40 flex gap-2">
+                <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
+                <p className="whitespace-pre-wrap">{item.evidenceNotes}</p>
+              </div>
+            )}
+          </div>
+
+          {editingId === item.id ? (
+            <form
+              className="mt-4 space-y-3 border-t pt-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                checkInMutation.mutate({ itemId: item.id, values: form });
+              }}
+            >
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Status</Label>
+                  <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as ActionPlanStatus })}>
+                    <SelectTrigger data-testid={`select-status-${item.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Progress (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={form.progress}
+                    onChange={(e) => setForm({ ...form, progress: e.target.value })}
+                    data-testid={`input-progress-${item.id}`}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Catatan Bukti</Label>
+                <Textarea
+                  value={form.evidenceNotes}
+                  onChange={(e) => setForm({ ...form, evidenceNotes: e.target.value })}
+                  placeholder="Contoh: 2 kandidat sudah interview, 1 closing $5,000 minggu ini"
+                  rows={3}
+                  data-testid={`input-evidence-${item.id}`}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                  Batal
+                </Button>
+                <Button type="submit" size="sm" disabled={checkInMutation.isPending} data-testid={`button-save-checkin-${item.id}`}>
+                  {checkInMutation.isPending ? "Menyimpan..." : "Simpan Check-in"}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            !readOnly && (
+              <div className="mt-3 flex justify-end">
+                <Button variant="outline" size="sm" onClick={() => startCheckIn(item)} data-testid={`button-checkin-${item.id}`}>
+                  Check-in
+                </Button>
+              </div>
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
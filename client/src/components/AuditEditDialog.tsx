@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { Audit } from "@shared/schema";
+import { EDITABLE_AUDIT_FIELDS } from "@/lib/audit-fields";
+
+interface AuditEditDialogProps {
+  audit: Audit;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SECTION_TITLES: Record<keyof typeof EDITABLE_AUDIT_FIELDS, string> = {
+  identitas: "Identitas",
+  marginTim: "Margin Tim (USD)",
+  naTim: "NA Tim",
+  marginPribadi: "Margin Pribadi (USD)",
+  nasabahPribadi: "Nasabah Pribadi",
+  tim: "Struktur Tim",
+};
+
+const TEXT_FIELDS = new Set(Object.keys(EDITABLE_AUDIT_FIELDS.identitas));
+
+export function AuditEditDialog({ audit, open, onOpenChange }: AuditEditDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const original = audit as unknown as Record<string, string | number>;
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+
+  const valueOf = (field: string) => form[field] ?? String(original[field] ?? "");
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: Record<string, string | number>) => {
+      const res = await fetch(`/api/audit/${audit.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...changes, note: note || undefined }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || error.details || "Gagal menyimpan perubahan");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}/prodem-workflow`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      setForm({});
+      setNote("");
+      onOpenChange(false);
+      toast({
+        title: "✅ Audit Diperbarui",
+        description: "Hasil audit dihitung ulang, versi sebelumnya tersimpan di riwayat",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Send only fields that actually changed
+    const changes: Record<string, string | number> = {};
+    for (const [field, raw] of Object.entries(form)) {
+      const value = TEXT_FIELDS.has(field) ? raw.trim() : parseInt(raw) || 0;
+      if (value !== original[field]) changes[field] = value;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      onOpenChange(false);
+      return;
+    }
+    updateMutation.mutate(changes);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Data Audit</DialogTitle>
+          <DialogDescription>
+            Koreksi data input. Reality Score, zona, ProDem dan laporan akan dihitung ulang.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {(Object.keys(EDITABLE_AUDIT_FIELDS) as Array<keyof typeof EDITABLE_AUDIT_FIELDS>).map((section) => (
+            <div key={section} className="space-y-2">
+              <h3 className="text-sm font-semibold">{SECTION_TITLES[section]}</h3>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {Object.entries(EDITABLE_AUDIT_FIELDS[section]).map(([field, label]) => (
+                  <div key={field} className={`space-y-1 ${section === "identitas" ? "sm:col-span-2" : ""}`}>
+                    <Label className="text-xs">{label}</Label>
+                    <Input
+                      type={TEXT_FIELDS.has(field) ? "text" : "number"}
+                      value={valueOf(field)}
+                      onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                      data-testid={`input-edit-${field}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label className="text-xs">Alasan Perubahan</Label>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Contoh: Salah input margin Q3"
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={updateMutation.isPending} data-testid="button-save-edit">
+            {updateMutation.isPending ? "Menyimpan..." : "Simpan & Hitung Ulang"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
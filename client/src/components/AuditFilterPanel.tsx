@@ -0,0 +1,127 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import { AUDIT_PROFILES, AUDIT_ZONES, PRODEM_RECOMMENDATIONS, type Branch, type CareerLevel, type User } from "@shared/schema";
+import { SORT_LABELS, type AuditFilters } from "@/lib/audit-filters";
+
+const ALL = "all";
+
+const ZONA_LABELS: Record<typeof AUDIT_ZONES[number], string> = {
+  hijau: "🟩 Hijau",
+  kuning: "🟨 Kuning",
+  merah: "🟥 Merah",
+};
+
+const DELETED_LABELS: Record<NonNullable<AuditFilters["deleted"]>, string> = {
+  all: "Semua",
+  active: "Aktif",
+  deleted: "Dihapus",
+};
+
+interface AuditFilterPanelProps {
+  filters: AuditFilters;
+  onChange: (filters: AuditFilters) => void;
+  showOwner?: boolean; // Auditors and admins can narrow down to one auditee account
+  showDeleted?: boolean; // Audit log only
+}
+
+export function AuditFilterPanel({ filters, onChange, showOwner, showDeleted }: AuditFilterPanelProps) {
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+  });
+
+  const { data: careerLevels = [] } = useQuery<CareerLevel[]>({
+    queryKey: ["/api/career-levels"],
+  });
+
+  const { data: owners = [] } = useQuery<Array<Pick<User, "id" | "username" | "name">>>({
+    queryKey: ["/api/users/downline"],
+    enabled: !!showOwner,
+  });
+
+  const set = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K] | typeof ALL | "") =>
+    onChange({ ...filters, [key]: value === ALL || value === "" ? undefined : value });
+
+  const selectField = (
+    key: keyof AuditFilters,
+    label: string,
+    options: Array<{ value: string; label: string }>,
+    allLabel = "Semua"
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={(filters[key] as string | undefined) ?? ALL} onValueChange={(value) => set(key, value as never)}>
+        <SelectTrigger data-testid={`select-filter-${key}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{allLabel}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="p-4 rounded-lg border bg-card space-y-4" data-testid="panel-audit-filters">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {selectField("zona", "Zona", AUDIT_ZONES.map(zona => ({ value: zona, label: ZONA_LABELS[zona] })))}
+        {selectField("profil", "Profil", AUDIT_PROFILES.map(profil => ({ value: profil, label: profil })))}
+        {selectField("prodem", "Rekomendasi ProDem", PRODEM_RECOMMENDATIONS.map(rec => ({ value: rec, label: rec })))}
+        {selectField("branchId", "Cabang", branches.map(branch => ({ value: branch.id, label: branch.name })))}
+        {selectField("level", "Level", careerLevels.map(level => ({ value: level.code, label: `${level.name} (${level.code})` })))}
+        {showOwner && selectField("ownerId", "Auditee", owners.map(owner => ({ value: owner.id, label: `${owner.name} (${owner.username})` })))}
+        {showDeleted && selectField("deleted", "Status", (["active", "deleted"] as const).map(state => ({ value: state, label: DELETED_LABELS[state] })), DELETED_LABELS.all)}
+        <div className="space-y-1">
+          <Label className="text-xs">Dari Tanggal</Label>
+          <Input type="date" value={filters.from ?? ""} onChange={(e) => set("from", e.target.value)} data-testid="input-filter-from" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Sampai Tanggal</Label>
+          <Input type="date" value={filters.to ?? ""} onChange={(e) => set("to", e.target.value)} data-testid="input-filter-to" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Urutkan</Label>
+          <div className="flex gap-2">
+            <Select value={filters.sort ?? "createdAt"} onValueChange={(value) => set("sort", value as AuditFilters["sort"])}>
+              <SelectTrigger data-testid="select-filter-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.order ?? "desc"} onValueChange={(value) => set("order", value as AuditFilters["order"])}>
+              <SelectTrigger className="w-28" data-testid="select-filter-order">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="desc">Turun</SelectItem>
+                <SelectItem value="asc">Naik</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1.5"
+          onClick={() => onChange({ search: filters.search })}
+          data-testid="button-reset-filters"
+        >
+          <X className="w-4 h-4" />
+          Reset Filter
+        </Button>
+      </div>
+    </div>
+  );
+}
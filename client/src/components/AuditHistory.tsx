@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History, ArrowRight } from "lucide-react";
+import type { Audit, AuditRevision } from "@shared/schema";
+import { diffAudits } from "@/lib/audit-fields";
+
+type RevisionWithAuthor = AuditRevision & { changedByName: string | null };
+
+const CHANGE_TYPE_LABELS: Record<AuditRevision["changeType"], string> = {
+  rescore: "Re-score",
+  edit: "Edit",
+  assessment: "Penilaian Atasan",
+  feedback: "Umpan Balik 360",
+};
+
+interface AuditHistoryProps {
+  audit: Audit;
+}
+
+export function AuditHistory({ audit }: AuditHistoryProps) {
+  const { data: revisions = [], isLoading } = useQuery<RevisionWithAuthor[]>({
+    queryKey: [`/api/audit/${audit.id}/revisions`],
+  });
+
+  // Each revision stores the state BEFORE its change; the state after is the next newer snapshot (or the current audit)
+  const entries = revisions.map((revision, index) => {
+    const after = index === 0 ? audit : revisions[index - 1].snapshot;
+    return { revision, diffs: diffAudits(revision.snapshot, after) };
+  });
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-primary" />
+        <h2 className="text-lg sm:text-xl font-semibold">Riwayat Perubahan</h2>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-16 bg-muted rounded-lg" />
+          <div className="h-16 bg-muted rounded-lg" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-revisions">
+          Belum ada perubahan sejak audit dibuat.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {entries.map(({ revision, diffs }) => (
+            <div key={revision.id} className="p-4 rounded-lg border bg-muted/30" data-testid={`revision-${revision.id}`}>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <Badge variant="outline">{CHANGE_TYPE_LABELS[revision.changeType] ?? revision.changeType}</Badge>
+                <span className="text-sm font-medium">{revision.changedByName || "Unknown"}</span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(revision.createdAt).toLocaleString("id-ID")}
+                </span>
+              </div>
+              {revision.note && <p className="text-sm text-muted-foreground mb-3">{revision.note}</p>}
+              {diffs.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Tidak ada perubahan nilai.</p>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {diffs.map((diff) => (
+                    <div key={diff.field} className="flex items-center justify-between gap-2 text-sm p-2 rounded bg-background/60">
+                      <span className="text-muted-foreground">{diff.label}</span>
+                      <span className="inline-flex items-center gap-1 font-medium">
+                        <span className="line-through opacity-60">{diff.before ?? "-"}</span>
+                        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                        <span>{diff.after ?? "-"}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -5,8 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Send, Trash2, Download, Loader2, MessageSquare } from "lucide-react";
+import { Send, Trash2, Download, Loader2, MessageSquare, Square } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { streamChat } from "@/lib/chat-stream";
 import { useToast } from "@/hooks/use-toast";
 import type { ChatMessage } from "@shared/schema";
 
@@ -31,47 +32,48 @@ export function ChatPanel({ auditId, auditName }: ChatPanelProps) {
     }
   });
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async (msg: string) => {
-      const res = await apiRequest("POST", "/api/chat", {
-        auditId,
-        message: msg
-      });
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/chat", auditId] });
-      setMessage("");
-    },
-    onError: (error: any) => {
-      // Refresh chat history even on error because user message is already saved
-      queryClient.invalidateQueries({ queryKey: ["/api/chat", auditId] });
-      setMessage("");
-      
-      let errorMessage = "Gagal mengirim pesan. Silakan coba lagi.";
-      
-      // Try to extract userMessage from API error response
-      try {
-        const errorText = error?.message || String(error);
-        const match = errorText.match(/\d+:\s*(.+)/);
-        if (match) {
-          const jsonPart = match[1];
-          const errorData = JSON.parse(jsonPart);
-          if (errorData.userMessage) {
-            errorMessage = errorData.userMessage;
-          }
-        }
-      } catch {
-        // Use default message if parsing fails
+  // The answer being streamed; it joins the saved history once complete
+  const [pending, setPending] = useState<{ message: string; text: string; source: string | null } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const isStreaming = pending !== null;
+
+  // Stop a generation still running when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const sendMessage = async (msg: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending({ message: msg, text: "", source: null });
+    setMessage("");
+
+    try {
+      await streamChat({ auditId, message: msg }, {
+        onSource: (source) => setPending(current => current && { ...current, source }),
+        onToken: (text) => setPending(current => current && { ...current, text: current.text + text }),
+        onReset: () => setPending(current => current && { ...current, text: "" }),
+      }, controller.signal);
+      await queryClient.invalidateQueries({ queryKey: ["/api/chat", auditId] });
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        toast({
+          title: "Dihentikan",
+          description: "Jawaban dibatalkan dan tidak disimpan."
+        });
+      } else {
+        setMessage(msg); // Nothing was saved, so let the user send it again
+        toast({
+          title: "Error",
+          description: error?.message || "Gagal mengirim pesan. Silakan coba lagi.",
+          variant: "destructive"
+        });
       }
-      
-      toast({
-        title: "Error",
-        description: errorMessage,
-        variant: "destructive"
-      });
+    } finally {
+      abortRef.current = null;
+      setPending(null);
     }
-  });
+  };
+
+  const cancelMessage = () => abortRef.current?.abort();
 
   const clearHistoryMutation = useMutation({
     mutationFn: async () => {
@@ -112,11 +114,11 @@ export function ChatPanel({ auditId, auditName }: ChatPanelProps) {
         behavior: "smooth"
       });
     }
-  }, [history, sendMessageMutation.isPending]);
+  }, [history, pending]);
 
   const handleSend = () => {
-    if (!message.trim()) return;
-    sendMessageMutation.mutate(message);
+    if (!message.trim() || isStreaming) return;
+    sendMessage(message);
   };
 
   return (
@@ -141,7 +143,7 @@ export function ChatPanel({ auditId, auditName }: ChatPanelProps) {
             size="icon"
             variant="ghost"
             onClick={() => clearHistoryMutation.mutate()}
-            disabled={history.length === 0 || clearHistoryMutation.isPending}
+            disabled={history.length === 0 || clearHistoryMutation.isPending || isStreaming}
             data-testid="button-clear-chat"
             className="h-8 w-8 sm:h-10 sm:w-10"
           >
@@ -155,7 +157,7 @@ export function ChatPanel({ auditId, auditName }: ChatPanelProps) {
           <div className="flex items-center justify-center h-full text-muted-foreground">
             <Loader2 className="w-6 h-6 animate-spin" />
           </div>
-        ) : history.length === 0 ? (
+        ) : history.length === 0 && !pending ? (
           <div className="flex flex-col items-start justify-start h-full px-4 py-6">
             <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 border border-blue-500/20 rounded-lg p-4 sm:p-5 mb-4">
               <div className="flex items-start gap-3 mb-3">
@@ -216,12 +218,28 @@ export function ChatPanel({ auditId, auditName }: ChatPanelProps) {
                 </div>
               </div>
             ))}
-            {sendMessageMutation.isPending && (
-              <div className="flex justify-start">
-                <div className="bg-muted rounded-md p-3">
-                  <Loader2 className="w-4 h-4 animate-spin" />
+            {pending && (
+              <>
+                <div className="flex justify-end" data-testid="message-user-pending">
+                  <div className="max-w-[85%] sm:max-w-[80%] rounded-md p-2.5 sm:p-3 bg-primary text-primary-foreground">
+                    <p className="text-xs sm:text-sm whitespace-pre-wrap break-words">{pending.message}</p>
+                  </div>
                 </div>
-              </div>
+                <div className="flex justify-start" data-testid="message-assistant-streaming">
+                  <div className="max-w-[85%] sm:max-w-[80%] rounded-md p-2.5 sm:p-3 bg-muted space-y-1">
+                    {pending.source && (
+                      <p className="text-[10px] sm:text-xs text-muted-foreground" data-testid="text-chat-source">
+                        via {pending.source}
+                      </p>
+                    )}
+                    {pending.text ? (
+                      <p className="text-xs sm:text-sm whitespace-pre-wrap break-words">{pending.text}</p>
+                    ) : (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    )}
+                  </div>
+                </div>
+              </>
             )}
             {/* Invisible anchor for auto-scroll */}
             <div ref={messagesEndRef} className="h-1" />
@@ -246,19 +264,32 @@ export function ChatPanel({ auditId, auditName }: ChatPanelProps) {
             value={message}
             onChange={(e) => setMessage(e.target.value)}
             placeholder="Ketik pertanyaan Anda disini..."
-            disabled={sendMessageMutation.isPending}
+            disabled={isStreaming}
             data-testid="input-chat-message"
             className="flex-1 text-sm h-9 sm:h-10"
           />
-          <Button
-            type="submit"
-            size="icon"
-            disabled={!message.trim() || sendMessageMutation.isPending}
-            data-testid="button-send-message"
-            className="h-9 w-9 sm:h-10 sm:w-10 shrink-0"
-          >
-            <Send className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-          </Button>
+          {isStreaming ? (
+            <Button
+              type="button"
+              size="icon"
+              variant="destructive"
+              onClick={cancelMessage}
+              data-testid="button-cancel-message"
+              className="h-9 w-9 sm:h-10 sm:w-10 shrink-0"
+            >
+              <Square className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!message.trim()}
+              data-testid="button-send-message"
+              className="h-9 w-9 sm:h-10 sm:w-10 shrink-0"
+            >
+              <Send className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+            </Button>
+          )}
         </form>
       </div>
     </Card>
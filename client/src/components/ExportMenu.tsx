@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, FileSpreadsheet, FileText } from "lucide-react";
+import { auditQueryString, type AuditFilters } from "@/lib/audit-filters";
+
+interface ExportMenuProps {
+  endpoint: string;
+  filters?: AuditFilters;
+  disabled?: boolean;
+}
+
+export function ExportMenu({ endpoint, filters = {}, disabled }: ExportMenuProps) {
+  // The server sends the file as an attachment, so navigating to it starts the download
+  const download = (format: "csv" | "xlsx") => {
+    window.location.href = `${endpoint}?${auditQueryString(filters, { format })}`;
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled} data-testid="button-export">
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download("xlsx")} data-testid="menu-export-xlsx">
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("csv")} data-testid="menu-export-csv">
+          <FileText className="w-4 h-4 mr-2" />
+          CSV
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Link2, Users } from "lucide-react";
+import { MIN_FEEDBACK_RESPONSES, type Audit, type FeedbackCampaign, type FeedbackInvite, type FeedbackRelation } from "@shared/schema";
+
+// Invites (one-time links) only come back for the direct upline or an admin
+type CampaignWithInvites = FeedbackCampaign & { responseCount: number; invites?: FeedbackInvite[] };
+
+interface CampaignsResponse {
+  canManage: boolean;
+  campaigns: CampaignWithInvites[];
+}
+
+const RELATION_LABELS: Record<FeedbackRelation, string> = {
+  rekan: "Rekan",
+  bawahan: "Bawahan",
+};
+
+interface CampaignForm {
+  pillarIds: number[];
+  minResponses: string;
+  rekanLinks: string;
+  bawahanLinks: string;
+}
+
+interface FeedbackCampaignPanelProps {
+  audit: Audit;
+}
+
+export function FeedbackCampaignPanel({ audit }: FeedbackCampaignPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const campaignsKey = `/api/audit/${audit.id}/feedback-campaigns`;
+
+  // Pillars without a scoring rule (no data score) are the ones 360 feedback can move
+  const [form, setForm] = useState<CampaignForm>({
+    pillarIds: audit.pillarAnswers.filter(p => p.dataScore === null).map(p => p.pillarId),
+    minResponses: String(MIN_FEEDBACK_RESPONSES),
+    rekanLinks: "3",
+    bawahanLinks: "3",
+  });
+
+  const { data, isLoading } = useQuery<CampaignsResponse>({
+    queryKey: [campaignsKey],
+  });
+  const campaigns = data?.campaigns ?? [];
+  const canManage = data?.canManage ?? false;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "❌ Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: CampaignForm) => {
+      const res = await fetch(campaignsKey, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          pillarIds: values.pillarIds,
+          minResponses: parseInt(values.minResponses) || 0,
+          rekanLinks: parseInt(values.rekanLinks) || 0,
+          bawahanLinks: parseInt(values.bawahanLinks) || 0,
+        }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || error.details || "Gagal membuat kampanye umpan balik");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [campaignsKey] });
+      toast({
+        title: "✅ Kampanye Dibuat",
+        description: "Bagikan link sekali pakai ke rekan dan bawahan",
+      });
+    },
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (campaignId: string) => {
+      const res = await fetch(`${campaignsKey}/${campaignId}/close`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menutup kampanye");
+      }
+      return res.json() as Promise<FeedbackCampaign & { applied: boolean }>;
+    },
+    onSuccess: (closed) => {
+      queryClient.invalidateQueries({ queryKey: [campaignsKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}`] });
+      toast({
+        title: "✅ Kampanye Ditutup",
+        description: closed.applied
+          ? "Rata-rata anonim sudah diterapkan ke audit"
+          : "Respon belum mencapai minimum, audit tidak berubah",
+      });
+    },
+    onError,
+  });
+
+  const togglePillar = (pillarId: number) => {
+    setForm({
+      ...form,
+      pillarIds: form.pillarIds.includes(pillarId)
+        ? form.pillarIds.filter(id => id !== pillarId)
+        : [...form.pillarIds, pillarId],
+    });
+  };
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/feedback/${token}`);
+    toast({
+      title: "✅ Link Disalin",
+      description: "Kirim link ini ke satu orang saja",
+    });
+  };
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted/40 rounded-lg animate-pulse" />;
+  }
+
+  const hasOpenCampaign = campaigns.some(campaign => campaign.status === "open");
+
+  return (
+    <div className="space-y-4">
+      {!canManage && campaigns.length === 0 && (
+        <p className="text-sm text-muted-foreground">Belum ada kampanye umpan balik untuk audit ini.</p>
+      )}
+
+      {canManage && !hasOpenCampaign && (
+        <form
+          className="p-4 rounded-lg border space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate(form);
+          }}
+        >
+          <div>
+            <h3 className="font-semibold">Kampanye Baru</h3>
+            <p className="text-xs text-muted-foreground">
+              Hasil dipakai saat kampanye ditutup dengan jumlah respon minimum, dan hanya dalam bentuk rata-rata anonim.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {audit.pillarAnswers.map((pilar) => (
+              <label key={pilar.pillarId} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={form.pillarIds.includes(pilar.pillarId)}
+                  onCheckedChange={() => togglePillar(pilar.pillarId)}
+                  data-testid={`checkbox-feedback-pilar-${pilar.pillarId}`}
+                />
+                <span>{pilar.pillarId}. {pilar.pillarName}</span>
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Respon Minimum</Label>
+              <Input
+                type="number"
+                min={MIN_FEEDBACK_RESPONSES}
+                value={form.minResponses}
+                onChange={(e) => setForm({ ...form, minResponses: e.target.value })}
+                data-testid="input-feedback-min-responses"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Link Rekan</Label>
+              <Input
+                type="number"
+                min={0}
+                value={form.rekanLinks}
+                onChange={(e) => setForm({ ...form, rekanLinks: e.target.value })}
+                data-testid="input-feedback-rekan-links"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Link Bawahan</Label>
+              <Input
+                type="number"
+                min={0}
+                value={form.bawahanLinks}
+                onChange={(e) => setForm({ ...form, bawahanLinks: e.target.value })}
+                data-testid="input-feedback-bawahan-links"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={createMutation.isPending} data-testid="button-create-feedback-campaign">
+              {createMutation.isPending ? "Membuat..." : "Buat Link Umpan Balik"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {campaigns.map((campaign) => {
+        const openInvites = (campaign.invites ?? []).filter(invite => !invite.used);
+        return (
+          <div key={campaign.id} className="p-4 rounded-lg border space-y-3" data-testid={`feedback-campaign-${campaign.id}`}>
+            <div className="flex flex-wrap items-center gap-2">
+              <Users className="w-4 h-4 text-primary" />
+              <span className="font-semibold flex-1 min-w-0">
+                Kampanye {new Date(campaign.createdAt).toLocaleDateString("id-ID", { day: "numeric", month: "long", year: "numeric" })}
+              </span>
+              <Badge variant={campaign.status === "open" ? "default" : "outline"}>
+                {campaign.status === "open" ? "Berjalan" : "Ditutup"}
+              </Badge>
+              {canManage && campaign.status === "open" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => closeMutation.mutate(campaign.id)}
+                  disabled={closeMutation.isPending}
+                  data-testid={`button-close-campaign-${campaign.id}`}
+                >
+                  Tutup
+                </Button>
+              )}
+            </div>
+            <div>
+              <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                <span>{campaign.responseCount} respon (minimum {campaign.minResponses})</span>
+                <span>{campaign.pillarIds.length} pilar</span>
+              </div>
+              <Progress value={Math.min(100, (campaign.responseCount / campaign.minResponses) * 100)} className="h-2" />
+            </div>
+            {campaign.status === "open" && openInvites.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Link belum dipakai ({openInvites.length})</p>
+                {openInvites.map((invite) => (
+                  <div key={invite.id} className="flex items-center gap-2 text-xs p-2 rounded bg-muted/40">
+                    <Link2 className="w-3.5 h-3.5 shrink-0" />
+                    <Badge variant="outline" className="text-[10px]">{RELATION_LABELS[invite.relation]}</Badge>
+                    <span className="font-mono truncate flex-1 min-w-0">/feedback/{invite.token}</span>
+                    <Button variant="ghost" size="sm" onClick={() => copyLink(invite.token)} data-testid={`button-copy-invite-${invite.id}`}>
+                      <Copy className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
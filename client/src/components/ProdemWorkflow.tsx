@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, Circle, GitPullRequestArrow } from "lucide-react";
+import { PRODEM_RECOMMENDATIONS, type ProdemDecision, type ProdemDecisionInput, type ProdemRecommendation, type ProdemStatus } from "@shared/schema";
+
+type ProdemAction = ProdemDecisionInput["action"];
+
+export interface ProdemWorkflowResponse {
+  status: ProdemStatus;
+  engineRecommendation: ProdemRecommendation;
+  finalRecommendation: ProdemRecommendation | null;
+  decisions: Array<ProdemDecision & { decidedByName: string | null }>;
+  availableActions: ProdemAction[];
+}
+
+const STATUS_LABELS: Record<ProdemStatus, string> = {
+  draft: "Draft",
+  reviewed: "Ditinjau Atasan",
+  approved: "Disetujui",
+  overridden: "Di-override",
+};
+
+const STATUS_BADGE: Record<ProdemStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  reviewed: "bg-blue-500/20 text-blue-600 border-blue-500/30",
+  approved: "bg-green-500/20 text-green-600 border-green-500/30",
+  overridden: "bg-purple-500/20 text-purple-600 border-purple-500/30",
+};
+
+const ACTION_LABELS: Record<ProdemDecision["action"], string> = {
+  review: "Ditinjau",
+  approve: "Disetujui",
+  override: "Override",
+  reset: "Kembali ke Draft",
+};
+
+const STEPS: Array<{ label: string; done: (status: ProdemStatus) => boolean }> = [
+  { label: "Draft", done: () => true },
+  { label: "Tinjauan Atasan", done: (status) => status !== "draft" },
+  { label: "Keputusan Admin", done: (status) => status === "approved" || status === "overridden" },
+];
+
+interface ProdemWorkflowProps {
+  auditId: string;
+}
+
+export function ProdemWorkflow({ auditId }: ProdemWorkflowProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+  const [overrideRecommendation, setOverrideRecommendation] = useState<ProdemRecommendation | "">("");
+  const workflowKey = `/api/audit/${auditId}/prodem-workflow`;
+
+  const { data, isLoading } = useQuery<ProdemWorkflowResponse>({
+    queryKey: [workflowKey],
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: ProdemDecisionInput) => {
+      const res = await fetch(workflowKey, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(decision),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || error.details || "Gagal menyimpan keputusan ProDem");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [workflowKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${auditId}`] });
+      setNote("");
+      setOverrideRecommendation("");
+      toast({
+        title: "✅ Keputusan Tersimpan",
+        description: "Status ProDem diperbarui dan tercatat di jejak keputusan",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted/40 rounded-lg animate-pulse" />;
+  }
+
+  if (!data) return null;
+
+  const { status, engineRecommendation, finalRecommendation, decisions, availableActions } = data;
+  const canOverride = availableActions.includes("override");
+
+  return (
+    <div className="space-y-4">
+      {/* Workflow steps */}
+      <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+        {STEPS.map((step, idx) => (
+          <div key={step.label} className="flex items-center gap-2 text-sm">
+            {step.done(status)
+              ? <CheckCircle2 className="w-4 h-4 text-green-600" />
+              : <Circle className="w-4 h-4 text-muted-foreground" />}
+            <span className={step.done(status) ? "font-medium" : "text-muted-foreground"}>{step.label}</span>
+            {idx < STEPS.length - 1 && <span className="text-muted-foreground">→</span>}
+          </div>
+        ))}
+        <Badge className={`${STATUS_BADGE[status]} border ml-auto`} data-testid="badge-prodem-status">
+          {STATUS_LABELS[status]}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div className="p-3 rounded-lg bg-muted/30 border">
+          <p className="text-xs text-muted-foreground">Rekomendasi Sistem</p>
+          <p className="font-semibold">{engineRecommendation}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-muted/30 border">
+          <p className="text-xs text-muted-foreground">Keputusan Final</p>
+          <p className="font-semibold" data-testid="text-prodem-final">
+            {finalRecommendation ?? "Belum diputuskan"}
+          </p>
+        </div>
+      </div>
+
+      {availableActions.length > 0 && (
+        <div className="p-4 rounded-lg border space-y-3">
+          {canOverride && (
+            <div className="space-y-1">
+              <Label>Override ke</Label>
+              <Select value={overrideRecommendation} onValueChange={(value) => setOverrideRecommendation(value as ProdemRecommendation)}>
+                <SelectTrigger data-testid="select-prodem-override">
+                  <SelectValue placeholder="Pilih rekomendasi lain (untuk override)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRODEM_RECOMMENDATIONS.filter(rec => rec !== engineRecommendation).map((rec) => (
+                    <SelectItem key={rec} value={rec}>{rec}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>{canOverride ? "Catatan / Justifikasi" : "Catatan"}</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={canOverride ? "Wajib diisi untuk override: alasan bisnis dan data pendukung" : "Opsional"}
+              rows={3}
+              data-testid="input-prodem-note"
+            />
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            {availableActions.includes("review") && (
+              <Button
+                size="sm"
+                onClick={() => decisionMutation.mutate({ action: "review", note: note || undefined })}
+                disabled={decisionMutation.isPending}
+                data-testid="button-prodem-review"
+              >
+                Tandai Sudah Ditinjau
+              </Button>
+            )}
+            {canOverride && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => overrideRecommendation && decisionMutation.mutate({ action: "override", recommendation: overrideRecommendation, note })}
+                disabled={decisionMutation.isPending || !overrideRecommendation}
+                data-testid="button-prodem-override"
+              >
+                Override
+              </Button>
+            )}
+            {availableActions.includes("approve") && (
+              <Button
+                size="sm"
+                onClick={() => decisionMutation.mutate({ action: "approve", note: note || undefined })}
+                disabled={decisionMutation.isPending}
+                data-testid="button-prodem-approve"
+              >
+                Setujui {engineRecommendation}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Decision trail */}
+      <div>
+        <h3 className="font-semibold mb-2 text-sm flex items-center gap-2">
+          <GitPullRequestArrow className="w-4 h-4" /> Jejak Keputusan
+        </h3>
+        {decisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Belum ada keputusan. Rekomendasi masih draft.</p>
+        ) : (
+          <div className="space-y-2">
+            {decisions.map((decision) => (
+              <div key={decision.id} className="p-3 rounded-lg border bg-muted/20 text-sm" data-testid={`prodem-decision-${decision.id}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{ACTION_LABELS[decision.action]}</Badge>
+                  <span className="font-medium">{decision.decidedByName || "Sistem"}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(decision.createdAt).toLocaleString("id-ID")}
+                  </span>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {STATUS_LABELS[decision.fromStatus]} → {STATUS_LABELS[decision.toStatus]}
+                  </span>
+                </div>
+                {decision.finalRecommendation && (
+                  <p className="mt-1 text-xs">
+                    Final: <span className="font-semibold">{decision.finalRecommendation}</span>
+                    {decision.finalRecommendation !== decision.engineRecommendation && ` (sistem: ${decision.engineRecommendation})`}
+                  </p>
+                )}
+                {decision.note && <p className="mt-1 text-muted-foreground whitespace-pre-wrap">{decision.note}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { Audit } from "@shared/schema";
+
+interface SupervisorAssessmentDialogProps {
+  audit: Audit;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SCORE_OPTIONS = [1, 2, 3, 4, 5];
+
+export function SupervisorAssessmentDialog({ audit, open, onOpenChange }: SupervisorAssessmentDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scores, setScores] = useState<Record<number, number>>({});
+  const [note, setNote] = useState("");
+
+  // Start from the previous assessment when the audit was already assessed
+  const scoreOf = (pillarId: number) =>
+    scores[pillarId] ?? audit.pillarAnswers.find(p => p.pillarId === pillarId)?.supervisorScore ?? null;
+  const missing = audit.pillarAnswers.filter(p => scoreOf(p.pillarId) === null).length;
+
+  const assessmentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/audit/${audit.id}/supervisor-assessment`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          scores: audit.pillarAnswers.map(p => ({ pillarId: p.pillarId, score: scoreOf(p.pillarId) })),
+          note: note || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || error.details || "Gagal menyimpan penilaian atasan");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}/supervisor-assessment`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/${audit.id}/prodem-workflow`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      setScores({});
+      setNote("");
+      onOpenChange(false);
+      toast({
+        title: "✅ Penilaian Atasan Tersimpan",
+        description: "Reality Score pilar non-terukur dihitung ulang dengan penilaian atasan",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    assessmentMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Penilaian Atasan</DialogTitle>
+          <DialogDescription>
+            Nilai {audit.nama} pada 18 pilar (1-5). Untuk pilar tanpa data terukur, penilaian atasan digabung dengan self-assessment menjadi Reality Score.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="divide-y">
+            {audit.pillarAnswers.map((pilar) => (
+              <div key={pilar.pillarId} className="py-2 flex flex-col sm:flex-row sm:items-center gap-2" data-testid={`assessment-pilar-${pilar.pillarId}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{pilar.pillarId}. {pilar.pillarName}</p>
+                  <p className="text-xs text-muted-foreground">Self: {pilar.selfScore}</p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {SCORE_OPTIONS.map((score) => (
+                    <Button
+                      key={score}
+                      type="button"
+                      size="sm"
+                      variant={scoreOf(pilar.pillarId) === score ? "default" : "outline"}
+                      className="w-9"
+                      onClick={() => setScores({ ...scores, [pilar.pillarId]: score })}
+                      data-testid={`button-assessment-${pilar.pillarId}-${score}`}
+                    >
+                      {score}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Catatan Atasan</Label>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Opsional, tersimpan di riwayat perubahan"
+              data-testid="input-assessment-note"
+            />
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            {missing > 0 && <p className="text-xs text-muted-foreground mr-auto">{missing} pilar belum dinilai</p>}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Batal
+            </Button>
+            <Button type="submit" disabled={missing > 0 || assessmentMutation.isPending} data-testid="button-save-assessment">
+              {assessmentMutation.isPending ? "Menyimpan..." : "Simpan Penilaian"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Audit field labels and field-level diff between two audit snapshots
+ */
+
+import type { Audit } from "@shared/schema";
+
+// Input fields that can be corrected after an audit is created
+export const EDITABLE_AUDIT_FIELDS = {
+  identitas: {
+    nama: "Nama",
+    cabang: "Cabang",
+    tanggalLahir: "Tanggal Lahir",
+    periodeAudit: "Periode Audit (YYYY-Qn)",
+  },
+  marginTim: {
+    marginTimQ1: "Margin Tim Q1",
+    marginTimQ2: "Margin Tim Q2",
+    marginTimQ3: "Margin Tim Q3",
+    marginTimQ4: "Margin Tim Q4",
+  },
+  naTim: {
+    naTimQ1: "NA Tim Q1",
+    naTimQ2: "NA Tim Q2",
+    naTimQ3: "NA Tim Q3",
+    naTimQ4: "NA Tim Q4",
+  },
+  marginPribadi: {
+    marginPribadiQ1: "Margin Pribadi Q1",
+    marginPribadiQ2: "Margin Pribadi Q2",
+    marginPribadiQ3: "Margin Pribadi Q3",
+    marginPribadiQ4: "Margin Pribadi Q4",
+  },
+  nasabahPribadi: {
+    nasabahPribadiQ1: "Nasabah Pribadi Q1",
+    nasabahPribadiQ2: "Nasabah Pribadi Q2",
+    nasabahPribadiQ3: "Nasabah Pribadi Q3",
+    nasabahPribadiQ4: "Nasabah Pribadi Q4",
+  },
+  tim: {
+    jumlahBC: "Jumlah BC",
+    jumlahSBC: "Jumlah SBC",
+    jumlahBsM: "Jumlah BsM",
+    jumlahSBM: "Jumlah SBM",
+    jumlahEM: "Jumlah EM",
+    jumlahSEM: "Jumlah SEM",
+    jumlahVBM: "Jumlah VBM",
+  },
+} as const;
+
+// Scalar fields compared in the history view (input + calculated results)
+const TRACKED_FIELDS: Record<string, string> = {
+  jabatan: "Jabatan",
+  ...Object.assign({}, ...Object.values(EDITABLE_AUDIT_FIELDS)),
+  totalSelfScore: "Total Self Score",
+  totalRealityScore: "Total Reality Score",
+  totalGap: "Total Gap",
+  zonaFinal: "Zona Final",
+  profil: "Profil",
+  scoringRuleVersion: "Rule Set",
+};
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+/**
+ * List every tracked field whose value differs between two audit snapshots
+ */
+export function diffAudits(before: Audit, after: Audit): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  const beforeRecord = before as unknown as Record<string, string | number | null>;
+  const afterRecord = after as unknown as Record<string, string | number | null>;
+
+  for (const [field, label] of Object.entries(TRACKED_FIELDS)) {
+    if (beforeRecord[field] !== afterRecord[field]) {
+      diffs.push({ field, label, before: beforeRecord[field] ?? null, after: afterRecord[field] ?? null });
+    }
+  }
+
+  const beforeRecommendation = before.prodemRekomendasi?.recommendation;
+  const afterRecommendation = after.prodemRekomendasi?.recommendation;
+  if (beforeRecommendation !== afterRecommendation) {
+    diffs.push({
+      field: "prodemRekomendasi.recommendation",
+      label: "Rekomendasi ProDem",
+      before: beforeRecommendation ?? null,
+      after: afterRecommendation ?? null,
+    });
+  }
+
+  // Per-pillar self and reality scores
+  for (const pillar of after.pillarAnswers ?? []) {
+    const previous = before.pillarAnswers?.find(p => p.pillarId === pillar.pillarId);
+    if (!previous) continue;
+    if (previous.selfScore !== pillar.selfScore) {
+      diffs.push({ field: `pilar${pillar.pillarId}.selfScore`, label: `P${pillar.pillarId} Self Score`, before: previous.selfScore, after: pillar.selfScore });
+    }
+    if (previous.realityScore !== pillar.realityScore) {
+      diffs.push({ field: `pilar${pillar.pillarId}.realityScore`, label: `P${pillar.pillarId} Reality Score`, before: previous.realityScore, after: pillar.realityScore });
+    }
+  }
+
+  return diffs;
+}
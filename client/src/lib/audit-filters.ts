@@ -0,0 +1,49 @@
+/**
+ * Audit list filters shared by the Dashboard, the Audit Log and their exports
+ * Mirrors auditListQuerySchema; empty values are left out of the query string
+ */
+
+import type { AuditListQuery } from "@shared/schema";
+
+export type AuditFilters = Partial<Omit<AuditListQuery, "cursor" | "limit">>;
+
+export const AUDIT_PAGE_SIZE = 12;
+
+export const SORT_LABELS: Record<NonNullable<AuditFilters["sort"]>, string> = {
+  createdAt: "Tanggal Audit",
+  nama: "Nama",
+  totalRealityScore: "Reality Score",
+  totalGap: "Gap",
+};
+
+// Filters counted on the Filter button badge (search and sort have their own controls)
+const PANEL_FILTERS: Array<keyof AuditFilters> = ["zona", "profil", "prodem", "branchId", "level", "from", "to", "ownerId", "deleted"];
+
+// Extra parameters: cursor and limit for paging, format for exports
+export function auditQueryString(filters: AuditFilters, extra: Record<string, string | number | undefined> = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filters, ...extra })) {
+    if (value !== undefined && value !== null && String(value).trim() !== "") {
+      params.set(key, String(value).trim());
+    }
+  }
+  return params.toString();
+}
+
+export function countActiveFilters(filters: AuditFilters): number {
+  return PANEL_FILTERS.filter(key => filters[key]).length;
+}
+
+/**
+ * Fetch one page of an audit list endpoint that supports cursor pagination
+ */
+export async function fetchAuditPage<T>(endpoint: string, filters: AuditFilters, cursor?: string): Promise<{ items: T[]; nextCursor: string | null }> {
+  const res = await fetch(`${endpoint}?${auditQueryString(filters, { cursor, limit: AUDIT_PAGE_SIZE })}`, {
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.userMessage || "Gagal memuat daftar audit");
+  }
+  return res.json();
+}
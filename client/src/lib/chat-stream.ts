@@ -0,0 +1,81 @@
+/**
+ * Client for POST /api/chat/stream
+ * Reads the Server-Sent Events off a fetch body (EventSource only supports GET)
+ */
+
+export interface ChatStreamHandlers {
+  onSource(source: string): void;
+  onToken(text: string): void;
+  onReset(): void;
+}
+
+/**
+ * Resolves with the saved answer; rejects with the server's userMessage on failure
+ * Abort the signal to cancel: nothing is saved for a cancelled answer
+ */
+export async function streamChat(
+  body: { auditId: string; message: string },
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+): Promise<{ response: string; source: string }> {
+  const res = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.userMessage || "Gagal mengirim pesan. Silakan coba lagi.");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: { response: string; source: string } | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      result = dispatch(buffer.slice(0, boundary), handlers) ?? result;
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (!result) throw new Error("Koneksi terputus sebelum jawaban selesai. Silakan coba lagi.");
+  return result;
+}
+
+// Returns the final answer for the "done" event
+function dispatch(raw: string, handlers: ChatStreamHandlers): { response: string; source: string } | undefined {
+  let event = "message";
+  let data = "";
+  for (const line of raw.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data += line.slice(5).trim();
+  }
+  const payload = data ? JSON.parse(data) : {};
+
+  switch (event) {
+    case "source":
+      handlers.onSource(payload.source);
+      break;
+    case "token":
+      handlers.onToken(payload.text);
+      break;
+    case "reset":
+      handlers.onReset();
+      break;
+    case "done":
+      return { response: payload.response, source: payload.source };
+    case "error":
+      throw new Error(payload.userMessage || "Gagal mengirim pesan. Silakan coba lagi.");
+  }
+}
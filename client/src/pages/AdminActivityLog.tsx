@@ -0,0 +1,234 @@
+/**
+ * Admin Activity Log Page
+ * Append-only trail of logins, audit actions and account changes with actor, target and IP
+ */
+
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { id as indonesian } from "date-fns/locale";
+import { Activity, Search, Globe, User } from "lucide-react";
+import { ACTIVITY_ACTIONS, type ActivityAction, type ActivityLogEntry, type ActivityLogQuery } from "@shared/schema";
+
+type ActivityRow = Omit<ActivityLogEntry, "createdAt"> & {
+  createdAt: string;
+  actorUsername: string | null;
+  actorName: string | null;
+};
+
+type ActivityFilters = Partial<Pick<ActivityLogQuery, "search" | "action" | "from" | "to">>;
+
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  login: "Login",
+  login_failed: "Login gagal",
+  user_create: "User dibuat",
+  user_delete: "User dihapus",
+  password_change: "Password diubah",
+  audit_create: "Audit dibuat",
+  audit_view: "Audit dilihat",
+  audit_update: "Audit diubah",
+  audit_delete: "Audit dihapus",
+  audit_restore: "Audit dipulihkan",
+  audit_purge: "Audit dihapus permanen (retensi)",
+  audit_rescore: "Audit di-re-score",
+  prodem_decision: "Keputusan ProDem",
+  audit_pdf_download: "PDF diunduh",
+  chat_clear: "Chat dihapus",
+};
+
+const ACTION_COLORS: Partial<Record<ActivityAction, string>> = {
+  login_failed: "bg-red-500/20 text-red-400 border-red-500/30",
+  user_delete: "bg-red-500/20 text-red-400 border-red-500/30",
+  audit_delete: "bg-red-500/20 text-red-400 border-red-500/30",
+  audit_purge: "bg-red-500/20 text-red-400 border-red-500/30",
+  password_change: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  audit_restore: "bg-green-500/20 text-green-400 border-green-500/30",
+  audit_create: "bg-green-500/20 text-green-400 border-green-500/30",
+  user_create: "bg-green-500/20 text-green-400 border-green-500/30",
+};
+
+const ALL = "all";
+
+async function fetchActivityPage(filters: ActivityFilters, cursor?: string): Promise<{ items: ActivityRow[]; nextCursor: string | null }> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filters, cursor })) {
+    if (value) params.set(key, value);
+  }
+  const res = await fetch(`/api/admin/activity-log?${params.toString()}`, { credentials: "include" });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.userMessage || "Gagal memuat log aktivitas");
+  }
+  return res.json();
+}
+
+// Short human-readable summary of the details object
+function describeDetails(details: Record<string, unknown> | null): string {
+  if (!details) return "";
+  return Object.entries(details)
+    .filter(([, value]) => value !== null && value !== undefined && value !== "")
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`)
+    .join(" • ");
+}
+
+export default function AdminActivityLog() {
+  const { user } = useAuth();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [filters, setFilters] = useState<ActivityFilters>({});
+
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(current => ({ ...current, search: searchQuery.trim() || undefined })), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const isAdmin = user?.role === "full_admin" || user?.role === "admin";
+  const activity = useInfiniteQuery({
+    queryKey: ["/api/admin/activity-log", filters],
+    queryFn: ({ pageParam }) => fetchActivityPage(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    placeholderData: keepPreviousData,
+    enabled: isAdmin,
+  });
+  const entries = activity.data?.pages.flatMap(page => page.items) ?? [];
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+            Log Aktivitas
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Siapa melakukan apa, kapan, dan dari IP mana
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Cari user, ID target, IP, atau detail..."
+              className="pl-10"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              data-testid="input-search-activity"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Aksi</Label>
+            <Select
+              value={filters.action ?? ALL}
+              onValueChange={(value) => setFilters({ ...filters, action: value === ALL ? undefined : value as ActivityAction })}
+            >
+              <SelectTrigger data-testid="select-activity-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua aksi</SelectItem>
+                {ACTIVITY_ACTIONS.map(action => (
+                  <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Dari</Label>
+              <Input type="date" value={filters.from ?? ""} onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })} data-testid="input-activity-from" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Sampai</Label>
+              <Input type="date" value={filters.to ?? ""} onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })} data-testid="input-activity-to" />
+            </div>
+          </div>
+        </div>
+
+        {/* Entries */}
+        {activity.isLoading ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-16 bg-card rounded-lg" />
+            <div className="h-16 bg-card rounded-lg" />
+          </div>
+        ) : activity.isError ? (
+          <Alert variant="destructive">
+            <AlertDescription>{activity.error.message}</AlertDescription>
+          </Alert>
+        ) : entries.length === 0 ? (
+          <Card className="p-12 text-center">
+            <Activity className="w-16 h-16 mx-auto text-muted-foreground opacity-50 mb-4" />
+            <p className="text-muted-foreground">Belum ada aktivitas yang cocok</p>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <Card key={entry.id} className="p-4 bg-gray-900/50 border-gray-800" data-testid={`row-activity-${entry.id}`}>
+                <div className="flex flex-col md:flex-row md:items-center gap-2 md:gap-4">
+                  <span className="text-xs text-muted-foreground md:w-40 shrink-0">
+                    {format(new Date(entry.createdAt), "dd MMM yyyy HH:mm:ss", { locale: indonesian })}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded text-xs border w-fit ${ACTION_COLORS[entry.action] ?? "bg-blue-500/20 text-blue-400 border-blue-500/30"}`}>
+                    {ACTION_LABELS[entry.action] ?? entry.action}
+                  </span>
+                  <span className="flex items-center gap-1.5 text-sm">
+                    <User className="w-4 h-4 text-purple-400" />
+                    {entry.actorUsername ?? (entry.actorId ? "(user dihapus)" : "Sistem / anonim")}
+                  </span>
+                  <span className="flex-1 text-sm text-muted-foreground truncate" title={describeDetails(entry.details)}>
+                    {entry.targetType && entry.targetId && (
+                      entry.targetType === "audit" ? (
+                        <a href={`/audit/${entry.targetId}`} className="text-amber-400 hover:underline mr-2">audit</a>
+                      ) : (
+                        <span className="mr-2">user</span>
+                      )
+                    )}
+                    {describeDetails(entry.details)}
+                  </span>
+                  {entry.ipAddress && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                      <Globe className="w-3 h-3" />
+                      {entry.ipAddress}
+                    </span>
+                  )}
+                </div>
+              </Card>
+            ))}
+            {activity.hasNextPage && (
+              <div className="flex justify-center pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => activity.fetchNextPage()}
+                  disabled={activity.isFetchingNextPage}
+                  data-testid="button-load-more-activity"
+                >
+                  {activity.isFetchingNextPage ? "Memuat..." : "Muat Lebih Banyak"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 /**
  * Admin Audit Log Page
- * Shows all audits from all users with creator info and PDF download
+ * Shows all audits from all users with creator info and PDF download, searchable and filterable on the server
  */
 
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { ExportMenu } from "@/components/ExportMenu";
+import { AuditFilterPanel } from "@/components/AuditFilterPanel";
+import { Input } from "@/components/ui/input";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,12 +19,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Download, FileText, User, Calendar, Building, TrendingUp, Award, Trash2 } from "lucide-react";
+import { Download, FileText, User, UserCheck, Calendar, Building, TrendingUp, Award, Trash2, Search, Filter, RotateCcw } from "lucide-react";
 import { format } from "date-fns";
 import { id as indonesian } from "date-fns/locale";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { countActiveFilters, fetchAuditPage, type AuditFilters } from "@/lib/audit-filters";
 
 interface AuditLogEntry {
   id: string;
@@ -43,16 +47,34 @@ interface AuditLogEntry {
   createdById: string | null;
   ownerName: string | null;
   ownerUsername: string | null;
+  creatorName: string | null;
+  creatorUsername: string | null;
 }
 
 export default function AdminAuditLog() {
   const { toast } = useToast();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [auditToDelete, setAuditToDelete] = useState<AuditLogEntry | null>(null);
-  
-  const { data: audits = [], isLoading } = useQuery<AuditLogEntry[]>({
-    queryKey: ["/api/admin/audit-log"],
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const listFilters: AuditFilters = { ...filters, search: debouncedSearch };
+  const auditLog = useInfiniteQuery({
+    queryKey: ["/api/admin/audit-log", "list", listFilters],
+    queryFn: ({ pageParam }) => fetchAuditPage<AuditLogEntry>("/api/admin/audit-log", listFilters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    placeholderData: keepPreviousData, // Keep showing the old results while a new filter loads
   });
+  const audits = auditLog.data?.pages.flatMap(page => page.items) ?? [];
+  const activeFilterCount = countActiveFilters(filters);
 
   const deleteMutation = useMutation({
     mutationFn: async (auditId: string) => {
@@ -86,6 +108,38 @@ export default function AdminAuditLog() {
     },
   });
 
+  const restoreMutation = useMutation({
+    mutationFn: async (auditId: string) => {
+      const response = await fetch(`/api/audit/${auditId}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.userMessage || "Gagal memulihkan audit");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-log"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/summary"] });
+      toast({
+        title: "✅ Audit dipulihkan",
+        description: "Audit kembali aktif dan terlihat oleh pemiliknya",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleDeleteClick = (audit: AuditLogEntry) => {
     setAuditToDelete(audit);
     setDeleteDialogOpen(true);
@@ -119,7 +173,7 @@ export default function AdminAuditLog() {
     }
   };
 
-  if (isLoading) {
+  if (auditLog.isLoading) {
     return (
       <div className="min-h-screen bg-background p-6 md:p-8">
         <div className="max-w-7xl mx-auto">
@@ -147,17 +201,47 @@ export default function AdminAuditLog() {
           </div>
           <div className="flex items-center gap-2 px-4 py-2 rounded-lg bg-card border border-border">
             <FileText className="w-5 h-5 text-purple-400" />
-            <span className="font-semibold">{audits.length}</span>
-            <span className="text-sm text-muted-foreground">Total Audits</span>
+            <span className="font-semibold">{audits.length}{auditLog.hasNextPage && "+"}</span>
+            <span className="text-sm text-muted-foreground">Audits</span>
           </div>
         </div>
 
+        {/* Search & Filters */}
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Cari berdasarkan nama, jabatan, atau cabang..."
+              className="pl-10"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              data-testid="input-search-audit-log"
+            />
+          </div>
+          <Button
+            variant={showFilters || activeFilterCount > 0 ? "default" : "outline"}
+            className="gap-2"
+            onClick={() => setShowFilters(!showFilters)}
+            data-testid="button-filter-audit-log"
+          >
+            <Filter className="w-4 h-4" />
+            Filter{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </Button>
+          <ExportMenu endpoint="/api/admin/audit-log/export" filters={listFilters} disabled={audits.length === 0} />
+        </div>
+
+        {showFilters && (
+          <AuditFilterPanel filters={filters} onChange={setFilters} showOwner showDeleted />
+        )}
+
         {/* Audit List */}
         <div className="space-y-4">
           {audits.length === 0 ? (
             <Card className="p-12 text-center">
               <FileText className="w-16 h-16 mx-auto text-muted-foreground opacity-50 mb-4" />
-              <p className="text-muted-foreground">Belum ada audit yang dibuat</p>
+              <p className="text-muted-foreground">
+                {debouncedSearch || activeFilterCount > 0 ? "Tidak ada audit yang cocok dengan pencarian" : "Belum ada audit yang dibuat"}
+              </p>
             </Card>
           ) : (
             audits.map((audit) => (
@@ -184,12 +268,19 @@ export default function AdminAuditLog() {
                     </div>
 
                     {/* Metadata */}
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
                       <div className="flex items-center gap-2 text-sm">
                         <Building className="w-4 h-4 text-blue-400" />
-                        <span className="text-muted-foreground">User:</span>
+                        <span className="text-muted-foreground">Auditee:</span>
                         <span className="font-medium">{audit.ownerUsername || "N/A"}</span>
                       </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <UserCheck className="w-4 h-4 text-purple-400" />
+                        <span className="text-muted-foreground">Auditor:</span>
+                        <span className="font-medium">
+                          {audit.createdById && audit.createdById !== audit.ownerId ? audit.creatorUsername || "N/A" : "Self-audit"}
+                        </span>
+                      </div>
                       <div className="flex items-center gap-2 text-sm">
                         <Calendar className="w-4 h-4 text-green-400" />
                         <span className="text-muted-foreground">
@@ -230,6 +321,19 @@ export default function AdminAuditLog() {
                       <Download className="w-4 h-4" />
                       Download PDF
                     </Button>
+                    {audit.deletedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(audit.id)}
+                        className="gap-2 border-green-500/30 text-green-400 hover:bg-green-500/10 hover:border-green-500/50"
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-${audit.id}`}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Pulihkan
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -245,6 +349,18 @@ export default function AdminAuditLog() {
               </Card>
             ))
           )}
+          {auditLog.hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => auditLog.fetchNextPage()}
+                disabled={auditLog.isFetchingNextPage}
+                data-testid="button-load-more-audit-log"
+              >
+                {auditLog.isFetchingNextPage ? "Memuat..." : "Muat Lebih Banyak"}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
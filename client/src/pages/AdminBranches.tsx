@@ -0,0 +1,264 @@
+/**
+ * Admin Branches Page
+ * Manage branch registry and regions used to group audits in reports
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { Building2, Plus, Pencil, Trash2 } from "lucide-react";
+import type { Branch, InsertBranch } from "@shared/schema";
+
+type BranchWithCount = Branch & { auditCount: number };
+
+const EMPTY_BRANCH: InsertBranch = {
+  name: "",
+  region: null,
+};
+
+export default function AdminBranches() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<InsertBranch>(EMPTY_BRANCH);
+
+  const { data: branches = [], isLoading } = useQuery<BranchWithCount[]>({
+    queryKey: ["/api/branches"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertBranch) => {
+      const res = await fetch(editingId ? `/api/admin/branches/${editingId}` : "/api/admin/branches", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name: data.name, region: data.region?.trim() || null }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menyimpan cabang");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/branches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      setDialogOpen(false);
+      toast({
+        title: "✅ Cabang Disimpan",
+        description: "Data cabang berhasil disimpan",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/admin/branches/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menghapus cabang");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/branches"] });
+      toast({
+        title: "✅ Cabang Dihapus",
+        description: "Cabang berhasil dihapus",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "full_admin" && user?.role !== "admin") {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const regions = Array.from(new Set(branches.map((branch) => branch.region).filter((region): region is string => !!region))).sort();
+  const unassigned = branches.filter((branch) => !branch.region).length;
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_BRANCH);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (branch: Branch) => {
+    setEditingId(branch.id);
+    setForm({ name: branch.name, region: branch.region });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const handleDelete = (branch: BranchWithCount) => {
+    if (confirm(`Hapus cabang "${branch.name}"?`)) {
+      deleteMutation.mutate(branch.id);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-red-400 bg-clip-text text-transparent">
+            Cabang & Region
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Registry cabang untuk pengelompokan laporan per cabang dan region
+          </p>
+        </div>
+        <Button
+          onClick={openCreate}
+          className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          data-testid="button-create-branch"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Tambah Cabang
+        </Button>
+      </div>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5" />
+            Daftar Cabang ({branches.length})
+          </CardTitle>
+          <CardDescription>
+            {regions.length} region{unassigned > 0 ? ` • ${unassigned} cabang belum punya region` : ""}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin mx-auto" />
+              <p className="text-muted-foreground mt-2">Loading branches...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-gray-800">
+                    <th className="py-2 pr-4">Region</th>
+                    <th className="py-2 pr-4">Cabang</th>
+                    <th className="py-2 pr-4 text-right">Audit</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {branches.map((branch) => (
+                    <tr key={branch.id} className="border-b border-gray-800/50" data-testid={`row-branch-${branch.id}`}>
+                      <td className="py-3 pr-4">
+                        {branch.region || <Badge variant="outline" className="text-yellow-400 border-yellow-500/30">Belum diatur</Badge>}
+                      </td>
+                      <td className="py-3 pr-4 font-semibold">{branch.name}</td>
+                      <td className="py-3 pr-4 text-right">{branch.auditCount}</td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(branch)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(branch)}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-gray-900 border-gray-800">
+          <DialogHeader>
+            <DialogTitle className="bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+              {editingId ? "Edit Cabang" : "Tambah Cabang"}
+            </DialogTitle>
+            <DialogDescription>
+              Mengganti nama cabang juga memperbarui nama cabang di audit yang terhubung
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nama Cabang</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="XYZ Jakarta"
+                required
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Region</Label>
+              <Input
+                value={form.region ?? ""}
+                onChange={(e) => setForm({ ...form, region: e.target.value })}
+                placeholder="Jabodetabek"
+                list="branch-regions"
+                className="bg-gray-800 border-gray-700"
+              />
+              <datalist id="branch-regions">
+                {regions.map((region) => (
+                  <option key={region} value={region} />
+                ))}
+              </datalist>
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-gradient-to-r from-purple-500 to-blue-500"
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * Admin Career Levels Page
+ * Manage jabatan catalog: rank order, quarterly targets, team size and next level
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { Layers, Plus, Pencil, Trash2 } from "lucide-react";
+import type { CareerLevel, InsertCareerLevel } from "@shared/schema";
+
+const EMPTY_LEVEL: InsertCareerLevel = {
+  code: "",
+  name: "",
+  rankOrder: 1,
+  targetMarginQuarterly: 0,
+  expectedTeamSize: 0,
+  targetNA: 0,
+  nextLevelCode: null,
+};
+
+export default function AdminCareerLevels() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<InsertCareerLevel>(EMPTY_LEVEL);
+
+  const { data: levels = [], isLoading } = useQuery<CareerLevel[]>({
+    queryKey: ["/api/career-levels"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertCareerLevel) => {
+      const res = await fetch(editingId ? `/api/admin/career-levels/${editingId}` : "/api/admin/career-levels", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menyimpan level");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/career-levels"] });
+      setDialogOpen(false);
+      toast({
+        title: "✅ Level Disimpan",
+        description: "Career level berhasil disimpan",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/admin/career-levels/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menghapus level");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/career-levels"] });
+      toast({
+        title: "✅ Level Dihapus",
+        description: "Career level berhasil dihapus",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "full_admin" && user?.role !== "admin") {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_LEVEL, rankOrder: levels.length + 1 });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (level: CareerLevel) => {
+    setEditingId(level.id);
+    setForm({
+      code: level.code,
+      name: level.name,
+      rankOrder: level.rankOrder,
+      targetMarginQuarterly: level.targetMarginQuarterly,
+      expectedTeamSize: level.expectedTeamSize,
+      targetNA: level.targetNA,
+      nextLevelCode: level.nextLevelCode,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const handleDelete = (level: CareerLevel) => {
+    if (confirm(`Hapus level "${level.name} (${level.code})"?`)) {
+      deleteMutation.mutate(level.id);
+    }
+  };
+
+  const setNumber = (key: keyof InsertCareerLevel) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [key]: parseInt(e.target.value) || 0 });
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-red-400 bg-clip-text text-transparent">
+            Career Levels
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Target kuartal, struktur tim dan jenjang karier per jabatan
+          </p>
+        </div>
+        <Button
+          onClick={openCreate}
+          className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          data-testid="button-create-level"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Tambah Level
+        </Button>
+      </div>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Jenjang Jabatan ({levels.length})
+          </CardTitle>
+          <CardDescription>
+            Dipakai oleh scoring engine, ProDem dan form Audit Baru
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin mx-auto" />
+              <p className="text-muted-foreground mt-2">Loading levels...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-gray-800">
+                    <th className="py-2 pr-4">#</th>
+                    <th className="py-2 pr-4">Kode</th>
+                    <th className="py-2 pr-4">Nama</th>
+                    <th className="py-2 pr-4 text-right">Target Margin / Q</th>
+                    <th className="py-2 pr-4 text-right">Tim Ideal</th>
+                    <th className="py-2 pr-4 text-right">Target NA / Q</th>
+                    <th className="py-2 pr-4">Next Level</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {levels.map((level) => (
+                    <tr key={level.id} className="border-b border-gray-800/50" data-testid={`row-level-${level.code}`}>
+                      <td className="py-3 pr-4">{level.rankOrder}</td>
+                      <td className="py-3 pr-4 font-semibold">{level.code}</td>
+                      <td className="py-3 pr-4">{level.name}</td>
+                      <td className="py-3 pr-4 text-right">${level.targetMarginQuarterly.toLocaleString()}</td>
+                      <td className="py-3 pr-4 text-right">{level.expectedTeamSize}</td>
+                      <td className="py-3 pr-4 text-right">{level.targetNA}</td>
+                      <td className="py-3 pr-4">{level.nextLevelCode || "-"}</td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(level)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(level)}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-gray-900 border-gray-800">
+          <DialogHeader>
+            <DialogTitle className="bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+              {editingId ? "Edit Career Level" : "Tambah Career Level"}
+            </DialogTitle>
+            <DialogDescription>
+              Perubahan target berlaku untuk audit yang dibuat setelah disimpan
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Kode</Label>
+                <Input
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  placeholder="SBC"
+                  required
+                  disabled={!!editingId}
+                  title={editingId ? "Kode tidak bisa diubah setelah dibuat" : undefined}
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Nama</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Senior Business Consultant"
+                  required
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Urutan (1 = terendah)</Label>
+                <Input type="number" min={1} value={form.rankOrder} onChange={setNumber("rankOrder")} className="bg-gray-800 border-gray-700" />
+              </div>
+              <div className="space-y-2">
+                <Label>Target Margin per Kuartal (USD)</Label>
+                <Input type="number" min={0} value={form.targetMarginQuarterly} onChange={setNumber("targetMarginQuarterly")} className="bg-gray-800 border-gray-700" />
+              </div>
+              <div className="space-y-2">
+                <Label>Jumlah Tim Ideal</Label>
+                <Input type="number" min={0} value={form.expectedTeamSize} onChange={setNumber("expectedTeamSize")} className="bg-gray-800 border-gray-700" />
+              </div>
+              <div className="space-y-2">
+                <Label>Target NA per Kuartal</Label>
+                <Input type="number" min={0} value={form.targetNA} onChange={setNumber("targetNA")} className="bg-gray-800 border-gray-700" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Level Berikutnya</Label>
+              <Select
+                value={form.nextLevelCode ?? "none"}
+                onValueChange={(value) => setForm({ ...form, nextLevelCode: value === "none" ? null : value })}
+              >
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  <SelectItem value="none">— Puncak jenjang —</SelectItem>
+                  {levels
+                    .filter((level) => level.id !== editingId)
+                    .map((level) => (
+                      <SelectItem key={level.id} value={level.code}>
+                        {level.name} ({level.code})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-gradient-to-r from-purple-500 to-blue-500"
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
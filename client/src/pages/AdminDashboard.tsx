@@ -130,6 +130,36 @@ export default function AdminDashboard() {
     },
   });
 
+  // Assign upline mutation
+  const supervisorMutation = useMutation({
+    mutationFn: async ({ userId, supervisorId }: { userId: string; supervisorId: string | null }) => {
+      const res = await fetch(`/api/admin/users/${userId}/supervisor`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ supervisorId }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Failed to update supervisor");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      toast({
+        title: "✅ Atasan Diperbarui",
+        description: "Reporting line berhasil disimpan",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleCreateUser = (e: React.FormEvent) => {
     e.preventDefault();
     createUserMutation.mutate(newUser);
@@ -235,7 +265,7 @@ export default function AdminDashboard() {
                   <SelectContent className="bg-gray-800 border-gray-700">
                     <SelectItem value="full_admin">Full Admin</SelectItem>
                     <SelectItem value="admin">Admin</SelectItem>
-                    <SelectItem value="auditor">Auditor</SelectItem>
+                    <SelectItem value="auditor">Auditor (BrM / SEM, akses downline)</SelectItem>
                     <SelectItem value="regular_user">Regular User</SelectItem>
                   </SelectContent>
                 </Select>
@@ -326,6 +356,24 @@ export default function AdminDashboard() {
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
+                    <Select
+                      value={u.supervisorId ?? "none"}
+                      onValueChange={(value) => supervisorMutation.mutate({ userId: u.id, supervisorId: value === "none" ? null : value })}
+                    >
+                      <SelectTrigger className="w-44 bg-gray-800 border-gray-700" data-testid={`select-supervisor-${u.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-800 border-gray-700">
+                        <SelectItem value="none">— Tanpa atasan —</SelectItem>
+                        {users
+                          ?.filter((candidate) => candidate.id !== u.id)
+                          .map((candidate) => (
+                            <SelectItem key={candidate.id} value={candidate.id}>
+                              Atasan: {candidate.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
                     <span className={`px-3 py-1 rounded-full text-xs font-semibold text-white ${getRoleBadgeColor(u.role)}`}>
                       {u.role.replace('_', ' ')}
                     </span>
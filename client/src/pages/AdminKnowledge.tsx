@@ -0,0 +1,320 @@
+/**
+ * Admin Knowledge Base Page
+ * Manage the offline coach answers by category, with keywords and audit placeholders
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BookOpen, Plus, Pencil, Trash2, Search } from "lucide-react";
+import type { InsertKnowledgeEntry, KnowledgeEntry } from "@shared/schema";
+
+// Keywords are edited as one comma-separated line
+type KnowledgeForm = Omit<InsertKnowledgeEntry, "keywords"> & { keywords: string };
+
+const EMPTY_ENTRY: KnowledgeForm = {
+  category: "",
+  keywords: "",
+  response: "",
+};
+
+const ALL = "all";
+
+export default function AdminKnowledge() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<KnowledgeForm>(EMPTY_ENTRY);
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const isAdmin = user?.role === "full_admin" || user?.role === "admin";
+
+  const { data: entries = [], isLoading } = useQuery<KnowledgeEntry[]>({
+    queryKey: ["/api/admin/knowledge"],
+    enabled: isAdmin,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: KnowledgeForm) => {
+      const res = await fetch(editingId ? `/api/admin/knowledge/${editingId}` : "/api/admin/knowledge", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          category: data.category,
+          keywords: data.keywords.split(",").map(keyword => keyword.trim()).filter(Boolean),
+          response: data.response,
+        }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menyimpan entri");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/knowledge"] });
+      setDialogOpen(false);
+      toast({
+        title: "✅ Entri Disimpan",
+        description: "Knowledge base berhasil diperbarui",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/admin/knowledge/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menghapus entri");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/knowledge"] });
+      toast({
+        title: "✅ Entri Dihapus",
+        description: "Entri knowledge base berhasil dihapus",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const categories = Array.from(new Set(entries.map((entry) => entry.category))).sort();
+  const search = searchQuery.trim().toLowerCase();
+  const visibleEntries = entries.filter((entry) =>
+    (categoryFilter === ALL || entry.category === categoryFilter)
+    && (!search
+      || entry.keywords.some((keyword) => keyword.toLowerCase().includes(search))
+      || entry.response.toLowerCase().includes(search))
+  );
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_ENTRY, category: categoryFilter === ALL ? "" : categoryFilter });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (entry: KnowledgeEntry) => {
+    setEditingId(entry.id);
+    setForm({ category: entry.category, keywords: entry.keywords.join(", "), response: entry.response });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const handleDelete = (entry: KnowledgeEntry) => {
+    if (confirm(`Hapus entri "${entry.category}" (${entry.keywords.slice(0, 3).join(", ")})?`)) {
+      deleteMutation.mutate(entry.id);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-red-400 bg-clip-text text-transparent">
+            Knowledge Base
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Jawaban coach saat AI tidak tersedia, dicocokkan lewat kata kunci
+          </p>
+        </div>
+        <Button
+          onClick={openCreate}
+          className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          data-testid="button-create-knowledge"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Tambah Entri
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="relative md:col-span-2">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Cari kata kunci atau isi jawaban..."
+            className="pl-10"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            data-testid="input-search-knowledge"
+          />
+        </div>
+        <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+          <SelectTrigger data-testid="select-knowledge-category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Semua kategori</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category} value={category}>{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Entri ({visibleEntries.length})
+          </CardTitle>
+          <CardDescription>
+            {categories.length} kategori • Jawaban bisa memakai placeholder audit seperti {"{{nama}}"} atau {"{{totalRealityScore}}"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin mx-auto" />
+              <p className="text-muted-foreground mt-2">Loading entries...</p>
+            </div>
+          ) : visibleEntries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Belum ada entri yang cocok</p>
+          ) : (
+            visibleEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className="p-3 rounded-lg bg-gray-800/50 border border-gray-700 space-y-2"
+                data-testid={`row-knowledge-${entry.id}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-2">
+                    <span className="text-xs px-2 py-0.5 rounded bg-purple-500/20 text-purple-300">{entry.category}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {entry.keywords.map((keyword) => (
+                        <Badge key={keyword} variant="outline" className="text-xs">{keyword}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(entry)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(entry)}
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-line">{entry.response}</p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-gray-900 border-gray-800 max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+              {editingId ? "Edit Entri" : "Tambah Entri"}
+            </DialogTitle>
+            <DialogDescription>
+              Placeholder audit ({"{{nama}}"}, {"{{zonaFinal}}"}, {"{{swotAnalysis.weakness}}"}, ...) diisi sesuai audit yang sedang dibahas
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Kategori</Label>
+                <Input
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  placeholder="Leadership"
+                  list="knowledge-categories"
+                  required
+                  className="bg-gray-800 border-gray-700"
+                />
+                <datalist id="knowledge-categories">
+                  {categories.map((category) => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="space-y-2">
+                <Label>Kata Kunci (pisahkan dengan koma)</Label>
+                <Input
+                  value={form.keywords}
+                  onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+                  placeholder="closing, deal, negosiasi"
+                  required
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Jawaban (Markdown)</Label>
+              <Textarea
+                value={form.response}
+                onChange={(e) => setForm({ ...form, response: e.target.value })}
+                required
+                className="bg-gray-800 border-gray-700 font-mono text-xs min-h-[320px]"
+                data-testid="textarea-knowledge-response"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-gradient-to-r from-purple-500 to-blue-500"
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+/**
+ * Admin People Page
+ * Auditee registry: edit employee data and merge duplicate people
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { Contact, Plus, Pencil, Trash2, Merge, Search } from "lucide-react";
+import type { Person, InsertPerson } from "@shared/schema";
+
+type PersonWithCount = Person & { auditCount: number };
+
+const EMPTY_PERSON: InsertPerson = {
+  employeeCode: null,
+  nama: "",
+  cabang: "",
+  tanggalLahir: null,
+  currentLevelCode: null,
+};
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    credentials: "include",
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.userMessage || "Terjadi kesalahan");
+  }
+  return res.json();
+}
+
+export default function AdminPeople() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<InsertPerson>(EMPTY_PERSON);
+  const [mergeTargets, setMergeTargets] = useState<Record<number, string>>({});
+
+  const { data: people = [], isLoading } = useQuery<PersonWithCount[]>({
+    queryKey: ["/api/people"],
+  });
+
+  const { data: duplicateGroups = [] } = useQuery<PersonWithCount[][]>({
+    queryKey: ["/api/admin/people/duplicates"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/people"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/people/duplicates"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "❌ Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: InsertPerson) =>
+      sendJson(editingId ? `/api/admin/people/${editingId}` : "/api/admin/people", editingId ? "PATCH" : "POST", data),
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({
+        title: "✅ Data Disimpan",
+        description: "Data orang berhasil disimpan",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendJson(`/api/admin/people/${id}`, "DELETE"),
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "✅ Data Dihapus",
+        description: "Orang berhasil dihapus dari registry",
+      });
+    },
+    onError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (data: { targetId: string; sourceIds: string[] }) => sendJson("/api/admin/people/merge", "POST", data),
+    onSuccess: (result: { target: Person; movedAudits: number }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      setMergeTargets({});
+      toast({
+        title: "✅ Data Digabungkan",
+        description: `${result.movedAudits} audit dipindahkan ke ${result.target.nama}`,
+      });
+    },
+    onError,
+  });
+
+  if (user?.role !== "full_admin" && user?.role !== "admin") {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_PERSON);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (person: Person) => {
+    setEditingId(person.id);
+    setForm({
+      employeeCode: person.employeeCode,
+      nama: person.nama,
+      cabang: person.cabang,
+      tanggalLahir: person.tanggalLahir,
+      currentLevelCode: person.currentLevelCode,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      ...form,
+      employeeCode: form.employeeCode?.trim() || null,
+      tanggalLahir: form.tanggalLahir?.trim() || null,
+    });
+  };
+
+  const handleDelete = (person: PersonWithCount) => {
+    if (confirm(`Hapus "${person.nama}" dari registry?`)) {
+      deleteMutation.mutate(person.id);
+    }
+  };
+
+  const handleMerge = (group: PersonWithCount[], index: number) => {
+    const targetId = mergeTargets[index] ?? group[0].id;
+    const target = group.find(p => p.id === targetId)!;
+    const sourceIds = group.filter(p => p.id !== targetId).map(p => p.id);
+    if (confirm(`Gabungkan ${sourceIds.length} data ke "${target.nama}"? Semua audit akan dipindahkan.`)) {
+      mergeMutation.mutate({ targetId, sourceIds });
+    }
+  };
+
+  const filtered = people.filter(person => {
+    const query = search.toLowerCase();
+    return !query
+      || person.nama.toLowerCase().includes(query)
+      || person.employeeCode?.toLowerCase().includes(query)
+      || person.cabang?.toLowerCase().includes(query);
+  });
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-red-400 bg-clip-text text-transparent">
+            People Registry
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Data auditee yang menghubungkan audit berulang dari orang yang sama
+          </p>
+        </div>
+        <Button
+          onClick={openCreate}
+          className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          data-testid="button-create-person"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Tambah Orang
+        </Button>
+      </div>
+
+      {/* Duplicate suggestions */}
+      {duplicateGroups.length > 0 && (
+        <Card className="bg-yellow-500/5 border-yellow-500/30">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Merge className="w-5 h-5 text-yellow-400" />
+              Kemungkinan Duplikat ({duplicateGroups.length})
+            </CardTitle>
+            <CardDescription>
+              Pilih data utama yang dipertahankan, audit dari data lain akan dipindahkan ke sana
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {duplicateGroups.map((group, index) => (
+              <div key={group.map(p => p.id).join("-")} className="p-3 rounded-lg bg-gray-900/50 border border-gray-800 space-y-3">
+                <RadioGroup
+                  value={mergeTargets[index] ?? group[0].id}
+                  onValueChange={(value) => setMergeTargets({ ...mergeTargets, [index]: value })}
+                >
+                  {group.map((person) => (
+                    <div key={person.id} className="flex items-center gap-3">
+                      <RadioGroupItem value={person.id} id={`merge-${person.id}`} />
+                      <Label htmlFor={`merge-${person.id}`} className="font-normal">
+                        <span className="font-semibold">{person.nama}</span>
+                        <span className="text-muted-foreground">
+                          {" "}• {person.employeeCode || "tanpa kode"} • {person.cabang || "-"} • {person.tanggalLahir || "-"} • {person.auditCount} audit
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                <Button
+                  size="sm"
+                  onClick={() => handleMerge(group, index)}
+                  disabled={mergeMutation.isPending}
+                  data-testid={`button-merge-${index}`}
+                >
+                  <Merge className="w-4 h-4 mr-2" />
+                  Gabungkan
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Contact className="w-5 h-5" />
+            Daftar Orang ({people.length})
+          </CardTitle>
+          <div className="relative mt-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cari nama, kode karyawan atau cabang..."
+              className="pl-9 bg-gray-800 border-gray-700"
+              data-testid="input-search-people"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin mx-auto" />
+              <p className="text-muted-foreground mt-2">Loading people...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-gray-800">
+                    <th className="py-2 pr-4">Kode</th>
+                    <th className="py-2 pr-4">Nama</th>
+                    <th className="py-2 pr-4">Cabang</th>
+                    <th className="py-2 pr-4">Tanggal Lahir</th>
+                    <th className="py-2 pr-4">Level</th>
+                    <th className="py-2 pr-4 text-right">Audit</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {filtered.map((person) => (
+                    <tr key={person.id} className="border-b border-gray-800/50" data-testid={`row-person-${person.id}`}>
+                      <td className="py-3 pr-4">{person.employeeCode || "-"}</td>
+                      <td className="py-3 pr-4 font-semibold">
+                        <Link href={`/people/${person.id}`} className="hover:underline" data-testid={`link-person-timeline-${person.id}`}>
+                          {person.nama}
+                        </Link>
+                      </td>
+                      <td className="py-3 pr-4">{person.cabang || "-"}</td>
+                      <td className="py-3 pr-4">{person.tanggalLahir || "-"}</td>
+                      <td className="py-3 pr-4">{person.currentLevelCode || "-"}</td>
+                      <td className="py-3 pr-4 text-right">{person.auditCount}</td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(person)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(person)}
+                          disabled={person.auditCount > 0}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-gray-900 border-gray-800">
+          <DialogHeader>
+            <DialogTitle className="bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+              {editingId ? "Edit Orang" : "Tambah Orang"}
+            </DialogTitle>
+            <DialogDescription>
+              Level diperbarui otomatis dari audit terbaru
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Kode Karyawan</Label>
+                <Input
+                  value={form.employeeCode ?? ""}
+                  onChange={(e) => setForm({ ...form, employeeCode: e.target.value })}
+                  placeholder="EMP-001"
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Nama</Label>
+                <Input
+                  value={form.nama}
+                  onChange={(e) => setForm({ ...form, nama: e.target.value })}
+                  required
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Cabang</Label>
+                <Input
+                  value={form.cabang ?? ""}
+                  onChange={(e) => setForm({ ...form, cabang: e.target.value })}
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tanggal Lahir</Label>
+                <Input
+                  value={form.tanggalLahir ?? ""}
+                  onChange={(e) => setForm({ ...form, tanggalLahir: e.target.value })}
+                  placeholder="DD-MM-YYYY"
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-gradient-to-r from-purple-500 to-blue-500"
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
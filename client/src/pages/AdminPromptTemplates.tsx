@@ -0,0 +1,460 @@
+/**
+ * Admin Coach Prompt Templates Page
+ * Edit the AI coach system prompt with audit placeholders, version it per name, publish per role or zone and preview it
+ */
+
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { MessageSquareText, Save, Upload, FileText, Eye, Braces } from "lucide-react";
+import { AUDIT_ZONES, type CoachPromptTemplate, type InsertCoachPromptTemplate, type User } from "@shared/schema";
+
+type TemplateRole = User["role"];
+type TemplateZone = typeof AUDIT_ZONES[number];
+
+const ROLE_LABELS: Record<TemplateRole, string> = {
+  full_admin: "Full Admin",
+  admin: "Admin",
+  auditor: "Auditor",
+  regular_user: "Regular User",
+};
+
+const ANY = "any";
+
+interface AuditOption {
+  id: string;
+  nama: string;
+  cabang: string;
+  zonaFinal: string;
+}
+
+interface PromptPreview {
+  template: CoachPromptTemplate | null;
+  prompt: string;
+}
+
+async function postJson<T>(url: string, body: unknown, fallbackMessage: string): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.userMessage || fallbackMessage);
+  }
+  return res.json();
+}
+
+// The live version of each name: the most recently published one
+function liveTemplateIds(templates: CoachPromptTemplate[]): Set<string> {
+  const latest = new Map<string, CoachPromptTemplate>();
+  for (const template of templates) {
+    if (template.status !== "published" || !template.publishedAt) continue;
+    const current = latest.get(template.name);
+    if (!current || new Date(template.publishedAt) > new Date(current.publishedAt!)) latest.set(template.name, template);
+  }
+  return new Set(Array.from(latest.values()).map(template => template.id));
+}
+
+function scopeLabel(template: Pick<CoachPromptTemplate, "role" | "zona">): string {
+  const parts = [
+    template.role ? ROLE_LABELS[template.role] : null,
+    template.zona ? `Zona ${template.zona}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" • ") : "Semua role & zona";
+}
+
+export default function AdminPromptTemplates() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<InsertCoachPromptTemplate>({ name: "", role: null, zona: null, body: "", notes: "" });
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [previewAuditId, setPreviewAuditId] = useState("");
+  const [previewRole, setPreviewRole] = useState<TemplateRole>("regular_user");
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+
+  const isAdmin = user?.role === "full_admin" || user?.role === "admin";
+
+  const { data: templates = [], isLoading } = useQuery<CoachPromptTemplate[]>({
+    queryKey: ["/api/admin/prompt-templates"],
+    enabled: isAdmin,
+  });
+
+  const { data: placeholders = [] } = useQuery<Array<{ key: string; description: string }>>({
+    queryKey: ["/api/admin/prompt-templates/placeholders"],
+    enabled: isAdmin,
+  });
+
+  const { data: auditOptions = [] } = useQuery<AuditOption[]>({
+    queryKey: ["/api/admin/audit-log", "prompt-preview"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/audit-log?deleted=active&limit=100", { credentials: "include" });
+      if (!res.ok) throw new Error("Gagal memuat daftar audit");
+      const page: { items: AuditOption[] } = await res.json();
+      return page.items;
+    },
+    enabled: isAdmin,
+  });
+
+  const liveIds = liveTemplateIds(templates);
+
+  const loadVersion = (template: CoachPromptTemplate) => {
+    setDraft({ name: template.name, role: template.role, zona: template.zona, body: template.body, notes: "" });
+    setBaseVersion(template.version);
+  };
+
+  // Prefill the editor with the live default template
+  useEffect(() => {
+    if (baseVersion !== null) return;
+    const base = templates.find(template => liveIds.has(template.id) && !template.role && !template.zona);
+    if (base) loadVersion(base);
+  }, [templates, baseVersion]);
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertCoachPromptTemplate) =>
+      postJson<CoachPromptTemplate>("/api/admin/prompt-templates", data, "Gagal menyimpan draft"),
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/prompt-templates"] });
+      setDraft({ ...draft, notes: "" });
+      setBaseVersion(template.version);
+      toast({
+        title: "✅ Draft Disimpan",
+        description: `${template.name} versi ${template.version} disimpan sebagai draft`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: (id: string) =>
+      postJson<CoachPromptTemplate>(`/api/admin/prompt-templates/${id}/publish`, {}, "Gagal mempublikasikan versi"),
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/prompt-templates"] });
+      toast({
+        title: "✅ Versi Dipublikasikan",
+        description: `Chat coach (${scopeLabel(template)}) sekarang memakai ${template.name} v${template.version}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (data: { auditId: string; body?: string; role?: TemplateRole }) =>
+      postJson<PromptPreview>("/api/admin/prompt-templates/preview", data, "Gagal membuat preview"),
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const handlePublish = (template: CoachPromptTemplate) => {
+    if (confirm(`Publikasikan ${template.name} v${template.version}? Chat berikutnya (${scopeLabel(template)}) langsung memakai versi ini.`)) {
+      publishMutation.mutate(template.id);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-red-400 bg-clip-text text-transparent">
+          Prompt Coach
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          System prompt AI coach dengan placeholder audit. Template paling spesifik (role + zona, role, zona, umum) yang dipakai.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Version list */}
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareText className="w-5 h-5" />
+              Versi ({templates.length})
+            </CardTitle>
+            <CardDescription>
+              Per nama template, versi terbaru yang dipublikasikan yang aktif
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin mx-auto" />
+                <p className="text-muted-foreground mt-2">Loading versions...</p>
+              </div>
+            ) : (
+              templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="p-3 rounded-lg bg-gray-800/50 border border-gray-700 space-y-2"
+                  data-testid={`row-prompt-template-${template.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold truncate">{template.name} v{template.version}</span>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded shrink-0 ${
+                        liveIds.has(template.id)
+                          ? "bg-green-500/20 text-green-400"
+                          : template.status === "published"
+                            ? "bg-gray-700 text-gray-300"
+                            : "bg-yellow-500/20 text-yellow-400"
+                      }`}
+                    >
+                      {liveIds.has(template.id) ? "Aktif" : template.status === "published" ? "Published" : "Draft"}
+                    </span>
+                  </div>
+                  <p className="text-xs text-purple-300">{scopeLabel(template)}</p>
+                  {template.notes && <p className="text-sm text-muted-foreground">{template.notes}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    Dibuat {new Date(template.createdAt).toLocaleDateString("id-ID")}
+                    {template.publishedAt && ` • Publish ${new Date(template.publishedAt).toLocaleDateString("id-ID")}`}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => loadVersion(template)}>
+                      <FileText className="w-4 h-4 mr-1" />
+                      Buka
+                    </Button>
+                    {template.status === "draft" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePublish(template)}
+                        disabled={publishMutation.isPending}
+                        className="text-green-400 hover:text-green-300 hover:bg-green-500/10"
+                      >
+                        <Upload className="w-4 h-4 mr-1" />
+                        Publish
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Editor */}
+        <Card className="bg-gray-900/50 border-gray-800 lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Editor Template</CardTitle>
+            <CardDescription>
+              {baseVersion !== null ? `Berdasarkan ${draft.name} v${baseVersion}. ` : ""}
+              Nama yang sudah ada menambah versi baru; nama baru mulai dari v1.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Nama Template</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Contoh: Zona Merah"
+                  className="bg-gray-800 border-gray-700"
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Untuk Role</Label>
+                <Select
+                  value={draft.role ?? ANY}
+                  onValueChange={(value) => setDraft({ ...draft, role: value === ANY ? null : value as TemplateRole })}
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-template-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-700">
+                    <SelectItem value={ANY}>Semua role</SelectItem>
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Untuk Zona</Label>
+                <Select
+                  value={draft.zona ?? ANY}
+                  onValueChange={(value) => setDraft({ ...draft, zona: value === ANY ? null : value as TemplateZone })}
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-template-zona">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-700">
+                    <SelectItem value={ANY}>Semua zona</SelectItem>
+                    {AUDIT_ZONES.map(zona => (
+                      <SelectItem key={zona} value={zona}>Zona {zona}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              className="bg-gray-800 border-gray-700 font-mono text-xs min-h-[420px]"
+              spellCheck={false}
+              data-testid="textarea-template-body"
+            />
+            <div className="space-y-2">
+              <Label>Catatan Perubahan</Label>
+              <Input
+                value={draft.notes ?? ""}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                placeholder="Contoh: Nada lebih tegas untuk zona merah"
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+            <Button
+              onClick={() => createMutation.mutate(draft)}
+              disabled={createMutation.isPending || !draft.name.trim() || !draft.body.trim()}
+              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+              data-testid="button-save-template-draft"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Menyimpan..." : "Simpan sebagai Draft Baru"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Placeholder reference */}
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Braces className="w-5 h-5" />
+              Placeholder
+            </CardTitle>
+            <CardDescription>
+              Tulis {"{{nama}}"}, {"{{swotAnalysis.strength.0}}"} atau {"{{nama|upper}}"}. Semua kolom audit bisa dipakai.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 max-h-[420px] overflow-y-auto">
+            {placeholders.map(({ key, description }) => (
+              <div key={key} className="text-sm">
+                <code className="text-amber-400">{`{{${key}}}`}</code>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Preview */}
+        <Card className="bg-gray-900/50 border-gray-800 lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="w-5 h-5" />
+              Preview
+            </CardTitle>
+            <CardDescription>
+              Render isi editor, atau template yang aktif untuk role dan zona audit, terhadap audit pilihan
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Audit</Label>
+                <Select value={previewAuditId} onValueChange={setPreviewAuditId}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-preview-audit">
+                    <SelectValue placeholder="Pilih audit" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-700">
+                    {auditOptions.map(audit => (
+                      <SelectItem key={audit.id} value={audit.id}>
+                        {audit.nama} • {audit.cabang} • {audit.zonaFinal}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Role Pengguna Chat</Label>
+                <Select value={previewRole} onValueChange={(value) => setPreviewRole(value as TemplateRole)}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-preview-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-700">
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate({ auditId: previewAuditId, body: draft.body })}
+                disabled={!previewAuditId || !draft.body.trim() || previewMutation.isPending}
+                data-testid="button-preview-editor"
+              >
+                Preview Isi Editor
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate({ auditId: previewAuditId, role: previewRole })}
+                disabled={!previewAuditId || previewMutation.isPending}
+                data-testid="button-preview-live"
+              >
+                Preview Template Aktif
+              </Button>
+            </div>
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {preview.template
+                    ? `${preview.template.name} v${preview.template.version} (${scopeLabel(preview.template)})`
+                    : "Isi editor / prompt bawaan"}
+                </p>
+                <pre className="p-4 rounded-lg bg-gray-800/50 border border-gray-700 text-xs whitespace-pre-wrap max-h-[480px] overflow-y-auto" data-testid="text-prompt-preview">
+                  {preview.prompt}
+                </pre>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * Admin Re-score Page
+ * Dry-run selected audits against a rule set, review the diff, then commit as revisions
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { RefreshCw, Play, Save, ArrowRight } from "lucide-react";
+import type { Audit, ScoringRuleSet } from "@shared/schema";
+
+interface ResultSummary {
+  totalRealityScore: number;
+  zonaFinal: string;
+  profil: string;
+  recommendation: string;
+  scoringRuleVersion: number | null;
+}
+
+interface RescoreResult {
+  auditId: string;
+  nama: string;
+  jabatan: string;
+  cabang: string;
+  before: ResultSummary;
+  after: ResultSummary;
+  changed: boolean;
+}
+
+interface RescoreResponse {
+  scoringRuleVersion: number;
+  results: RescoreResult[];
+  missing: string[];
+  committed?: number;
+}
+
+const ZONA_COLORS: Record<string, string> = {
+  hijau: "text-green-400",
+  kuning: "text-yellow-400",
+  merah: "text-red-400",
+};
+
+async function postRescore(url: string, body: object): Promise<RescoreResponse> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.userMessage || "Gagal memproses re-score");
+  }
+  return res.json();
+}
+
+function DiffCell({ before, after, className }: { before: string | number; after: string | number; className?: (v: string) => string }) {
+  if (before === after) {
+    return <span className={className?.(String(after))}>{after}</span>;
+  }
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span className={`line-through opacity-60 ${className?.(String(before)) ?? ""}`}>{before}</span>
+      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+      <span className={`font-semibold ${className?.(String(after)) ?? "text-purple-300"}`}>{after}</span>
+    </span>
+  );
+}
+
+export default function AdminRescore() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [ruleSetId, setRuleSetId] = useState<string>("active");
+  const [preview, setPreview] = useState<RescoreResponse | null>(null);
+
+  const { data: audits = [], isLoading } = useQuery<Audit[]>({
+    queryKey: ["/api/audits"],
+  });
+
+  const { data: ruleSets = [] } = useQuery<ScoringRuleSet[]>({
+    queryKey: ["/api/admin/scoring-rules"],
+  });
+
+  const requestBody = () => ({
+    auditIds: Array.from(selected),
+    ruleSetId: ruleSetId === "active" ? undefined : ruleSetId,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => postRescore("/api/admin/rescore/preview", requestBody()),
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () => postRescore("/api/admin/rescore/commit", requestBody()),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      setPreview(null);
+      setSelected(new Set());
+      toast({
+        title: "✅ Re-score Disimpan",
+        description: `${data.committed} audit dinilai ulang dengan rule set v${data.scoringRuleVersion}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "full_admin" && user?.role !== "admin") {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+    setPreview(null);
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === audits.length ? new Set() : new Set(audits.map(a => a.id)));
+    setPreview(null);
+  };
+
+  const selectedRuleSet = ruleSets.find(r => r.id === ruleSetId);
+  const canCommit = preview && (ruleSetId === "active" || selectedRuleSet?.status === "published");
+  const changedCount = preview?.results.filter(r => r.changed).length ?? 0;
+
+  const handleCommit = () => {
+    if (confirm(`Simpan hasil re-score untuk ${preview?.results.length} audit? Kondisi sebelumnya disimpan sebagai revisi.`)) {
+      commitMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-red-400 bg-clip-text text-transparent">
+          Re-score Audit
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Simulasikan perubahan rule set pada audit yang sudah ada sebelum disimpan
+        </p>
+      </div>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RefreshCw className="w-5 h-5" />
+            Pilih Audit ({selected.size}/{audits.length})
+          </CardTitle>
+          <CardDescription>
+            Draft rule set bisa dipakai untuk dry run, commit hanya untuk versi yang sudah dipublikasikan
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Select value={ruleSetId} onValueChange={(value) => { setRuleSetId(value); setPreview(null); }}>
+              <SelectTrigger className="bg-gray-800 border-gray-700 sm:w-72" data-testid="select-ruleset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                <SelectItem value="active">Rule set aktif</SelectItem>
+                {ruleSets.map((ruleSet) => (
+                  <SelectItem key={ruleSet.id} value={ruleSet.id}>
+                    v{ruleSet.version} ({ruleSet.status === "draft" ? "Draft" : "Published"})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => previewMutation.mutate()}
+              disabled={selected.size === 0 || previewMutation.isPending}
+              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+              data-testid="button-dry-run"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {previewMutation.isPending ? "Memproses..." : "Dry Run"}
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin mx-auto" />
+              <p className="text-muted-foreground mt-2">Loading audits...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-gray-800">
+                    <th className="py-2 pr-4">
+                      <Checkbox checked={audits.length > 0 && selected.size === audits.length} onCheckedChange={toggleAll} />
+                    </th>
+                    <th className="py-2 pr-4">Nama</th>
+                    <th className="py-2 pr-4">Jabatan</th>
+                    <th className="py-2 pr-4">Cabang</th>
+                    <th className="py-2 pr-4 text-right">Reality</th>
+                    <th className="py-2 pr-4">Zona</th>
+                    <th className="py-2">Rule Set</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {audits.map((audit) => (
+                    <tr key={audit.id} className="border-b border-gray-800/50" data-testid={`row-audit-${audit.id}`}>
+                      <td className="py-2 pr-4">
+                        <Checkbox checked={selected.has(audit.id)} onCheckedChange={() => toggle(audit.id)} />
+                      </td>
+                      <td className="py-2 pr-4 font-medium">{audit.nama}</td>
+                      <td className="py-2 pr-4">{audit.jabatan}</td>
+                      <td className="py-2 pr-4">{audit.cabang}</td>
+                      <td className="py-2 pr-4 text-right">{audit.totalRealityScore}</td>
+                      <td className={`py-2 pr-4 ${ZONA_COLORS[audit.zonaFinal] ?? ""}`}>{audit.zonaFinal}</td>
+                      <td className="py-2">{audit.scoringRuleVersion ? `v${audit.scoringRuleVersion}` : "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div>
+                <CardTitle>Hasil Dry Run (rule set v{preview.scoringRuleVersion})</CardTitle>
+                <CardDescription>
+                  {changedCount} dari {preview.results.length} audit berubah
+                  {preview.missing.length > 0 && ` • ${preview.missing.length} audit tidak ditemukan atau sudah dihapus`}
+                </CardDescription>
+              </div>
+              <Button
+                onClick={handleCommit}
+                disabled={!canCommit || commitMutation.isPending}
+                className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+                data-testid="button-commit-rescore"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {commitMutation.isPending ? "Menyimpan..." : "Commit sebagai Revisi"}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-gray-800">
+                    <th className="py-2 pr-4">Nama</th>
+                    <th className="py-2 pr-4">Reality Score</th>
+                    <th className="py-2 pr-4">Zona</th>
+                    <th className="py-2 pr-4">Profil</th>
+                    <th className="py-2">ProDem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.results.map((result) => (
+                    <tr
+                      key={result.auditId}
+                      className={`border-b border-gray-800/50 ${result.changed ? "bg-purple-500/5" : ""}`}
+                      data-testid={`row-diff-${result.auditId}`}
+                    >
+                      <td className="py-2 pr-4">
+                        <p className="font-medium">{result.nama}</p>
+                        <p className="text-xs text-muted-foreground">{result.jabatan} • {result.cabang}</p>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <DiffCell before={result.before.totalRealityScore} after={result.after.totalRealityScore} />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <DiffCell before={result.before.zonaFinal} after={result.after.zonaFinal} className={(v) => ZONA_COLORS[v] ?? ""} />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <DiffCell before={result.before.profil} after={result.after.profil} />
+                      </td>
+                      <td className="py-2">
+                        <DiffCell before={result.before.recommendation} after={result.after.recommendation} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
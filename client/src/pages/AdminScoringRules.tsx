@@ -0,0 +1,271 @@
+/**
+ * Admin Scoring Rules Page
+ * Edit declarative Reality Score rules as JSON, save drafts and publish new versions
+ */
+
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { SlidersHorizontal, Save, Upload, FileJson } from "lucide-react";
+import type { ScoringRuleSet, ScoringRules } from "@shared/schema";
+
+interface ActiveRules {
+  version: number;
+  rules: ScoringRules;
+}
+
+export default function AdminScoringRules() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rulesJson, setRulesJson] = useState("");
+  const [notes, setNotes] = useState("");
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+
+  const { data: ruleSets = [], isLoading } = useQuery<ScoringRuleSet[]>({
+    queryKey: ["/api/admin/scoring-rules"],
+  });
+
+  const { data: active } = useQuery<ActiveRules>({
+    queryKey: ["/api/admin/scoring-rules/active"],
+  });
+
+  // Prefill the editor with the active rules
+  useEffect(() => {
+    if (active && baseVersion === null) {
+      setRulesJson(JSON.stringify(active.rules, null, 2));
+      setBaseVersion(active.version);
+    }
+  }, [active, baseVersion]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-rules/active"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { notes: string; rules: unknown }) => {
+      const res = await fetch("/api/admin/scoring-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal menyimpan draft");
+      }
+      return res.json() as Promise<ScoringRuleSet>;
+    },
+    onSuccess: (ruleSet) => {
+      invalidate();
+      setNotes("");
+      toast({
+        title: "✅ Draft Disimpan",
+        description: `Versi ${ruleSet.version} disimpan sebagai draft`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/admin/scoring-rules/${id}/publish`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal mempublikasikan versi");
+      }
+      return res.json() as Promise<ScoringRuleSet>;
+    },
+    onSuccess: (ruleSet) => {
+      invalidate();
+      toast({
+        title: "✅ Versi Dipublikasikan",
+        description: `Audit baru akan dinilai dengan rule set v${ruleSet.version}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "full_admin" && user?.role !== "admin") {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const handleSaveDraft = () => {
+    let rules: unknown;
+    try {
+      rules = JSON.parse(rulesJson);
+    } catch {
+      toast({
+        title: "❌ JSON Tidak Valid",
+        description: "Periksa kembali format JSON rule set",
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate({ notes, rules });
+  };
+
+  const loadVersion = (ruleSet: ScoringRuleSet) => {
+    setRulesJson(JSON.stringify(ruleSet.rules, null, 2));
+    setBaseVersion(ruleSet.version);
+  };
+
+  const handlePublish = (ruleSet: ScoringRuleSet) => {
+    if (confirm(`Publikasikan rule set v${ruleSet.version}? Audit yang sudah ada tetap memakai versi lamanya.`)) {
+      publishMutation.mutate(ruleSet.id);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-red-400 bg-clip-text text-transparent">
+          Scoring Rules
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Aturan Reality Score per pilar, dengan versi. Aktif saat ini: {active ? `v${active.version}` : "-"}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Version list */}
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="w-5 h-5" />
+              Versi ({ruleSets.length})
+            </CardTitle>
+            <CardDescription>
+              Versi terbaru yang dipublikasikan dipakai untuk audit baru
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="w-8 h-8 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin mx-auto" />
+                <p className="text-muted-foreground mt-2">Loading versions...</p>
+              </div>
+            ) : (
+              ruleSets.map((ruleSet) => (
+                <div
+                  key={ruleSet.id}
+                  className="p-3 rounded-lg bg-gray-800/50 border border-gray-700 space-y-2"
+                  data-testid={`row-ruleset-${ruleSet.version}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">v{ruleSet.version}</span>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded ${
+                        active?.version === ruleSet.version
+                          ? "bg-green-500/20 text-green-400"
+                          : ruleSet.status === "published"
+                            ? "bg-gray-700 text-gray-300"
+                            : "bg-yellow-500/20 text-yellow-400"
+                      }`}
+                    >
+                      {active?.version === ruleSet.version ? "Aktif" : ruleSet.status === "published" ? "Published" : "Draft"}
+                    </span>
+                  </div>
+                  {ruleSet.notes && <p className="text-sm text-muted-foreground">{ruleSet.notes}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    Dibuat {new Date(ruleSet.createdAt).toLocaleDateString("id-ID")}
+                    {ruleSet.publishedAt && ` • Publish ${new Date(ruleSet.publishedAt).toLocaleDateString("id-ID")}`}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => loadVersion(ruleSet)}>
+                      <FileJson className="w-4 h-4 mr-1" />
+                      Buka
+                    </Button>
+                    {ruleSet.status === "draft" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePublish(ruleSet)}
+                        disabled={publishMutation.isPending}
+                        className="text-green-400 hover:text-green-300 hover:bg-green-500/10"
+                      >
+                        <Upload className="w-4 h-4 mr-1" />
+                        Publish
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Editor */}
+        <Card className="bg-gray-900/50 border-gray-800 lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Editor Rule Set</CardTitle>
+            <CardDescription>
+              {baseVersion !== null ? `Berdasarkan v${baseVersion}. ` : ""}
+              Variabel: naCurrentQ, marginCurrentQ, totalTeam, targetMargin, expectedTeam, targetNA, activeQuarters,
+              marginQ1-Q4, naQ1-Q4, selfScore. Insight mendukung placeholder {"{value}"} dan {"{namaVariabel}"}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={rulesJson}
+              onChange={(e) => setRulesJson(e.target.value)}
+              className="bg-gray-800 border-gray-700 font-mono text-xs min-h-[480px]"
+              spellCheck={false}
+              data-testid="textarea-rules-json"
+            />
+            <div className="space-y-2">
+              <Label>Catatan Perubahan</Label>
+              <Input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Contoh: Naikkan batas zona hijau ke 78"
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+            <Button
+              onClick={handleSaveDraft}
+              disabled={createMutation.isPending || !rulesJson.trim()}
+              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+              data-testid="button-save-draft"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Menyimpan..." : "Simpan sebagai Draft Baru"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { useRoute, useLocation } from "wouter";
+import { useRoute, useLocation, Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -20,17 +20,28 @@ import {
   Award,
   Clock,
   MessageSquare,
-  X
+  X,
+  Pencil,
+  ClipboardCheck
 } from "lucide-react";
 import type { Audit } from "@shared/schema";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ChatPanel } from "@/components/ChatPanel";
+import { AuditHistory } from "@/components/AuditHistory";
+import { AuditEditDialog } from "@/components/AuditEditDialog";
+import { SupervisorAssessmentDialog } from "@/components/SupervisorAssessmentDialog";
+import { FeedbackCampaignPanel } from "@/components/FeedbackCampaignPanel";
+import { ProdemWorkflow } from "@/components/ProdemWorkflow";
+import { ActionPlanTracker, type ActionPlanResponse } from "@/components/ActionPlanTracker";
+import { formatPeriodeLabel } from "@shared/audit-period";
 
 export default function AuditDetail() {
   const [, params] = useRoute("/audit/:id");
   const [, setLocation] = useLocation();
   const [chatOpen, setChatOpen] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+  const [assessmentOpen, setAssessmentOpen] = useState(false);
   const auditId = params?.id;
 
   const { data: audit, isLoading } = useQuery<Audit>({
@@ -38,6 +49,17 @@ export default function AuditDetail() {
     enabled: !!auditId,
   });
 
+  // Shares its cache with ActionPlanTracker; EWS includes overdue action plan items
+  const { data: actionPlan } = useQuery<ActionPlanResponse>({
+    queryKey: [`/api/audit/${auditId}/action-plan`],
+    enabled: !!auditId,
+  });
+
+  const { data: assessment } = useQuery<{ canAssess: boolean; assessedAt: string | null; assessedByName: string | null }>({
+    queryKey: [`/api/audit/${auditId}/supervisor-assessment`],
+    enabled: !!auditId,
+  });
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -127,17 +149,44 @@ export default function AuditDetail() {
               </div>
             </div>
           </div>
-          <Button 
-            className="gap-2 bg-gradient-to-r from-amber-500 to-yellow-600 hover:from-amber-600 hover:to-yellow-700 text-gray-900 font-semibold shadow-lg shadow-amber-500/30 shrink-0" 
-            onClick={() => window.open(`/api/audit/${audit.id}/pdf`, "_blank")}
-            data-testid="button-download-pdf"
-          >
-            <Download className="w-4 h-4" />
-            <span className="hidden sm:inline">Download PDF</span>
-            <span className="sm:hidden">PDF</span>
-          </Button>
+          <div className="flex items-center gap-2 shrink-0">
+            {assessment?.canAssess && (
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => setAssessmentOpen(true)}
+                data-testid="button-supervisor-assessment"
+              >
+                <ClipboardCheck className="w-4 h-4" />
+                <span className="hidden sm:inline">Penilaian Atasan</span>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => setEditOpen(true)}
+              data-testid="button-edit-audit"
+            >
+              <Pencil className="w-4 h-4" />
+              <span className="hidden sm:inline">Edit Data</span>
+            </Button>
+            <Button 
+              className="gap-2 bg-gradient-to-r from-amber-500 to-yellow-600 hover:from-amber-600 hover:to-yellow-700 text-gray-900 font-semibold shadow-lg shadow-amber-500/30 shrink-0" 
+              onClick={() => window.open(`/api/audit/${audit.id}/pdf`, "_blank")}
+              data-testid="button-download-pdf"
+            >
+              <Download className="w-4 h-4" />
+              <span className="hidden sm:inline">Download PDF</span>
+              <span className="sm:hidden">PDF</span>
+            </Button>
+          </div>
         </div>
 
+        <AuditEditDialog audit={audit} open={editOpen} onOpenChange={setEditOpen} />
+        {assessment?.canAssess && (
+          <SupervisorAssessmentDialog audit={audit} open={assessmentOpen} onOpenChange={setAssessmentOpen} />
+        )}
+
         {/* Executive Summary */}
         <Card className="p-4 sm:p-6 bg-gradient-to-br from-amber-500/10 via-yellow-500/5 to-transparent border-amber-500/20 shadow-lg">
           <div className="flex items-center gap-2 mb-4">
@@ -180,6 +229,11 @@ export default function AuditDetail() {
                 <div>
                   <p className="text-sm text-muted-foreground">Nama Lengkap</p>
                   <p className="font-medium" data-testid="detail-nama">{audit.nama}</p>
+                  {audit.personId && (
+                    <Link href={`/people/${audit.personId}`} className="text-xs text-primary hover:underline" data-testid="link-person-timeline">
+                      Lihat timeline progres →
+                    </Link>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-3">
@@ -201,6 +255,12 @@ export default function AuditDetail() {
                 <div>
                   <p className="text-sm text-muted-foreground">Tanggal Audit</p>
                   <p className="font-medium">{formatDate(audit.createdAt)}</p>
+                  <p className="text-xs text-muted-foreground" data-testid="detail-periode">
+                    Periode {audit.periodeAudit ? formatPeriodeLabel(audit.periodeAudit) : report?.progressKuartal?.kuartalBerjalan ?? "-"}
+                  </p>
+                  <p className="text-xs text-muted-foreground" data-testid="detail-rule-version">
+                    {audit.scoringRuleVersion ? `Rule set v${audit.scoringRuleVersion}` : "Rule set lama (sebelum versioning)"}
+                  </p>
                 </div>
               </div>
             </div>
@@ -246,7 +306,7 @@ export default function AuditDetail() {
         {/* Main Tabs */}
         <Tabs defaultValue="pilar" className="space-y-6">
           <div className="sticky top-[60px] sm:top-[68px] z-40 bg-background/95 backdrop-blur-xl pb-4 -mx-4 sm:-mx-6 md:-mx-8 px-4 sm:px-6 md:px-8 border-b">
-            <TabsList className="grid grid-cols-2 sm:grid-cols-4 w-full max-w-4xl mx-auto h-auto gap-2 bg-transparent p-1">
+            <TabsList className="grid grid-cols-2 sm:grid-cols-6 w-full max-w-5xl mx-auto h-auto gap-2 bg-transparent p-1">
               <TabsTrigger 
                 value="pilar" 
                 className="text-xs sm:text-sm data-[state=active]:bg-blue-500 data-[state=active]:text-white data-[state=inactive]:bg-muted data-[state=inactive]:text-muted-foreground h-10 rounded-lg font-medium transition-all"
@@ -271,6 +331,18 @@ export default function AuditDetail() {
               >
                 Magic Section
               </TabsTrigger>
+              <TabsTrigger 
+                value="umpan-balik" 
+                className="text-xs sm:text-sm data-[state=active]:bg-teal-500 data-[state=active]:text-white data-[state=inactive]:bg-muted data-[state=inactive]:text-muted-foreground h-10 rounded-lg font-medium transition-all"
+              >
+                360°
+              </TabsTrigger>
+              <TabsTrigger 
+                value="riwayat" 
+                className="text-xs sm:text-sm data-[state=active]:bg-amber-500 data-[state=active]:text-white data-[state=inactive]:bg-muted data-[state=inactive]:text-muted-foreground h-10 rounded-lg font-medium transition-all"
+              >
+                Riwayat
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -278,9 +350,14 @@ export default function AuditDetail() {
           <TabsContent value="pilar" className="pt-8 sm:pt-6">
             <Card className="p-4 sm:p-6">
               <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">18 Pilar Reality Score</h2>
-              <p className="text-xs sm:text-sm text-muted-foreground mb-4 sm:mb-6">
+              <p className="text-xs sm:text-sm text-muted-foreground mb-2">
                 Sistem menganalisis self-assessment Anda dan membandingkannya dengan data real performa untuk menghasilkan Reality Score
               </p>
+              <p className="text-xs sm:text-sm mb-4 sm:mb-6" data-testid="text-assessment-status">
+                {assessment?.assessedAt
+                  ? `Penilaian atasan oleh ${assessment.assessedByName || "atasan"} (${formatDate(assessment.assessedAt)}) digabung ke Reality Score pilar tanpa data terukur.`
+                  : "Belum ada penilaian atasan. Pilar tanpa data terukur memakai self-assessment."}
+              </p>
               <div className="space-y-3 sm:space-y-4">
                 {audit.pillarAnswers && Array.isArray(audit.pillarAnswers) && audit.pillarAnswers.map((pilar: any) => (
                   <div
@@ -298,6 +375,14 @@ export default function AuditDetail() {
                           <p className="text-xl sm:text-2xl font-bold">{pilar.selfScore}</p>
                           <p className="text-[10px] sm:text-xs text-muted-foreground">Self</p>
                         </div>
+                        <div className="text-center px-2 sm:px-3 py-2 rounded-lg bg-muted/30" title="Penilaian atasan langsung">
+                          <p className="text-xl sm:text-2xl font-bold">{pilar.supervisorScore ?? "–"}</p>
+                          <p className="text-[10px] sm:text-xs text-muted-foreground">Atasan</p>
+                        </div>
+                        <div className="text-center px-2 sm:px-3 py-2 rounded-lg bg-muted/30" title="Skor dari data performa (rule scoring)">
+                          <p className="text-xl sm:text-2xl font-bold">{pilar.dataScore ?? "–"}</p>
+                          <p className="text-[10px] sm:text-xs text-muted-foreground">Data</p>
+                        </div>
                         <div className="w-8 sm:w-10 text-center">
                           {pilar.gap === 0 ? (
                             <CheckCircle2 className="w-5 h-5 sm:w-6 sm:h-6 text-green-500 mx-auto" />
@@ -480,30 +565,7 @@ export default function AuditDetail() {
                   <Target className="w-5 h-5 text-primary" />
                   <h2 className="text-xl font-semibold">Action Plan 30-60-90</h2>
                 </div>
-                <div className="space-y-4">
-                  {report?.actionPlan?.map((plan: any, idx: number) => (
-                    <div key={idx} className="p-4 border rounded-lg hover-elevate">
-                      <div className="flex items-center gap-2 mb-3">
-                        <Badge variant="outline">{plan.periode}</Badge>
-                        <h3 className="font-semibold">{plan.target}</h3>
-                      </div>
-                      <div className="space-y-2 text-sm">
-                        <div>
-                          <span className="font-medium text-muted-foreground">Aktivitas: </span>
-                          <span>{plan.aktivitas}</span>
-                        </div>
-                        <div>
-                          <span className="font-medium text-muted-foreground">PIC: </span>
-                          <span>{plan.pic}</span>
-                        </div>
-                        <div>
-                          <span className="font-medium text-muted-foreground">Output: </span>
-                          <span className="text-primary font-medium">{plan.output}</span>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <ActionPlanTracker auditId={audit.id} readOnly={!!audit.deletedAt} />
               </Card>
 
               {/* EWS */}
@@ -513,7 +575,7 @@ export default function AuditDetail() {
                   <h2 className="text-xl font-semibold">Early Warning System (EWS)</h2>
                 </div>
                 <div className="space-y-3">
-                  {report?.ews?.map((warning: any, idx: number) => (
+                  {(actionPlan?.ews ?? report?.ews)?.map((warning: any, idx: number) => (
                     <div key={idx} className="p-4 bg-background rounded-lg border border-yellow-500/20">
                       <div className="font-semibold mb-2">{warning.faktor}</div>
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
@@ -538,7 +600,11 @@ export default function AuditDetail() {
           </TabsContent>
 
           {/* ProDem Tab */}
-          <TabsContent value="prodem" className="pt-8 sm:pt-6">
+          <TabsContent value="prodem" className="pt-8 sm:pt-6 space-y-6">
+            <Card className="p-4 sm:p-6">
+              <h2 className="text-lg sm:text-xl font-semibold mb-4">Status Persetujuan ProDem</h2>
+              <ProdemWorkflow auditId={audit.id} />
+            </Card>
             <Card className="p-4 sm:p-6">
               <h2 className="text-lg sm:text-xl font-semibold mb-4 sm:mb-6">Rekomendasi ProDem (Promotion-Demotion)</h2>
               {prodem && (
@@ -653,6 +719,59 @@ export default function AuditDetail() {
               )}
             </Card>
           </TabsContent>
+
+          {/* 360 Feedback Tab */}
+          <TabsContent value="umpan-balik" className="pt-8 sm:pt-6 space-y-6">
+            <Card className="p-4 sm:p-6">
+              <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Umpan Balik 360°</h2>
+              {report?.feedback360 ? (
+                <div className="space-y-4" data-testid="section-feedback-360">
+                  <p className="text-sm leading-relaxed">{report.feedback360.narasi}</p>
+                  <div className="space-y-2">
+                    {report.feedback360.pillars.map((pilar: any) => (
+                      <div key={pilar.pillarId} className="flex items-center gap-3 p-3 rounded-lg border bg-card/50">
+                        <p className="flex-1 min-w-0 text-sm font-medium">{pilar.pillarName}</p>
+                        <div className="text-center px-2 py-1 rounded-lg bg-muted/50">
+                          <p className="font-bold">{pilar.selfScore}</p>
+                          <p className="text-[10px] text-muted-foreground">Self</p>
+                        </div>
+                        <div className="text-center px-2 py-1 rounded-lg bg-primary/10">
+                          <p className="font-bold text-primary">{pilar.peerScore}</p>
+                          <p className="text-[10px] text-muted-foreground">360</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {report.feedback360.comments.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-2 text-sm">Komentar Anonim</h3>
+                      <ul className="space-y-2">
+                        {report.feedback360.comments.map((comment: string, idx: number) => (
+                          <li key={idx} className="text-sm p-3 rounded-lg bg-muted/40 italic">"{comment}"</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {report.feedback360.responseCount} respon anonim • rata-rata 360 ikut dihitung dalam Reality Score pilar tanpa data terukur
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Belum ada hasil umpan balik 360. Hasil muncul setelah jumlah respon minimum sebuah kampanye tercapai.
+                </p>
+              )}
+            </Card>
+            <Card className="p-4 sm:p-6">
+              <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Kampanye Umpan Balik</h2>
+              <FeedbackCampaignPanel audit={audit} />
+            </Card>
+          </TabsContent>
+
+          {/* Revision History Tab */}
+          <TabsContent value="riwayat" className="pt-8 sm:pt-6">
+            <AuditHistory audit={audit} />
+          </TabsContent>
         </Tabs>
 
         {/* Floating Chat Button - Only show when chat is CLOSED */}
@@ -0,0 +1,291 @@
+/**
+ * Audit Import Page
+ * Upload a CSV/XLSX file, review row-level validation errors, then create the valid audits at once
+ */
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, Download, FileSpreadsheet, AlertTriangle, CheckCircle2 } from "lucide-react";
+
+interface ImportRowError {
+  row: number;
+  nama: string;
+  messages: string[];
+}
+
+interface ImportPreview {
+  totalRows: number;
+  valid: Array<{
+    row: number;
+    nama: string;
+    jabatan: string;
+    cabang: string;
+    periodeAudit: string | null;
+    zonaFinal: string;
+    totalRealityScore: number;
+  }>;
+  errors: ImportRowError[];
+}
+
+const ZONA_COLORS: Record<string, string> = {
+  hijau: "text-green-400",
+  kuning: "text-yellow-400",
+  merah: "text-red-400",
+};
+
+function fileFormat(file: File): "csv" | "xlsx" | null {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  return extension === "csv" || extension === "xlsx" ? extension : null;
+}
+
+async function uploadFile<T>(url: string, file: File): Promise<T> {
+  const res = await fetch(`${url}?format=${fileFormat(file)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    credentials: "include",
+    body: await file.arrayBuffer(),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.userMessage || "Gagal memproses file import");
+  }
+  return res.json();
+}
+
+export default function AuditImport() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) => uploadFile<ImportPreview>("/api/audits/import/preview", selected),
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selected: File) => uploadFile<{ created: number; errors: ImportRowError[] }>("/api/audits/import", selected),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/summary"] });
+      toast({
+        title: "✅ Import Selesai",
+        description: `${data.created} audit dibuat${data.errors.length > 0 ? `, ${data.errors.length} baris dilewati` : ""}`,
+      });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "full_admin" && user?.role !== "admin" && user?.role !== "auditor") {
+    return (
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Akses ditolak. Halaman ini hanya untuk Auditor dan Admin.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const handleFileChange = (selected: File | null) => {
+    setPreview(null);
+    if (selected && !fileFormat(selected)) {
+      setFile(null);
+      toast({
+        title: "❌ Error",
+        description: "Format file harus .csv atau .xlsx",
+        variant: "destructive",
+      });
+      return;
+    }
+    setFile(selected);
+    if (selected) previewMutation.mutate(selected);
+  };
+
+  const handleImport = () => {
+    if (file && preview && confirm(`Buat ${preview.valid.length} audit dari file ini? Baris yang error akan dilewati.`)) {
+      importMutation.mutate(file);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 sm:p-6 md:p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-amber-500 via-yellow-500 to-amber-600 bg-clip-text text-transparent">
+          Import Audit
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Buat banyak audit sekaligus dari file CSV atau Excel. Setiap baris divalidasi sebelum disimpan.
+        </p>
+      </div>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            File Import
+          </CardTitle>
+          <CardDescription>
+            Satu baris per audit. Kolom pilar1-pilar18 berisi self score 1-5, tanggalLahir DD-MM-YYYY, periodeAudit seperti 2025-Q1.
+            Isi ownerUsername untuk audit milik akun lain (downline Anda, atau siapa saja untuk Admin).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/audits/import/template?format=xlsx" data-testid="link-template-xlsx">
+                <Download className="w-4 h-4 mr-2" />
+                Template XLSX
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/audits/import/template?format=csv" data-testid="link-template-csv">
+                <Download className="w-4 h-4 mr-2" />
+                Template CSV
+              </a>
+            </Button>
+          </div>
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            className="bg-gray-800 border-gray-700"
+            data-testid="input-import-file"
+          />
+          {previewMutation.isPending && (
+            <div className="text-center py-6">
+              <div className="w-8 h-8 border-4 border-amber-500/30 border-t-amber-500 rounded-full animate-spin mx-auto" />
+              <p className="text-muted-foreground mt-2">Memvalidasi file...</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <>
+          {preview.errors.length > 0 && (
+            <Card className="bg-gray-900/50 border-red-500/30">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-red-400">
+                  <AlertTriangle className="w-5 h-5" />
+                  {preview.errors.length} Baris Error
+                </CardTitle>
+                <CardDescription>
+                  Baris ini tidak akan diimpor. Perbaiki di file lalu unggah ulang.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b border-gray-800">
+                        <th className="py-2 pr-4">Baris</th>
+                        <th className="py-2 pr-4">Nama</th>
+                        <th className="py-2">Masalah</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.errors.map((error) => (
+                        <tr key={error.row} className="border-b border-gray-800/50 align-top" data-testid={`row-import-error-${error.row}`}>
+                          <td className="py-2 pr-4 font-mono">{error.row}</td>
+                          <td className="py-2 pr-4">{error.nama || "-"}</td>
+                          <td className="py-2">
+                            <ul className="list-disc list-inside text-red-300 space-y-0.5">
+                              {error.messages.map((message, i) => (
+                                <li key={i}>{message}</li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="bg-gray-900/50 border-gray-800">
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <CheckCircle2 className="w-5 h-5 text-green-500" />
+                    {preview.valid.length} dari {preview.totalRows} Baris Valid
+                  </CardTitle>
+                  <CardDescription>Zona dan Reality Score dihitung dengan rule set aktif</CardDescription>
+                </div>
+                <Button
+                  onClick={handleImport}
+                  disabled={preview.valid.length === 0 || importMutation.isPending}
+                  className="bg-gradient-to-r from-amber-500 to-yellow-600 hover:from-amber-600 hover:to-yellow-700 text-gray-900 font-semibold"
+                  data-testid="button-confirm-import"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {importMutation.isPending ? "Mengimpor..." : `Import ${preview.valid.length} Audit`}
+                </Button>
+              </div>
+            </CardHeader>
+            {preview.valid.length > 0 && (
+              <CardContent>
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b border-gray-800">
+                        <th className="py-2 pr-4">Baris</th>
+                        <th className="py-2 pr-4">Nama</th>
+                        <th className="py-2 pr-4">Jabatan</th>
+                        <th className="py-2 pr-4">Cabang</th>
+                        <th className="py-2 pr-4">Periode</th>
+                        <th className="py-2 pr-4 text-right">Reality</th>
+                        <th className="py-2">Zona</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.valid.map((row) => (
+                        <tr key={row.row} className="border-b border-gray-800/50" data-testid={`row-import-valid-${row.row}`}>
+                          <td className="py-2 pr-4 font-mono">{row.row}</td>
+                          <td className="py-2 pr-4 font-medium">{row.nama}</td>
+                          <td className="py-2 pr-4">{row.jabatan}</td>
+                          <td className="py-2 pr-4">{row.cabang}</td>
+                          <td className="py-2 pr-4">{row.periodeAudit ?? "-"}</td>
+                          <td className="py-2 pr-4 text-right">{row.totalRealityScore}</td>
+                          <td className={`py-2 ${ZONA_COLORS[row.zonaFinal] ?? ""}`}>{row.zonaFinal}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import StatCard from "@/components/StatCard";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart3, Building2, TrendingUp, Scale, X } from "lucide-react";
+import { formatPeriodeLabel } from "@shared/audit-period";
+
+type Zone = "hijau" | "kuning" | "merah";
+type Recommendation = "Promosi" | "Dipertahankan" | "Pembinaan" | "Demosi";
+
+interface GroupStats {
+  key: string;
+  name: string;
+  region: string | null;
+  auditCount: number;
+  zones: Record<Zone, number>;
+  avgRealityScore: number;
+  avgGap: number;
+  prodem: Record<Recommendation, number>;
+  weakestPillars: Array<{ pillarId: number; pillarName: string; avgRealityScore: number }>;
+}
+
+interface AnalyticsAudit {
+  id: string;
+  nama: string;
+  jabatan: string;
+  cabang: string;
+  branchId: string | null;
+  region: string;
+  periodeAudit: string;
+  zonaFinal: Zone;
+  totalRealityScore: number;
+  totalGap: number;
+  recommendation: Recommendation;
+}
+
+interface BranchAnalyticsResponse {
+  periode: string | null;
+  periods: string[];
+  overall: GroupStats;
+  branches: GroupStats[];
+  regions: GroupStats[];
+  audits: AnalyticsAudit[];
+}
+
+type GroupType = "branches" | "regions";
+
+interface DrillDown {
+  groupType: GroupType;
+  group: GroupStats;
+  zone?: Zone;
+  recommendation?: Recommendation;
+}
+
+const ZONE_STYLES: Record<Zone, { bar: string; badge: string; label: string }> = {
+  hijau: { bar: "bg-green-500", badge: "bg-green-500/20 text-green-400", label: "🟩 Hijau" },
+  kuning: { bar: "bg-yellow-500", badge: "bg-yellow-500/20 text-yellow-400", label: "🟨 Kuning" },
+  merah: { bar: "bg-red-500", badge: "bg-red-500/20 text-red-400", label: "🟥 Merah" },
+};
+
+const RECOMMENDATIONS: Recommendation[] = ["Promosi", "Dipertahankan", "Pembinaan", "Demosi"];
+
+function belongsTo(audit: AnalyticsAudit, groupType: GroupType, key: string): boolean {
+  if (groupType === "regions") return audit.region === key;
+  return (audit.branchId ?? `cabang:${audit.cabang}`) === key;
+}
+
+export default function BranchAnalytics() {
+  const [, setLocation] = useLocation();
+  const [periode, setPeriode] = useState("all");
+  const [groupType, setGroupType] = useState<GroupType>("branches");
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const { data, isLoading } = useQuery<BranchAnalyticsResponse>({
+    queryKey: [periode === "all" ? "/api/analytics/branches" : `/api/analytics/branches?periode=${periode}`],
+  });
+
+  const groups = data ? data[groupType] : [];
+
+  const drillDownAudits = drillDown && data
+    ? data.audits.filter(audit =>
+        belongsTo(audit, drillDown.groupType, drillDown.group.key) &&
+        (!drillDown.zone || audit.zonaFinal === drillDown.zone) &&
+        (!drillDown.recommendation || audit.recommendation === drillDown.recommendation)
+      ).sort((a, b) => b.totalRealityScore - a.totalRealityScore)
+    : [];
+
+  const openDrillDown = (next: DrillDown) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDrillDown(next);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 md:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold tracking-tight mb-2 bg-gradient-to-r from-amber-500 via-yellow-500 to-amber-600 bg-clip-text text-transparent">
+              Leaderboard Cabang & Region
+            </h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Perbandingan zona, reality score, gap, ProDem dan pilar terlemah
+            </p>
+          </div>
+          <Select value={periode} onValueChange={(value) => { setPeriode(value); setDrillDown(null); }}>
+            <SelectTrigger className="w-full md:w-48" data-testid="select-periode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Kuartal</SelectItem>
+              {data?.periods.map((p) => (
+                <SelectItem key={p} value={p}>{formatPeriodeLabel(p)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="animate-pulse space-y-6">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {[1, 2, 3, 4].map(i => <div key={i} className="h-28 bg-card rounded-lg" />)}
+            </div>
+            <div className="h-96 bg-card rounded-lg" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6">
+              <StatCard title="Total Audit" value={data.overall.auditCount} icon={BarChart3} data-testid="stat-analytics-audits" />
+              <StatCard title="Cabang" value={data.branches.length} icon={Building2} data-testid="stat-analytics-branches" />
+              <StatCard title="Rata-rata Reality Score" value={data.overall.avgRealityScore} icon={TrendingUp} data-testid="stat-analytics-score" />
+              <StatCard title="Rata-rata Gap" value={data.overall.avgGap} icon={Scale} data-testid="stat-analytics-gap" />
+            </div>
+
+            <Card className="p-4 sm:p-6">
+              <Tabs value={groupType} onValueChange={(value) => { setGroupType(value as GroupType); setDrillDown(null); }}>
+                <TabsList className="mb-4">
+                  <TabsTrigger value="branches" data-testid="tab-branches">Per Cabang</TabsTrigger>
+                  <TabsTrigger value="regions" data-testid="tab-regions">Per Region</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {groups.length === 0 ? (
+                <p className="text-center py-12 text-muted-foreground">Belum ada audit pada periode ini</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b">
+                        <th className="py-2 pr-3">#</th>
+                        <th className="py-2 pr-3">{groupType === "branches" ? "Cabang" : "Region"}</th>
+                        <th className="py-2 pr-3 text-right">Audit</th>
+                        <th className="py-2 pr-3 min-w-40">Distribusi Zona</th>
+                        <th className="py-2 pr-3 text-right">Avg Reality</th>
+                        <th className="py-2 pr-3 text-right">Avg Gap</th>
+                        <th className="py-2 pr-3">ProDem</th>
+                        <th className="py-2">Pilar Terlemah</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {groups.map((group, idx) => (
+                        <tr
+                          key={group.key}
+                          className={`border-b cursor-pointer hover-elevate ${drillDown?.group.key === group.key ? "bg-muted/40" : ""}`}
+                          onClick={() => setDrillDown({ groupType, group })}
+                          data-testid={`row-analytics-${group.key}`}
+                        >
+                          <td className="py-3 pr-3 font-bold text-primary">{idx + 1}</td>
+                          <td className="py-3 pr-3">
+                            <p className="font-semibold">{group.name}</p>
+                            {group.region && <p className="text-xs text-muted-foreground">{group.region}</p>}
+                          </td>
+                          <td className="py-3 pr-3 text-right">{group.auditCount}</td>
+                          <td className="py-3 pr-3">
+                            <div className="flex h-2.5 rounded-full overflow-hidden bg-muted">
+                              {(Object.keys(ZONE_STYLES) as Zone[]).map((zone) => group.zones[zone] > 0 && (
+                                <div
+                                  key={zone}
+                                  className={ZONE_STYLES[zone].bar}
+                                  style={{ width: `${(group.zones[zone] / group.auditCount) * 100}%` }}
+                                />
+                              ))}
+                            </div>
+                            <div className="flex gap-1 mt-1.5">
+                              {(Object.keys(ZONE_STYLES) as Zone[]).map((zone) => (
+                                <button
+                                  key={zone}
+                                  className={`px-1.5 rounded text-xs ${ZONE_STYLES[zone].badge}`}
+                                  onClick={openDrillDown({ groupType, group, zone })}
+                                  title={`Lihat audit zona ${zone}`}
+                                >
+                                  {group.zones[zone]}
+                                </button>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="py-3 pr-3 text-right font-semibold">{group.avgRealityScore}</td>
+                          <td className={`py-3 pr-3 text-right ${group.avgGap > 0 ? "text-yellow-500" : group.avgGap < 0 ? "text-red-500" : "text-green-500"}`}>
+                            {group.avgGap > 0 ? "+" : ""}{group.avgGap}
+                          </td>
+                          <td className="py-3 pr-3">
+                            <div className="flex flex-wrap gap-1">
+                              {RECOMMENDATIONS.filter(rec => group.prodem[rec] > 0).map((rec) => (
+                                <Badge
+                                  key={rec}
+                                  variant="outline"
+                                  className="cursor-pointer text-xs"
+                                  onClick={openDrillDown({ groupType, group, recommendation: rec })}
+                                >
+                                  {rec} {group.prodem[rec]}
+                                </Badge>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="py-3 text-xs">
+                            {group.weakestPillars.map((pillar) => (
+                              <p key={pillar.pillarId} title={pillar.pillarName}>
+                                P{pillar.pillarId} <span className="text-muted-foreground">({pillar.avgRealityScore})</span>
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+
+            {/* Drill-down */}
+            {drillDown && (
+              <Card className="p-4 sm:p-6" data-testid="card-drill-down">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold">
+                      {drillDown.group.name}
+                      {drillDown.zone && ` • ${ZONE_STYLES[drillDown.zone].label}`}
+                      {drillDown.recommendation && ` • ${drillDown.recommendation}`}
+                    </h2>
+                    <p className="text-sm text-muted-foreground">{drillDownAudits.length} audit</p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setDrillDown(null)} data-testid="button-close-drill-down">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="divide-y">
+                  {drillDownAudits.map((audit) => (
+                    <div
+                      key={audit.id}
+                      className="py-3 flex flex-wrap items-center justify-between gap-2 cursor-pointer hover-elevate px-2 rounded"
+                      onClick={() => setLocation(`/audit/${audit.id}`)}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium">{audit.nama}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {audit.jabatan} • {audit.cabang} • {formatPeriodeLabel(audit.periodeAudit)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ZONE_STYLES[audit.zonaFinal]?.badge ?? ""}`}>
+                          {ZONE_STYLES[audit.zonaFinal]?.label ?? audit.zonaFinal}
+                        </span>
+                        <span className="font-semibold">{audit.totalRealityScore}</span>
+                        <Badge variant="outline">{audit.recommendation}</Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/lib/auth-context";
 import StatCard from "@/components/StatCard";
 import AuditCard from "@/components/AuditCard";
+import { ExportMenu } from "@/components/ExportMenu";
+import { AuditFilterPanel } from "@/components/AuditFilterPanel";
+import type { ZoneType } from "@/components/ZoneBadge";
+import type { ProfileType } from "@/components/ProfileBadge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -18,12 +22,16 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { BarChart3, Users, TrendingUp, Clock, Plus, Search, Filter } from "lucide-react";
+import { countActiveFilters, fetchAuditPage, type AuditFilters } from "@/lib/audit-filters";
+import { BarChart3, Users, TrendingUp, Clock, Plus, Search, Filter, Upload } from "lucide-react";
 import type { Audit } from "@shared/schema";
 
 export default function Dashboard() {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [auditToDelete, setAuditToDelete] = useState<{ id: string; nama: string } | null>(null);
   const [, setLocation] = useLocation();
@@ -48,11 +56,28 @@ export default function Dashboard() {
     queryKey: ["/api/dashboard/summary"],
   });
 
-  // Fetch user's own audits for full list (with search/filter)
+  // Fetch user's own audits for the personal stats and the 3 most recent
   const { data: audits = [], isLoading } = useQuery<Audit[]>({
     queryKey: ["/api/audits"],
   });
 
+  // Search and filters run on the server; wait for typing to pause before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const listFilters: AuditFilters = { ...filters, search: debouncedSearch };
+  const auditList = useInfiniteQuery({
+    queryKey: ["/api/audits", "list", listFilters],
+    queryFn: ({ pageParam }) => fetchAuditPage<Audit>("/api/audits", listFilters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    placeholderData: keepPreviousData, // Keep showing the old results while a new filter loads
+  });
+  const listedAudits = auditList.data?.pages.flatMap(page => page.items) ?? [];
+  const activeFilterCount = countActiveFilters(filters);
+
   const deleteMutation = useMutation({
     mutationFn: async (auditId: string) => {
       // Use soft-delete (PATCH) instead of hard-delete
@@ -63,7 +88,7 @@ export default function Dashboard() {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/summary"] });
       toast({
         title: "Audit dihapus",
-        description: "Audit berhasil dihapus dari sistem",
+        description: "Audit dipindahkan ke Sampah dan masih bisa dipulihkan",
       });
       setDeleteDialogOpen(false);
       setAuditToDelete(null);
@@ -88,14 +113,9 @@ export default function Dashboard() {
     }
   };
 
-  const filteredAudits = audits.filter(audit =>
-    audit.nama.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    audit.jabatan.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    audit.cabang.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
   // Check if user is admin (can see global stats)
   const isAdmin = user?.role === "admin" || user?.role === "full_admin";
+  const canImport = isAdmin || user?.role === "auditor";
 
   // For regular users: show personal stats (from their own audits)
   // For admins: show global stats (from summary endpoint)
@@ -172,14 +192,27 @@ export default function Dashboard() {
               Sistem Audit Intelligence untuk Evaluasi Kinerja & Kepemimpinan
             </p>
           </div>
-          <Button 
-            className="gap-2 bg-gradient-to-r from-amber-500 to-yellow-600 hover:from-amber-600 hover:to-yellow-700 text-gray-900 font-semibold shadow-lg shadow-amber-500/30" 
-            data-testid="button-new-audit"
-            onClick={() => setLocation("/audit/new")}
-          >
-            <Plus className="w-4 h-4" />
-            Audit Baru
-          </Button>
+          <div className="flex gap-2">
+            {canImport && (
+              <Button
+                variant="outline"
+                className="gap-2"
+                data-testid="button-import-audit"
+                onClick={() => setLocation("/audit/import")}
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </Button>
+            )}
+            <Button 
+              className="gap-2 bg-gradient-to-r from-amber-500 to-yellow-600 hover:from-amber-600 hover:to-yellow-700 text-gray-900 font-semibold shadow-lg shadow-amber-500/30" 
+              data-testid="button-new-audit"
+              onClick={() => setLocation("/audit/new")}
+            >
+              <Plus className="w-4 h-4" />
+              Audit Baru
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6">
@@ -209,6 +242,58 @@ export default function Dashboard() {
           />
         </div>
 
+        <div>
+          <h2 className="text-xl font-semibold mb-4">
+            Audit Terbaru (3)
+          </h2>
+          {isLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[1, 2, 3].map(i => (
+                <div key={i} className="h-64 bg-card rounded-lg animate-pulse" />
+              ))}
+            </div>
+          ) : audits.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p className="text-lg mb-2">Belum ada audit</p>
+              <p className="text-sm">Klik "Audit Baru" untuk memulai audit pertama Anda</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+              {audits.slice(0, 3).map((audit) => (
+                <div
+                  key={audit.id}
+                  className="bg-card rounded-xl border border-border p-6 space-y-4 hover:shadow-lg transition-shadow cursor-pointer"
+                  onClick={() => setLocation(`/audit/${audit.id}`)}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1 flex-1">
+                      <h3 className="font-semibold text-lg">{audit.nama}</h3>
+                      <p className="text-sm text-muted-foreground">{audit.jabatan}</p>
+                      <p className="text-xs text-muted-foreground">{audit.cabang}</p>
+                    </div>
+                  </div>
+                  
+                  <div className="flex gap-2">
+                    <div className={`px-3 py-1 rounded-full text-xs font-medium ${
+                      audit.zonaFinal === "hijau" 
+                        ? "bg-green-500/20 text-green-400" 
+                        : audit.zonaFinal === "kuning"
+                        ? "bg-yellow-500/20 text-yellow-400"
+                        : "bg-red-500/20 text-red-400"
+                    }`}>
+                      {audit.zonaFinal === "hijau" ? "🟩 Hijau" : audit.zonaFinal === "kuning" ? "🟨 Kuning" : "🟥 Merah"}
+                    </div>
+                  </div>
+                  
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(audit.createdAt)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         <div className="space-y-4">
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="relative flex-1">
@@ -221,63 +306,73 @@ export default function Dashboard() {
                 data-testid="input-search"
               />
             </div>
-            <Button variant="outline" className="gap-2" data-testid="button-filter">
+            <Button
+              variant={showFilters || activeFilterCount > 0 ? "default" : "outline"}
+              className="gap-2"
+              onClick={() => setShowFilters(!showFilters)}
+              data-testid="button-filter"
+            >
               <Filter className="w-4 h-4" />
-              Filter
+              Filter{activeFilterCount > 0 && ` (${activeFilterCount})`}
             </Button>
+            <ExportMenu endpoint="/api/audits/export" filters={listFilters} disabled={listedAudits.length === 0} />
           </div>
 
+          {showFilters && (
+            <AuditFilterPanel filters={filters} onChange={setFilters} showOwner={canImport} />
+          )}
+
           <div>
-            <h2 className="text-xl font-semibold mb-4">
-              Audit Terbaru (3)
-            </h2>
-            {isLoading ? (
+            <h2 className="text-xl font-semibold mb-4">Daftar Audit</h2>
+            {auditList.isLoading ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {[1, 2, 3].map(i => (
                   <div key={i} className="h-64 bg-card rounded-lg animate-pulse" />
                 ))}
               </div>
-            ) : audits.length === 0 ? (
+            ) : auditList.error ? (
+              <p className="text-center py-8 text-destructive">{auditList.error.message}</p>
+            ) : listedAudits.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
-                <p className="text-lg mb-2">Belum ada audit</p>
-                <p className="text-sm">Klik "Audit Baru" untuk memulai audit pertama Anda</p>
+                <p className="text-lg mb-2">Tidak ada audit yang cocok</p>
+                <p className="text-sm">Ubah kata kunci atau filter pencarian</p>
               </div>
             ) : (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-                {audits.slice(0, 3).map((audit) => (
-                  <div
-                    key={audit.id}
-                    className="bg-card rounded-xl border border-border p-6 space-y-4 hover:shadow-lg transition-shadow cursor-pointer"
-                    onClick={() => setLocation(`/audit/${audit.id}`)}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="space-y-1 flex-1">
-                        <h3 className="font-semibold text-lg">{audit.nama}</h3>
-                        <p className="text-sm text-muted-foreground">{audit.jabatan}</p>
-                        <p className="text-xs text-muted-foreground">{audit.cabang}</p>
-                      </div>
-                    </div>
-                    
-                    <div className="flex gap-2">
-                      <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                        audit.zonaFinal === "hijau" 
-                          ? "bg-green-500/20 text-green-400" 
-                          : audit.zonaFinal === "kuning"
-                          ? "bg-yellow-500/20 text-yellow-400"
-                          : "bg-red-500/20 text-red-400"
-                      }`}>
-                        {audit.zonaFinal === "hijau" ? "🟩 Hijau" : audit.zonaFinal === "kuning" ? "🟨 Kuning" : "🟥 Merah"}
-                      </div>
-                    </div>
-                    
-                    <p className="text-xs text-muted-foreground">
-                      {formatDate(audit.createdAt)}
-                    </p>
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+                  {listedAudits.map((audit) => (
+                    <AuditCard
+                      key={audit.id}
+                      auditId={audit.id.slice(0, 8)}
+                      nama={audit.nama}
+                      jabatan={audit.jabatan}
+                      cabang={audit.cabang}
+                      zonaKinerja={audit.zonaKinerja as ZoneType}
+                      zonaPerilaku={audit.zonaPerilaku as ZoneType}
+                      profil={audit.profil as ProfileType}
+                      tanggal={formatDate(audit.createdAt)}
+                      onView={() => setLocation(`/audit/${audit.id}`)}
+                      onDelete={audit.ownerId === user?.id || isAdmin ? () => handleDeleteClick(audit) : undefined}
+                      data-testid={`card-audit-${audit.id}`}
+                    />
+                  ))}
+                </div>
+                {auditList.hasNextPage && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="outline"
+                      onClick={() => auditList.fetchNextPage()}
+                      disabled={auditList.isFetchingNextPage}
+                      data-testid="button-load-more"
+                    >
+                      {auditList.isFetchingNextPage ? "Memuat..." : "Muat Lebih Banyak"}
+                    </Button>
                   </div>
-                ))}
+                )}
               </div>
             )}
           </div>
+
         </div>
       </div>
 
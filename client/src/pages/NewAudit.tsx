@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,11 +9,15 @@ import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, ArrowRight, Check, TrendingUp } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { ArrowLeft, ArrowRight, Check, TrendingUp, UserCheck } from "lucide-react";
 import { insertAuditSchema } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
-import type { InsertAudit } from "@shared/schema";
+import type { InsertAudit, CareerLevel, Person, Branch, User } from "@shared/schema";
+import { formatJabatan, resolveCareerLevel } from "@shared/career-levels";
+import { formatPeriodeAudit, parsePeriodeAudit, periodFromDate } from "@shared/audit-period";
 
 const PILAR_NAMES = [
   "P1: Kemampuan Mencari Calon Nasabah",
@@ -36,43 +40,22 @@ const PILAR_NAMES = [
   "P18: Pemahaman Pasar Lokal"
 ];
 
+const CURRENT_PERIOD = periodFromDate(new Date());
+const AUDIT_YEARS = Array.from({ length: 4 }, (_, i) => CURRENT_PERIOD.year - i);
+
 // Helper function to determine which team structure fields should be shown
-const getVisibleTeamFields = (jabatan: string) => {
-  const hierarchy = [
-    "BC",
-    "SBC",
-    "BSM",
-    "SBM",
-    "EM",
-    "SEM",
-    "VBM",
-    "BrM"
-  ];
-  
-  // Map full jabatan names to hierarchy keys
-  const jabatanMap: Record<string, string> = {
-    "Business Consultant (BC)": "BC",
-    "Senior Business Consultant (SBC)": "SBC",
-    "Business Manager (BSM)": "BSM",
-    "Senior Business Manager (SBM)": "SBM",
-    "Executive Manager (EM)": "EM",
-    "Senior Executive Manager (SEM)": "SEM",
-    "Vice Business Manager (VBM)": "VBM",
-    "Branch Manager (BrM)": "BrM"
-  };
-  
-  const userLevel = jabatanMap[jabatan];
+const getVisibleTeamFields = (jabatan: string, careerLevels: CareerLevel[]) => {
+  const userLevel = resolveCareerLevel(jabatan, careerLevels);
   if (!userLevel) return []; // Show nothing if unknown
   
-  const userIndex = hierarchy.indexOf(userLevel);
-  if (userIndex === -1) return []; // Show nothing if not found
-  
   // ProDem system: user can have subordinates up to their own level (inclusive)
   // User CANNOT have subordinates with higher position than their own
   // Example: BC can have BC subordinates
   //          SBC can have BC and SBC subordinates
   //          BSM can have BC, SBC, and BSM subordinates
-  return hierarchy.slice(0, userIndex + 1);
+  return careerLevels
+    .filter(level => level.rankOrder <= userLevel.rankOrder)
+    .map(level => level.code);
 };
 
 export default function NewAudit() {
@@ -80,6 +63,27 @@ export default function NewAudit() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const canAuditOthers = user?.role === "auditor" || user?.role === "admin" || user?.role === "full_admin";
+  const isAdmin = user?.role === "admin" || user?.role === "full_admin"; // Only admins may register a new branch
+  const [auditorMode, setAuditorMode] = useState(false);
+
+  const { data: auditeeAccounts = [] } = useQuery<Array<Pick<User, "id" | "username" | "name" | "role">>>({
+    queryKey: ["/api/users/downline"],
+    enabled: canAuditOthers,
+  });
+
+  const { data: careerLevels = [] } = useQuery<CareerLevel[]>({
+    queryKey: ["/api/career-levels"],
+  });
+
+  const { data: people = [] } = useQuery<Person[]>({
+    queryKey: ["/api/people"],
+  });
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+  });
 
   const form = useForm<InsertAudit>({
     resolver: zodResolver(insertAuditSchema),
@@ -88,6 +92,10 @@ export default function NewAudit() {
       jabatan: "",
       cabang: "",
       tanggalLahir: "",
+      personId: null,
+      branchId: null,
+      ownerId: null,
+      periodeAudit: formatPeriodeAudit(CURRENT_PERIOD),
       marginTimQ1: 0,
       marginTimQ2: 0,
       marginTimQ3: 0,
@@ -156,7 +164,11 @@ export default function NewAudit() {
     let fieldsToValidate: (keyof InsertAudit)[] = [];
     
     if (step === 1) {
-      fieldsToValidate = ["nama", "jabatan", "cabang", "tanggalLahir"];
+      if (auditorMode && !form.getValues("ownerId")) {
+        form.setError("ownerId", { message: "Pilih akun auditee atau matikan Mode Auditor" });
+        return;
+      }
+      fieldsToValidate = ["nama", "jabatan", "cabang", "tanggalLahir", "periodeAudit"];
     } else if (step === 2) {
       fieldsToValidate = ["marginTimQ1", "marginTimQ2", "marginTimQ3", "marginTimQ4", "naTimQ1", "naTimQ2", "naTimQ3", "naTimQ4", "marginPribadiQ1", "marginPribadiQ2", "marginPribadiQ3", "marginPribadiQ4", "nasabahPribadiQ1", "nasabahPribadiQ2", "nasabahPribadiQ3", "nasabahPribadiQ4"];
     } else if (step === 3) {
@@ -209,6 +221,105 @@ export default function NewAudit() {
               <Card className="p-6">
                 <h2 className="text-xl font-semibold mb-4">Informasi Personal</h2>
                 <div className="space-y-4">
+                  {canAuditOthers && (
+                    <div className="p-4 rounded-lg border bg-muted/30 space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <p className="font-medium flex items-center gap-2">
+                            <UserCheck className="w-4 h-4 text-primary" />
+                            Mode Auditor
+                          </p>
+                          <p className="text-xs text-muted-foreground">Audit anggota tim; hasilnya menjadi milik akun auditee</p>
+                        </div>
+                        <Switch
+                          checked={auditorMode}
+                          onCheckedChange={(checked) => {
+                            setAuditorMode(checked);
+                            if (!checked) form.setValue("ownerId", null);
+                          }}
+                          data-testid="switch-auditor-mode"
+                        />
+                      </div>
+                      {auditorMode && (
+                        <FormField
+                          control={form.control}
+                          name="ownerId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Akun Auditee</FormLabel>
+                              <Select
+                                value={field.value ?? ""}
+                                onValueChange={(value) => {
+                                  field.onChange(value);
+                                  const account = auditeeAccounts.find(a => a.id === value);
+                                  if (account && !form.getValues("nama")) form.setValue("nama", account.name);
+                                }}
+                              >
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-auditee-account">
+                                    <SelectValue placeholder="Pilih akun anggota tim" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {auditeeAccounts
+                                    .filter(account => account.id !== user?.id)
+                                    .map((account) => (
+                                      <SelectItem key={account.id} value={account.id}>
+                                        {account.name} (@{account.username})
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                              <FormDescription>Auditee mendapat akses ke laporan; Anda tercatat sebagai auditor</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+                  )}
+                  {canAuditOthers && people.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="personId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Auditee Terdaftar</FormLabel>
+                          <Select
+                            value={field.value ?? "new"}
+                            onValueChange={(value) => {
+                              const person = people.find(p => p.id === value);
+                              field.onChange(person ? person.id : null);
+                              if (person) {
+                                form.setValue("nama", person.nama);
+                                if (person.cabang) {
+                                  form.setValue("cabang", person.cabang);
+                                  form.setValue("branchId", branches.find(b => b.name === person.cabang)?.id ?? null);
+                                }
+                                if (person.tanggalLahir) form.setValue("tanggalLahir", person.tanggalLahir);
+                              }
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-person">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="new">— Orang baru / cocokkan otomatis —</SelectItem>
+                              {people.map((person) => (
+                                <SelectItem key={person.id} value={person.id}>
+                                  {person.nama}{person.employeeCode ? ` (${person.employeeCode})` : ""}{person.cabang ? ` • ${person.cabang}` : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>Pilih agar audit tersambung ke riwayat orang yang sama</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   <FormField
                     control={form.control}
                     name="nama"
@@ -235,33 +346,66 @@ export default function NewAudit() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="Business Consultant (BC)">Business Consultant (BC)</SelectItem>
-                            <SelectItem value="Senior Business Consultant (SBC)">Senior Business Consultant (SBC)</SelectItem>
-                            <SelectItem value="Business Manager (BSM)">Business Manager (BSM)</SelectItem>
-                            <SelectItem value="Senior Business Manager (SBM)">Senior Business Manager (SBM)</SelectItem>
-                            <SelectItem value="Executive Manager (EM)">Executive Manager (EM)</SelectItem>
-                            <SelectItem value="Senior Executive Manager (SEM)">Senior Executive Manager (SEM)</SelectItem>
-                            <SelectItem value="Vice Business Manager (VBM)">Vice Business Manager (VBM)</SelectItem>
-                            <SelectItem value="Branch Manager (BrM)">Branch Manager (BrM)</SelectItem>
+                            {careerLevels.map((level) => (
+                              <SelectItem key={level.id} value={formatJabatan(level)}>
+                                {formatJabatan(level)}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                  <FormField
-                    control={form.control}
-                    name="cabang"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Cabang</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Contoh: XYZ Jakarta" {...field} data-testid="input-cabang" />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {branches.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="branchId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cabang</FormLabel>
+                          <Select
+                            value={field.value ?? (isAdmin ? "new" : "")}
+                            onValueChange={(value) => {
+                              const branch = branches.find(b => b.id === value);
+                              field.onChange(branch ? branch.id : null);
+                              form.setValue("cabang", branch ? branch.name : "");
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-branch">
+                                <SelectValue placeholder="Pilih cabang" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {isAdmin && <SelectItem value="new">— Cabang baru —</SelectItem>}
+                              {branches.map((branch) => (
+                                <SelectItem key={branch.id} value={branch.id}>
+                                  {branch.name}{branch.region ? ` • ${branch.region}` : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {!form.watch("branchId") && (isAdmin || branches.length === 0) && (
+                    <FormField
+                      control={form.control}
+                      name="cabang"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{branches.length > 0 ? "Nama Cabang Baru" : "Cabang"}</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Contoh: XYZ Jakarta" {...field} data-testid="input-cabang" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   <FormField
                     control={form.control}
                     name="tanggalLahir"
@@ -280,6 +424,53 @@ export default function NewAudit() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="periodeAudit"
+                    render={({ field }) => {
+                      const period = parsePeriodeAudit(field.value) ?? CURRENT_PERIOD;
+                      return (
+                        <FormItem>
+                          <FormLabel>Periode Audit</FormLabel>
+                          <div className="grid grid-cols-2 gap-3">
+                            <Select
+                              value={String(period.year)}
+                              onValueChange={(year) => field.onChange(formatPeriodeAudit({ ...period, year: Number(year) }))}
+                            >
+                              <FormControl>
+                                <SelectTrigger data-testid="select-periode-tahun">
+                                  <SelectValue placeholder="Tahun" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {AUDIT_YEARS.map((year) => (
+                                  <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={String(period.quarterNum)}
+                              onValueChange={(quarterNum) => field.onChange(formatPeriodeAudit({ ...period, quarterNum: Number(quarterNum) }))}
+                            >
+                              <FormControl>
+                                <SelectTrigger data-testid="select-periode-kuartal">
+                                  <SelectValue placeholder="Kuartal" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="1">Q1 (Jan-Mar)</SelectItem>
+                                <SelectItem value="2">Q2 (Apr-Jun)</SelectItem>
+                                <SelectItem value="3">Q3 (Jul-Sep)</SelectItem>
+                                <SelectItem value="4">Q4 (Oct-Dec)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <FormDescription>Kuartal yang dinilai: Reality Score, progress kuartal dan ProDem memakai data kuartal ini</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
+                  />
                 </div>
               </Card>
             )}
@@ -648,7 +839,7 @@ export default function NewAudit() {
 
             {/* STEP 3: Team Structure */}
             {step === 3 && (() => {
-              const visibleFields = getVisibleTeamFields(form.watch("jabatan"));
+              const visibleFields = getVisibleTeamFields(form.watch("jabatan"), careerLevels);
               return (
                 <Card className="p-6">
                   <h2 className="text-xl font-semibold mb-4">Struktur Tim</h2>
@@ -886,6 +1077,14 @@ export default function NewAudit() {
               <Card className="p-6">
                 <h2 className="text-xl font-semibold mb-4">Review Data Audit</h2>
                 <div className="space-y-4 text-sm">
+                  {form.getValues("ownerId") && (
+                    <div>
+                      <p className="font-semibold">Akun Auditee:</p>
+                      <p className="text-muted-foreground">
+                        {auditeeAccounts.find(a => a.id === form.getValues("ownerId"))?.name} • diaudit oleh {user?.name}
+                      </p>
+                    </div>
+                  )}
                   <div>
                     <p className="font-semibold">Nama:</p>
                     <p className="text-muted-foreground">{form.getValues("nama")}</p>
@@ -0,0 +1,153 @@
+/**
+ * Peer Feedback Page for AiSG
+ * Public one-time form where a peer or subordinate rates the auditee anonymously
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle2, ShieldCheck } from "lucide-react";
+import type { FeedbackRelation } from "@shared/schema";
+
+interface FeedbackForm {
+  nama: string;
+  jabatan: string;
+  relation: FeedbackRelation;
+  pillars: Array<{ pillarId: number; pillarName: string }>;
+}
+
+const SCORE_OPTIONS = [1, 2, 3, 4, 5];
+
+async function readError(res: Response, fallback: string): Promise<Error> {
+  const error = await res.json().catch(() => ({}));
+  return new Error(error.userMessage || fallback);
+}
+
+export default function PeerFeedback() {
+  const [, params] = useRoute("/feedback/:token");
+  const token = params?.token;
+  const [scores, setScores] = useState<Record<number, number>>({});
+  const [comment, setComment] = useState("");
+
+  const { data: form, isLoading, error } = useQuery<FeedbackForm, Error>({
+    queryKey: [`/api/feedback/${token}`],
+    enabled: !!token,
+    queryFn: async () => {
+      const res = await fetch(`/api/feedback/${token}`);
+      if (!res.ok) throw await readError(res, "Link umpan balik tidak valid");
+      return res.json();
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/feedback/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scores: Object.entries(scores).map(([pillarId, score]) => ({ pillarId: Number(pillarId), score })),
+          comment: comment.trim() || undefined,
+        }),
+      });
+      if (!res.ok) throw await readError(res, "Gagal mengirim umpan balik");
+      return res.json();
+    },
+  });
+
+  const missing = form ? form.pillars.filter(p => !scores[p.pillarId]).length : 0;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-gray-950 via-gray-900 to-black">
+      <Card className="w-full max-w-2xl bg-gray-900/80 backdrop-blur-xl border-gray-800/50 shadow-2xl">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold bg-gradient-to-r from-amber-500 via-yellow-500 to-amber-600 bg-clip-text text-transparent">
+            Umpan Balik 360°
+          </CardTitle>
+          <CardDescription className="flex items-start gap-2">
+            <ShieldCheck className="w-4 h-4 shrink-0 mt-0.5 text-green-500" />
+            Jawaban Anda anonim. Nama Anda tidak disimpan dan hasil hanya ditampilkan sebagai rata-rata setelah beberapa orang menjawab.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-48 bg-muted/20 rounded-lg animate-pulse" />
+          ) : error || !form ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error?.message ?? "Link umpan balik tidak valid"}</AlertDescription>
+            </Alert>
+          ) : submitMutation.isSuccess ? (
+            <div className="text-center py-8 space-y-3" data-testid="text-feedback-thanks">
+              <CheckCircle2 className="w-12 h-12 text-green-500 mx-auto" />
+              <p className="font-semibold">Terima kasih!</p>
+              <p className="text-sm text-muted-foreground">Umpan balik Anda sudah tersimpan. Link ini tidak bisa dipakai lagi.</p>
+            </div>
+          ) : (
+            <form
+              className="space-y-5"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitMutation.mutate();
+              }}
+            >
+              <p className="text-sm">
+                Sebagai <span className="font-semibold">{form.relation}</span>, beri nilai 1-5 untuk{" "}
+                <span className="font-semibold">{form.nama}</span> ({form.jabatan}).
+              </p>
+              <div className="divide-y divide-gray-800">
+                {form.pillars.map((pilar) => (
+                  <div key={pilar.pillarId} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                    <p className="flex-1 text-sm font-medium">{pilar.pillarName}</p>
+                    <div className="flex gap-1 shrink-0">
+                      {SCORE_OPTIONS.map((score) => (
+                        <Button
+                          key={score}
+                          type="button"
+                          size="sm"
+                          variant={scores[pilar.pillarId] === score ? "default" : "outline"}
+                          className="w-9"
+                          onClick={() => setScores({ ...scores, [pilar.pillarId]: score })}
+                          data-testid={`button-feedback-${pilar.pillarId}-${score}`}
+                        >
+                          {score}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label>Komentar (opsional)</Label>
+                <Textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Hal yang sudah baik dan yang perlu ditingkatkan. Hindari menyebut nama Anda."
+                  rows={4}
+                  maxLength={1000}
+                  data-testid="input-feedback-comment"
+                />
+              </div>
+              {submitMutation.error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{submitMutation.error.message}</AlertDescription>
+                </Alert>
+              )}
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-amber-500 to-yellow-600 text-gray-900 font-semibold"
+                disabled={missing > 0 || submitMutation.isPending}
+                data-testid="button-submit-feedback"
+              >
+                {submitMutation.isPending ? "Mengirim..." : missing > 0 ? `${missing} pilar belum dinilai` : "Kirim Umpan Balik"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { CartesianGrid, Line, LineChart, Bar, ComposedChart, XAxis, YAxis, ReferenceLine } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, TrendingUp, DollarSign, Layers, Flag } from "lucide-react";
+import type { Person } from "@shared/schema";
+
+interface TimelineEntry {
+  auditId: string;
+  periodeAudit: string;
+  periodeLabel: string;
+  createdAt: string;
+  jabatan: string;
+  totalRealityScore: number;
+  totalGap: number;
+  zonaFinal: string;
+  margin: number;
+  na: number;
+  recommendation: string;
+  pillars: Array<{ pillarId: number; pillarName: string; realityScore: number }>;
+}
+
+interface TimelineResponse {
+  person: Person;
+  timeline: TimelineEntry[];
+}
+
+const CRITICAL_PILLARS = [4, 9, 13];
+
+const scoreConfig = {
+  totalRealityScore: { label: "Reality Score", color: "hsl(var(--chart-1))" },
+  totalGap: { label: "Gap", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const performanceConfig = {
+  margin: { label: "Margin (USD)", color: "hsl(var(--chart-3))" },
+  na: { label: "NA", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+const ZONA_BADGE: Record<string, string> = {
+  hijau: "bg-green-500/20 text-green-600 border-green-500/30",
+  kuning: "bg-yellow-500/20 text-yellow-600 border-yellow-500/30",
+  merah: "bg-red-500/20 text-red-600 border-red-500/30",
+};
+
+export default function PersonTimeline() {
+  const [, params] = useRoute("/people/:id");
+  const [, setLocation] = useLocation();
+  const personId = params?.id;
+  const [selectedPillars, setSelectedPillars] = useState<number[]>(CRITICAL_PILLARS);
+
+  const { data, isLoading } = useQuery<TimelineResponse>({
+    queryKey: [`/api/people/${personId}/timeline`],
+    enabled: !!personId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="max-w-7xl mx-auto p-6 md:p-8">
+          <div className="animate-pulse space-y-8">
+            <div className="h-12 bg-card rounded-lg w-1/3" />
+            <div className="h-64 bg-card rounded-lg" />
+            <div className="h-64 bg-card rounded-lg" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">Data tidak ditemukan</h2>
+          <p className="text-muted-foreground mb-4">Orang yang Anda cari tidak tersedia</p>
+          <Button onClick={() => setLocation("/")}>Kembali ke Dashboard</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { person, timeline } = data;
+
+  // Unique x-axis key even when a quarter was audited more than once
+  const labelCounts: Record<string, number> = {};
+  const chartData = timeline.map((entry) => {
+    labelCounts[entry.periodeLabel] = (labelCounts[entry.periodeLabel] ?? 0) + 1;
+    const point: Record<string, string | number> = {
+      label: labelCounts[entry.periodeLabel] > 1 ? `${entry.periodeLabel} (${labelCounts[entry.periodeLabel]})` : entry.periodeLabel,
+      totalRealityScore: entry.totalRealityScore,
+      totalGap: entry.totalGap,
+      margin: entry.margin,
+      na: entry.na,
+    };
+    entry.pillars.forEach((p) => {
+      point[`p${p.pillarId}`] = p.realityScore;
+    });
+    return point;
+  });
+
+  // ProDem recommendation changes between consecutive audits
+  const prodemChanges = timeline
+    .map((entry, i) => ({ entry, label: chartData[i].label as string, previous: timeline[i - 1]?.recommendation }))
+    .filter(({ entry, previous }, i) => i > 0 && entry.recommendation !== previous);
+
+  const pillarNames = timeline[0]?.pillars ?? [];
+  const pillarConfig: ChartConfig = Object.fromEntries(
+    pillarNames.map((p) => [
+      `p${p.pillarId}`,
+      { label: `P${p.pillarId} ${p.pillarName}`, color: `hsl(${(p.pillarId * 20) % 360} 70% 55%)` },
+    ])
+  );
+
+  const togglePillar = (pillarId: number) => {
+    setSelectedPillars(selectedPillars.includes(pillarId)
+      ? selectedPillars.filter(id => id !== pillarId)
+      : [...selectedPillars, pillarId]);
+  };
+
+  const prodemMarkers = prodemChanges.map(({ entry, label }) => (
+    <ReferenceLine
+      key={entry.auditId}
+      x={label}
+      stroke="hsl(var(--primary))"
+      strokeDasharray="4 4"
+      label={{ value: entry.recommendation, position: "top", fontSize: 10, fill: "hsl(var(--primary))" }}
+    />
+  ));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 md:p-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3 sm:gap-4">
+          <Button
+            variant="outline"
+            size="icon"
+            data-testid="button-back"
+            onClick={() => window.history.length > 1 ? window.history.back() : setLocation("/")}
+            className="shrink-0"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-xl sm:text-2xl md:text-3xl font-bold tracking-tight bg-gradient-to-r from-amber-500 via-yellow-500 to-amber-600 bg-clip-text text-transparent">
+              {person.nama}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {[person.employeeCode, person.currentLevelCode, person.cabang].filter(Boolean).join(" • ")} • {timeline.length} audit
+            </p>
+          </div>
+        </div>
+
+        {timeline.length === 0 ? (
+          <Card className="p-6 text-center text-muted-foreground">Belum ada audit untuk orang ini.</Card>
+        ) : (
+          <>
+            {/* Zone journey */}
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Flag className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-semibold">Perjalanan Zona & ProDem</h2>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {timeline.map((entry, i) => (
+                  <button
+                    key={entry.auditId}
+                    onClick={() => setLocation(`/audit/${entry.auditId}`)}
+                    className="p-3 rounded-lg border bg-muted/30 text-left hover-elevate"
+                    data-testid={`timeline-entry-${entry.auditId}`}
+                  >
+                    <p className="text-xs text-muted-foreground">{chartData[i].label}</p>
+                    <Badge className={`${ZONA_BADGE[entry.zonaFinal] ?? ""} border mt-1`}>{entry.zonaFinal}</Badge>
+                    <p className="text-sm font-medium mt-1">{entry.recommendation}</p>
+                  </button>
+                ))}
+              </div>
+            </Card>
+
+            {/* Reality score & gap */}
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <TrendingUp className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-semibold">Reality Score & Gap</h2>
+              </div>
+              <ChartContainer config={scoreConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={chartData} margin={{ top: 20, right: 12, left: 0, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <ReferenceLine y={75} stroke="hsl(142 70% 45%)" strokeOpacity={0.4} />
+                  <ReferenceLine y={51} stroke="hsl(45 90% 50%)" strokeOpacity={0.4} />
+                  {prodemMarkers}
+                  <Line dataKey="totalRealityScore" type="monotone" stroke="var(--color-totalRealityScore)" strokeWidth={2} />
+                  <Line dataKey="totalGap" type="monotone" stroke="var(--color-totalGap)" strokeWidth={2} />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+
+            {/* Margin & NA */}
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <DollarSign className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-semibold">Margin & NA Kuartal</h2>
+              </div>
+              <ChartContainer config={performanceConfig} className="h-72 w-full aspect-auto">
+                <ComposedChart data={chartData} margin={{ top: 20, right: 12, left: 0, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="margin" tickLine={false} axisLine={false} width={56} />
+                  <YAxis yAxisId="na" orientation="right" tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar yAxisId="margin" dataKey="margin" fill="var(--color-margin)" radius={4} />
+                  <Line yAxisId="na" dataKey="na" type="monotone" stroke="var(--color-na)" strokeWidth={2} />
+                </ComposedChart>
+              </ChartContainer>
+            </Card>
+
+            {/* 18 pillars */}
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center gap-2 mb-2">
+                <Layers className="w-5 h-5 text-primary" />
+                <h2 className="text-lg font-semibold">Reality Score 18 Pilar</h2>
+              </div>
+              <div className="flex flex-wrap gap-1.5 mb-4">
+                {pillarNames.map((p) => (
+                  <Badge
+                    key={p.pillarId}
+                    variant={selectedPillars.includes(p.pillarId) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => togglePillar(p.pillarId)}
+                    title={p.pillarName}
+                  >
+                    P{p.pillarId}
+                  </Badge>
+                ))}
+              </div>
+              <ChartContainer config={pillarConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={chartData} margin={{ top: 20, right: 12, left: 0, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 5]} ticks={[1, 2, 3, 4, 5]} tickLine={false} axisLine={false} width={24} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  {prodemMarkers}
+                  {selectedPillars.map((pillarId) => (
+                    <Line
+                      key={pillarId}
+                      dataKey={`p${pillarId}`}
+                      type="monotone"
+                      stroke={`var(--color-p${pillarId})`}
+                      strokeWidth={2}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Trash Page
+ * Soft-deleted audits (own ones, or all for admins) with the date each will be purged, restorable until then
+ */
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { id as indonesian } from "date-fns/locale";
+import { Trash2, RotateCcw, Clock, FileText } from "lucide-react";
+import type { Audit } from "@shared/schema";
+
+interface TrashResponse {
+  retentionDays: number; // 0 = never purged
+  items: Array<Audit & { purgeAt: string | null }>;
+}
+
+const formatDate = (value: Date | string) => format(new Date(value), "dd MMM yyyy", { locale: indonesian });
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data, isLoading } = useQuery<TrashResponse>({
+    queryKey: ["/api/audits", "trash"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (auditId: string) => {
+      const res = await fetch(`/api/audit/${auditId}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.userMessage || "Gagal memulihkan audit");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-log"] });
+      toast({
+        title: "✅ Audit dipulihkan",
+        description: "Audit kembali muncul di Dashboard",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const items = data?.items ?? [];
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 sm:p-6 md:p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-amber-500 via-yellow-500 to-amber-600 bg-clip-text text-transparent">
+          Sampah
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Audit yang dihapus masih bisa dipulihkan sampai dihapus permanen.
+        </p>
+      </div>
+
+      {data && (
+        <Alert>
+          <Clock className="h-4 w-4" />
+          <AlertDescription>
+            {data.retentionDays > 0
+              ? `Audit di sampah dihapus permanen beserta riwayat chat-nya setelah ${data.retentionDays} hari.`
+              : "Penghapusan otomatis dinonaktifkan. Audit tetap di sampah sampai dipulihkan atau dihapus Admin."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="w-8 h-8 border-4 border-amber-500/30 border-t-amber-500 rounded-full animate-spin mx-auto" />
+        </div>
+      ) : items.length === 0 ? (
+        <Card className="p-12 text-center">
+          <Trash2 className="w-16 h-16 mx-auto text-muted-foreground opacity-50 mb-4" />
+          <p className="text-muted-foreground">Sampah kosong</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {items.map((audit) => (
+            <Card key={audit.id} className="p-4 sm:p-6 bg-gray-900/50 border-gray-800" data-testid={`card-trash-${audit.id}`}>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div className="space-y-1">
+                  <h3 className="text-lg font-bold">{audit.nama}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {audit.jabatan} • {audit.cabang}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Dihapus {audit.deletedAt ? formatDate(audit.deletedAt) : "-"}
+                    {audit.purgeAt && (
+                      <span className="text-red-400"> • Dihapus permanen {formatDate(audit.purgeAt)}</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => setLocation(`/audit/${audit.id}`)}
+                  >
+                    <FileText className="w-4 h-4" />
+                    Lihat
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => restoreMutation.mutate(audit.id)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-${audit.id}`}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Pulihkan
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Activity log querying for AiSG
+ * Filters and keyset cursors for the admin activity viewer, newest entries first
+ */
+
+import { and, eq, gte, ilike, lt, or, sql, type SQL } from "drizzle-orm";
+import { activityLog, users, type ActivityLogQuery } from "@shared/schema";
+import { cursorTimestamp, escapeLike, InvalidCursorError, type AuditPage } from "./audit-query";
+
+/**
+ * WHERE conditions for the viewer filters plus the page cursor (newest first)
+ */
+export function activityLogConditions(query: ActivityLogQuery): SQL[] {
+  const conditions: Array<SQL | undefined> = [];
+
+  if (query.action) conditions.push(eq(activityLog.action, query.action));
+  if (query.actorId) conditions.push(eq(activityLog.actorId, query.actorId));
+  if (query.targetType) conditions.push(eq(activityLog.targetType, query.targetType));
+  if (query.targetId) conditions.push(eq(activityLog.targetId, query.targetId));
+
+  if (query.search) {
+    const pattern = `%${escapeLike(query.search)}%`;
+    conditions.push(or(
+      ilike(users.username, pattern),
+      ilike(users.name, pattern),
+      ilike(activityLog.targetId, pattern),
+      ilike(activityLog.ipAddress, pattern),
+      sql`${activityLog.details}::text ilike ${pattern}`
+    ));
+  }
+
+  if (query.from) conditions.push(gte(activityLog.createdAt, new Date(`${query.from}T00:00:00`)));
+  if (query.to) {
+    const dayAfter = new Date(`${query.to}T00:00:00`);
+    dayAfter.setDate(dayAfter.getDate() + 1);
+    conditions.push(lt(activityLog.createdAt, dayAfter));
+  }
+
+  if (query.cursor) conditions.push(cursorCondition(query.cursor));
+
+  return conditions.filter((condition): condition is SQL => condition !== undefined);
+}
+
+// Same millisecond truncation as the audit list: cursors only carry milliseconds
+export const activityLogOrder = [
+  sql`date_trunc('milliseconds', ${activityLog.createdAt}) desc`,
+  sql`${activityLog.id} desc`,
+];
+
+/**
+ * Cut a page out of rows fetched with limit + 1
+ */
+export function toActivityPage<T extends { id: string; createdAt: Date }>(rows: T[], limit: number): AuditPage<T> {
+  if (rows.length <= limit) return { items: rows, nextCursor: null };
+
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return { items, nextCursor: Buffer.from(JSON.stringify([last.createdAt.getTime(), last.id])).toString("base64url") };
+}
+
+function cursorCondition(cursor: string): SQL | undefined {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 2 || !Number.isFinite(decoded[0]) || typeof decoded[1] !== "string") {
+    throw new InvalidCursorError();
+  }
+
+  const [createdAt, id] = decoded;
+  const column = sql`date_trunc('milliseconds', ${activityLog.createdAt})`;
+  return or(
+    sql`${column} < ${cursorTimestamp(createdAt)}`,
+    and(sql`${column} = ${cursorTimestamp(createdAt)}`, lt(activityLog.id, id))
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Activity Log Routes for AiSG
+ * Admin viewer for the append-only trail of logins, audit actions and account changes
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { activityLogQuerySchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+import { InvalidCursorError } from "./audit-query";
+
+export function registerActivityRoutes(app: Express) {
+  /**
+   * GET /api/admin/activity-log?search=&action=&actorId=&targetType=&targetId=&from=&to=&cursor=&limit=
+   * Newest entries first with the actor's username, one page at a time
+   */
+  app.get("/api/admin/activity-log", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = activityLogQuerySchema.parse(req.query);
+      res.json(await storage.searchActivityLog(query));
+    } catch (error) {
+      handleActivityError(res, error, "Error fetching activity log:");
+    }
+  });
+}
+
+function handleActivityError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else if (error instanceof InvalidCursorError) {
+    res.status(400).json({ error: "Invalid cursor", userMessage: error.message });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
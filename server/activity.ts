@@ -0,0 +1,29 @@
+/**
+ * Activity trail for AiSG
+ * Records who did what, to which audit or user, from which IP
+ */
+
+import type { Request } from "express";
+import type { InsertActivityLogEntry } from "@shared/schema";
+import { storage } from "./storage";
+
+type ActivityEntry = Omit<InsertActivityLogEntry, "id" | "actorId" | "ipAddress" | "createdAt"> & {
+  actorId?: string | null; // Defaults to the logged-in user
+};
+
+/**
+ * Append entries for the current request (several at once for bulk actions)
+ * A failed write is logged but never fails the action being recorded
+ */
+export async function recordActivity(req: Request, entries: ActivityEntry | ActivityEntry[]): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries];
+  try {
+    await storage.logActivity(list.map(entry => ({
+      ...entry,
+      actorId: entry.actorId !== undefined ? entry.actorId : req.user?.id ?? null,
+      ipAddress: req.ip ?? null,
+    })));
+  } catch (error) {
+    console.error(`Failed to record activity "${list.map(entry => entry.action).join(", ")}":`, error);
+  }
+}
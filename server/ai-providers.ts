@@ -0,0 +1,369 @@
+/**
+ * AI provider layer for the AiSG Coach
+ * Each source answers the same coaching request; they are tried in the configured order until one replies.
+ *
+ * Configuration (environment):
+ *   AI_PROVIDERS      fallback order, default "openai,gemini,knowledge" (also: local, mock)
+ *   AI_TEMPERATURE    default 0.7
+ *   AI_MAX_TOKENS     default 500
+ *   AI_TIMEOUT_MS     default 20000
+ *   AI_<PROVIDER>_MODEL / _TEMPERATURE / _MAX_TOKENS / _TIMEOUT_MS override per provider, e.g. AI_OPENAI_MODEL
+ *   AI_LOCAL_BASE_URL, AI_LOCAL_API_KEY for any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+ */
+
+import OpenAI from "openai";
+import { GoogleGenAI } from "@google/genai";
+import type { Audit } from "@shared/schema";
+import { storage } from "./storage";
+import { generateKnowledgeBasedResponse } from "./knowledge-base";
+import { buildPromptContext } from "./prompt-template";
+
+export const AI_PROVIDER_NAMES = ["openai", "gemini", "local", "knowledge", "mock"] as const;
+export type AiProviderName = typeof AI_PROVIDER_NAMES[number];
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface CoachRequest {
+  systemPrompt: string;
+  history: ChatTurn[]; // Earlier turns, oldest first, without the new message
+  message: string;
+  audit: Audit;
+}
+
+export interface AiProviderSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface AiProvider {
+  name: AiProviderName;
+  label: string; // Shown to the user as the answering source
+  generate(request: CoachRequest, settings: AiProviderSettings, signal: AbortSignal): Promise<string>;
+  stream?(request: CoachRequest, settings: AiProviderSettings, signal: AbortSignal): AsyncIterable<string>; // Without it the whole reply arrives as one chunk
+}
+
+export interface CoachReply {
+  text: string;
+  provider: AiProviderName;
+  source: string;
+}
+
+export interface CoachStreamHandlers {
+  signal: AbortSignal; // Aborting cancels the generation and skips the remaining providers
+  onSource(source: string, provider: AiProviderName): void;
+  onToken(text: string): void;
+  onReset(): void; // The provider failed mid-answer: discard what was streamed so far
+}
+
+export class AiGenerationCancelledError extends Error {
+  constructor() {
+    super("Generation cancelled");
+    this.name = "AiGenerationCancelledError";
+  }
+}
+
+export class AiProvidersExhaustedError extends Error {
+  constructor(public failures: Array<{ provider: AiProviderName; message: string }>) {
+    super(`All AI providers failed: ${failures.map(f => `${f.provider} (${f.message})`).join(", ")}`);
+    this.name = "AiProvidersExhaustedError";
+  }
+}
+
+const DEFAULT_ORDER: AiProviderName[] = ["openai", "gemini", "knowledge"];
+const HISTORY_TURNS = 10;
+
+const DEFAULT_MODELS: Record<AiProviderName, string> = {
+  openai: "gpt-4o-mini",
+  gemini: "gemini-2.0-flash-exp",
+  local: "llama3.1",
+  knowledge: "internal",
+  mock: "mock",
+};
+
+// Clients are created on first use, so a missing API key only fails that provider instead of the server start
+let openaiClient: OpenAI | undefined;
+const openaiProvider: AiProvider = {
+  name: "openai",
+  label: "ChatGPT",
+  generate: (request, settings, signal) => {
+    openaiClient ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    return openaiCompatibleCompletion(openaiClient, request, settings, signal);
+  },
+  stream: (request, settings, signal) => {
+    openaiClient ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    return openaiCompatibleStream(openaiClient, request, settings, signal);
+  },
+};
+
+let localClient: OpenAI | undefined;
+const localProvider: AiProvider = {
+  name: "local",
+  label: "Local AI",
+  generate: (request, settings, signal) => {
+    const baseURL = process.env.AI_LOCAL_BASE_URL;
+    if (!baseURL) throw new Error("AI_LOCAL_BASE_URL is not set");
+    localClient ??= new OpenAI({ baseURL, apiKey: process.env.AI_LOCAL_API_KEY || "local" });
+    return openaiCompatibleCompletion(localClient, request, settings, signal);
+  },
+  stream: (request, settings, signal) => {
+    const baseURL = process.env.AI_LOCAL_BASE_URL;
+    if (!baseURL) throw new Error("AI_LOCAL_BASE_URL is not set");
+    localClient ??= new OpenAI({ baseURL, apiKey: process.env.AI_LOCAL_API_KEY || "local" });
+    return openaiCompatibleStream(localClient, request, settings, signal);
+  },
+};
+
+let geminiClient: GoogleGenAI | undefined;
+const geminiProvider: AiProvider = {
+  name: "gemini",
+  label: "Gemini",
+  generate: async (request, settings, signal) => {
+    if (!process.env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY is not set");
+    geminiClient ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    const result = await geminiClient.models.generateContent(geminiParams(request, settings, signal));
+    return result.text ?? "";
+  },
+  stream: async function* (request, settings, signal) {
+    if (!process.env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY is not set");
+    geminiClient ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    const chunks = await geminiClient.models.generateContentStream(geminiParams(request, settings, signal));
+    for await (const chunk of chunks) {
+      if (chunk.text) yield chunk.text;
+    }
+  },
+};
+
+// Ranked retrieval over the admin-managed entries; always answers (or asks back), so it is the usual last resort
+const knowledgeProvider: AiProvider = {
+  name: "knowledge",
+  label: "Knowledge Base",
+  generate: async ({ message, audit }) => {
+    const [entries, actionPlanItems] = await Promise.all([
+      storage.getKnowledgeEntries(),
+      storage.getActionPlanItems(audit.id),
+    ]);
+    return generateKnowledgeBasedResponse(message, entries, buildPromptContext(audit, actionPlanItems));
+  },
+};
+
+// Deterministic stand-in for offline development: the same audit and message always give the same reply
+// Streams word by word with a short pause so the chat UI can be exercised without network access
+const mockProvider: AiProvider = {
+  name: "mock",
+  label: "Mock",
+  generate: async (request) => mockReply(request),
+  stream: async function* (request, _settings, signal) {
+    for (const word of mockReply(request).split(/(?<=\s)/)) {
+      if (signal.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, 20));
+      yield word;
+    }
+  },
+};
+
+function mockReply({ audit, message, history }: CoachRequest): string {
+  return [
+    `Halo ${audit.nama}! Ini jawaban mock untuk: "${message.trim()}".`,
+    `Reality Score kamu ${audit.totalRealityScore}/90, profil ${audit.profil}, zona ${audit.zonaFinal}.`,
+    `Percakapan ini sudah berisi ${history.length} pesan sebelumnya.`,
+  ].join("\n\n");
+}
+
+const PROVIDERS: Record<AiProviderName, AiProvider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  local: localProvider,
+  knowledge: knowledgeProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Providers in fallback order; unknown names in AI_PROVIDERS are ignored with a warning
+ */
+export function getProviderOrder(): AiProviderName[] {
+  const configured = process.env.AI_PROVIDERS;
+  if (!configured) return DEFAULT_ORDER;
+
+  const names = configured.split(",").map(name => name.trim().toLowerCase()).filter(Boolean);
+  const unknown = names.filter(name => !(AI_PROVIDER_NAMES as readonly string[]).includes(name));
+  if (unknown.length > 0) console.warn(`[CHAT] Ignoring unknown AI providers: ${unknown.join(", ")}`);
+
+  const order = names.filter((name): name is AiProviderName => (AI_PROVIDER_NAMES as readonly string[]).includes(name));
+  return order.length > 0 ? Array.from(new Set(order)) : DEFAULT_ORDER;
+}
+
+export function getProviderSettings(name: AiProviderName): AiProviderSettings {
+  const prefix = `AI_${name.toUpperCase()}_`;
+  return {
+    model: process.env[`${prefix}MODEL`] || DEFAULT_MODELS[name],
+    temperature: numberSetting(`${prefix}TEMPERATURE`) ?? numberSetting("AI_TEMPERATURE") ?? 0.7,
+    maxTokens: numberSetting(`${prefix}MAX_TOKENS`) ?? numberSetting("AI_MAX_TOKENS") ?? 500,
+    timeoutMs: numberSetting(`${prefix}TIMEOUT_MS`) ?? numberSetting("AI_TIMEOUT_MS") ?? 20000,
+  };
+}
+
+/**
+ * Ask each provider in turn until one returns a non-empty reply
+ */
+export async function generateCoachReply(request: CoachRequest): Promise<CoachReply> {
+  const failures: Array<{ provider: AiProviderName; message: string }> = [];
+
+  for (const name of getProviderOrder()) {
+    const provider = PROVIDERS[name];
+    const settings = getProviderSettings(name);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+
+    try {
+      console.log(`[CHAT] 🎯 Attempting ${provider.label} (${settings.model})...`);
+      const text = (await provider.generate(request, settings, controller.signal)).trim();
+      if (!text) throw new Error("empty response");
+
+      console.log(`[CHAT] ✅ ${provider.label} responded`);
+      return { text, provider: name, source: provider.label };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `timed out after ${settings.timeoutMs} ms`
+        : error instanceof Error ? error.message : String(error);
+      console.log(`[CHAT] ❌ ${provider.label} FAILED -`, message);
+      failures.push({ provider: name, message });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new AiProvidersExhaustedError(failures);
+}
+
+/**
+ * Streaming variant of generateCoachReply
+ * The timeout is an idle limit restarted by every chunk, so a provider that stalls mid-answer is dropped like a slow one;
+ * a provider that fails or stalls mid-answer is reset and the next one takes over
+ */
+export async function streamCoachReply(request: CoachRequest, handlers: CoachStreamHandlers): Promise<CoachReply> {
+  const failures: Array<{ provider: AiProviderName; message: string }> = [];
+
+  for (const name of getProviderOrder()) {
+    if (handlers.signal.aborted) throw new AiGenerationCancelledError();
+
+    const provider = PROVIDERS[name];
+    const settings = getProviderSettings(name);
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    handlers.signal.addEventListener("abort", cancel);
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, settings.timeoutMs);
+    };
+    restartTimer();
+    let text = "";
+
+    try {
+      console.log(`[CHAT] 🎯 Streaming from ${provider.label} (${settings.model})...`);
+      handlers.onSource(provider.label, name);
+
+      const chunks = provider.stream
+        ? provider.stream(request, settings, controller.signal)
+        : singleChunk(provider.generate(request, settings, controller.signal));
+      for await (const chunk of chunks) {
+        if (controller.signal.aborted) break;
+        restartTimer();
+        if (!chunk) continue;
+        text += chunk;
+        handlers.onToken(chunk);
+      }
+      if (handlers.signal.aborted) throw new AiGenerationCancelledError();
+      if (timedOut) throw new Error("stalled");
+      if (!text.trim()) throw new Error("empty response");
+
+      console.log(`[CHAT] ✅ ${provider.label} finished streaming`);
+      return { text: text.trim(), provider: name, source: provider.label };
+    } catch (error) {
+      if (handlers.signal.aborted) throw new AiGenerationCancelledError();
+
+      const message = timedOut
+        ? `no data for ${settings.timeoutMs} ms`
+        : error instanceof Error ? error.message : String(error);
+      console.log(`[CHAT] ❌ ${provider.label} FAILED -`, message);
+      failures.push({ provider: name, message });
+      if (text) handlers.onReset();
+    } finally {
+      clearTimeout(timer);
+      handlers.signal.removeEventListener("abort", cancel);
+    }
+  }
+
+  throw new AiProvidersExhaustedError(failures);
+}
+
+async function* singleChunk(reply: Promise<string>): AsyncIterable<string> {
+  yield await reply;
+}
+
+function openaiCompatibleMessages(request: CoachRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    { role: "system", content: request.systemPrompt },
+    ...request.history.slice(-HISTORY_TURNS).map(turn => ({ role: turn.role, content: turn.content })),
+    { role: "user", content: request.message },
+  ];
+}
+
+async function* openaiCompatibleStream(client: OpenAI, request: CoachRequest, settings: AiProviderSettings, signal: AbortSignal): AsyncIterable<string> {
+  const stream = await client.chat.completions.create({
+    model: settings.model,
+    messages: openaiCompatibleMessages(request),
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+    stream: true,
+  }, { signal });
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content;
+    if (content) yield content;
+  }
+}
+
+function geminiParams(request: CoachRequest, settings: AiProviderSettings, signal: AbortSignal) {
+  return {
+    model: settings.model,
+    contents: [
+      ...request.history.slice(-HISTORY_TURNS).map(turn => ({
+        role: turn.role === "user" ? "user" : "model",
+        parts: [{ text: turn.content }],
+      })),
+      { role: "user", parts: [{ text: request.message }] },
+    ],
+    config: {
+      systemInstruction: request.systemPrompt,
+      temperature: settings.temperature,
+      maxOutputTokens: settings.maxTokens,
+      abortSignal: signal,
+    },
+  };
+}
+
+async function openaiCompatibleCompletion(client: OpenAI, request: CoachRequest, settings: AiProviderSettings, signal: AbortSignal): Promise<string> {
+  const completion = await client.chat.completions.create({
+    model: settings.model,
+    messages: openaiCompatibleMessages(request),
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+  }, { signal });
+  return completion.choices[0]?.message?.content ?? "";
+}
+
+function numberSetting(key: string): number | undefined {
+  const value = process.env[key];
+  if (value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
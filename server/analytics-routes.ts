@@ -0,0 +1,160 @@
+/**
+ * Analytics Routes for AiSG
+ * Branch and region leaderboard: zones, average scores, ProDem outcomes and weakest pillars
+ */
+
+import type { Express, Request, Response } from "express";
+import type { Audit, Branch } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth } from "./middleware";
+import { canAccessAudit } from "./auth";
+import { formatPeriodeAudit, periodFromDate, PERIODE_AUDIT_PATTERN } from "@shared/audit-period";
+
+const NO_REGION = "Tanpa Region";
+const WEAKEST_PILLAR_COUNT = 3;
+
+interface AnalyticsAudit {
+  id: string;
+  nama: string;
+  jabatan: string;
+  cabang: string;
+  branchId: string | null;
+  region: string;
+  periodeAudit: string;
+  zonaFinal: string;
+  totalRealityScore: number;
+  totalGap: number;
+  recommendation: string;
+}
+
+interface GroupStats {
+  key: string;
+  name: string;
+  region: string | null;
+  auditCount: number;
+  zones: { hijau: number; kuning: number; merah: number };
+  avgRealityScore: number;
+  avgGap: number;
+  prodem: { Promosi: number; Dipertahankan: number; Pembinaan: number; Demosi: number };
+  weakestPillars: Array<{ pillarId: number; pillarName: string; avgRealityScore: number }>;
+}
+
+export function registerAnalyticsRoutes(app: Express) {
+  /**
+   * GET /api/analytics/branches?periode=YYYY-Qn
+   * Per-branch and per-region comparison over the audits the user can see,
+   * with the audit rows behind every number for drill-down
+   */
+  app.get("/api/analytics/branches", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const periode = typeof req.query.periode === "string" && PERIODE_AUDIT_PATTERN.test(req.query.periode)
+        ? req.query.periode
+        : null;
+
+      const visibleAudits = (await storage.getAllAudits())
+        .filter(audit => canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds));
+      const branchById = new Map((await storage.getBranches()).map(branch => [branch.id, branch]));
+
+      // Legacy audits without periodeAudit count in the quarter they were created
+      const withPeriod = visibleAudits.map(audit => ({
+        audit,
+        periodeAudit: audit.periodeAudit ?? formatPeriodeAudit(periodFromDate(new Date(audit.createdAt))),
+      }));
+      const periods = Array.from(new Set(withPeriod.map(row => row.periodeAudit))).sort().reverse();
+      const selected = withPeriod.filter(row => !periode || row.periodeAudit === periode);
+
+      const rows = selected.map(({ audit, periodeAudit }) => toAnalyticsAudit(audit, periodeAudit, branchById));
+      const auditById = new Map(selected.map(({ audit }) => [audit.id, audit]));
+
+      const branchGroups = groupBy(rows, row => row.branchId ?? `cabang:${row.cabang}`);
+      const regionGroups = groupBy(rows, row => row.region);
+
+      res.json({
+        periode,
+        periods,
+        overall: summarize("all", "Semua Cabang", null, rows, auditById),
+        branches: Array.from(branchGroups.entries())
+          .map(([key, group]) => summarize(key, group[0].cabang, group[0].region, group, auditById))
+          .sort((a, b) => b.avgRealityScore - a.avgRealityScore),
+        regions: Array.from(regionGroups.entries())
+          .map(([key, group]) => summarize(key, key, null, group, auditById))
+          .sort((a, b) => b.avgRealityScore - a.avgRealityScore),
+        audits: rows,
+      });
+    } catch (error) {
+      console.error("Error fetching branch analytics:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
+
+function toAnalyticsAudit(audit: Audit, periodeAudit: string, branchById: Map<string, Branch>): AnalyticsAudit {
+  const branch = audit.branchId ? branchById.get(audit.branchId) : undefined;
+  return {
+    id: audit.id,
+    nama: audit.nama,
+    jabatan: audit.jabatan,
+    cabang: branch?.name ?? audit.cabang,
+    branchId: audit.branchId,
+    region: branch?.region || NO_REGION,
+    periodeAudit,
+    zonaFinal: audit.zonaFinal,
+    totalRealityScore: audit.totalRealityScore,
+    totalGap: audit.totalGap,
+    recommendation: audit.prodemRekomendasi.recommendation,
+  };
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return groups;
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+function summarize(
+  key: string,
+  name: string,
+  region: string | null,
+  rows: AnalyticsAudit[],
+  auditById: Map<string, Audit>
+): GroupStats {
+  const zones = { hijau: 0, kuning: 0, merah: 0 };
+  const prodem = { Promosi: 0, Dipertahankan: 0, Pembinaan: 0, Demosi: 0 };
+  const pillarScores = new Map<number, { pillarName: string; scores: number[] }>();
+
+  for (const row of rows) {
+    if (row.zonaFinal in zones) zones[row.zonaFinal as keyof typeof zones]++;
+    if (row.recommendation in prodem) prodem[row.recommendation as keyof typeof prodem]++;
+
+    for (const pillar of auditById.get(row.id)?.pillarAnswers ?? []) {
+      const entry = pillarScores.get(pillar.pillarId) ?? { pillarName: pillar.pillarName, scores: [] };
+      entry.scores.push(pillar.realityScore);
+      pillarScores.set(pillar.pillarId, entry);
+    }
+  }
+
+  const weakestPillars = Array.from(pillarScores.entries())
+    .map(([pillarId, { pillarName, scores }]) => ({ pillarId, pillarName, avgRealityScore: average(scores) }))
+    .sort((a, b) => a.avgRealityScore - b.avgRealityScore || a.pillarId - b.pillarId)
+    .slice(0, WEAKEST_PILLAR_COUNT);
+
+  return {
+    key,
+    name,
+    region,
+    auditCount: rows.length,
+    zones,
+    avgRealityScore: average(rows.map(row => row.totalRealityScore)),
+    avgGap: average(rows.map(row => row.totalGap)),
+    prodem,
+    weakestPillars,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Bulk audit export for AiSG
+ * Flattens audits into one row per audit for HR analysis in Excel or BI tools
+ */
+
+import type { Audit } from "@shared/schema";
+import type { SpreadsheetCell, SpreadsheetTable } from "./spreadsheet";
+
+export interface ExportAccounts {
+  ownerUsername: string | null;
+  creatorUsername: string | null;
+}
+
+// Numeric audit inputs, shared with the import template so exported files can be imported again
+export const METRIC_COLUMNS = [
+  "marginTimQ1", "marginTimQ2", "marginTimQ3", "marginTimQ4",
+  "naTimQ1", "naTimQ2", "naTimQ3", "naTimQ4",
+  "marginPribadiQ1", "marginPribadiQ2", "marginPribadiQ3", "marginPribadiQ4",
+  "nasabahPribadiQ1", "nasabahPribadiQ2", "nasabahPribadiQ3", "nasabahPribadiQ4",
+  "jumlahBC", "jumlahSBC", "jumlahBsM", "jumlahSBM", "jumlahEM", "jumlahSEM", "jumlahVBM", "jumlahBrM",
+] as const;
+
+const PILLAR_IDS = Array.from({ length: 18 }, (_, i) => i + 1);
+
+export const EXPORT_COLUMNS: string[] = [
+  "auditId", "nama", "jabatan", "cabang", "tanggalLahir", "periodeAudit", "tanggalAudit",
+  "ownerUsername", "auditorUsername",
+  ...METRIC_COLUMNS,
+  ...PILLAR_IDS.flatMap(id => [`pilar${id}Self`, `pilar${id}Reality`, `pilar${id}Gap`]),
+  "totalSelfScore", "totalRealityScore", "totalGap",
+  "zonaKinerja", "zonaPerilaku", "zonaFinal", "profil", "scoringRuleVersion",
+  "prodemRekomendasi", "prodemNextLevel", "prodemStatus", "prodemFinal",
+  "dihapus",
+];
+
+/**
+ * One flat row per audit, in the given order; pillars missing from old audits are left blank
+ */
+export function buildAuditExportTable(rows: Array<{ audit: Audit; accounts: ExportAccounts }>): SpreadsheetTable<SpreadsheetCell> {
+  return {
+    headers: EXPORT_COLUMNS,
+    rows: rows.map(({ audit, accounts }) => {
+      const pillars = new Map(audit.pillarAnswers.map(p => [p.pillarId, p]));
+      const values: Record<string, string | number | null | undefined> = {
+        auditId: audit.id,
+        nama: audit.nama,
+        jabatan: audit.jabatan,
+        cabang: audit.cabang,
+        tanggalLahir: audit.tanggalLahir,
+        periodeAudit: audit.periodeAudit,
+        tanggalAudit: new Date(audit.createdAt).toISOString().slice(0, 10),
+        ownerUsername: accounts.ownerUsername,
+        auditorUsername: accounts.creatorUsername,
+        ...Object.fromEntries(METRIC_COLUMNS.map(column => [column, audit[column]])),
+        ...Object.fromEntries(PILLAR_IDS.flatMap(id => [
+          [`pilar${id}Self`, pillars.get(id)?.selfScore],
+          [`pilar${id}Reality`, pillars.get(id)?.realityScore],
+          [`pilar${id}Gap`, pillars.get(id)?.gap],
+        ])),
+        totalSelfScore: audit.totalSelfScore,
+        totalRealityScore: audit.totalRealityScore,
+        totalGap: audit.totalGap,
+        zonaKinerja: audit.zonaKinerja,
+        zonaPerilaku: audit.zonaPerilaku,
+        zonaFinal: audit.zonaFinal,
+        profil: audit.profil,
+        scoringRuleVersion: audit.scoringRuleVersion,
+        prodemRekomendasi: audit.prodemRekomendasi.recommendation,
+        prodemNextLevel: audit.prodemRekomendasi.nextLevel,
+        prodemStatus: audit.prodemStatus,
+        prodemFinal: audit.prodemFinalRecommendation,
+        dihapus: audit.deletedAt ? "ya" : "",
+      };
+      return Object.fromEntries(EXPORT_COLUMNS.map(column => [column, values[column] ?? ""]));
+    }),
+  };
+}
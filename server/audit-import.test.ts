@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { Audit, InsertAudit } from "@shared/schema";
+import { DEFAULT_CAREER_LEVELS } from "@shared/career-levels";
+import { processAuditData } from "./business-logic";
+import { DEFAULT_SCORING_RULES } from "./scoring-rules";
+import { buildAuditExportTable, METRIC_COLUMNS } from "./audit-export";
+import { IMPORT_TEMPLATE_COLUMNS, parseImportRows } from "./audit-import";
+import { parseSpreadsheet, writeSpreadsheet, type SpreadsheetFormat } from "./spreadsheet";
+
+const input: InsertAudit = {
+  nama: "Siti Rahma, S.E.",
+  jabatan: "Senior Business Manager (SBM)",
+  cabang: "Jakarta Selatan",
+  tanggalLahir: "07-03-1990",
+  periodeAudit: "2025-Q3",
+  marginTimQ1: 120000, marginTimQ2: 95000, marginTimQ3: 150000, marginTimQ4: 0,
+  naTimQ1: 3, naTimQ2: 2, naTimQ3: 4, naTimQ4: 0,
+  marginPribadiQ1: 20000, marginPribadiQ2: 15000, marginPribadiQ3: 30000, marginPribadiQ4: 0,
+  nasabahPribadiQ1: 2, nasabahPribadiQ2: 1, nasabahPribadiQ3: 3, nasabahPribadiQ4: 0,
+  jumlahBC: 6, jumlahSBC: 3, jumlahBsM: 2, jumlahSBM: 1, jumlahEM: 0, jumlahSEM: 0, jumlahVBM: 0, jumlahBrM: 1,
+  pillarAnswers: Array.from({ length: 18 }, (_, i) => ({ pillarId: i + 1, selfScore: (i % 5) + 1 })),
+};
+
+function storedAudit(data: InsertAudit): Audit {
+  const createdAt = new Date("2025-08-14T03:00:00Z");
+  const processed = processAuditData(data, {
+    careerLevels: DEFAULT_CAREER_LEVELS,
+    scoringRules: { version: 1, rules: DEFAULT_SCORING_RULES },
+  }, createdAt);
+  return { ...data, ...processed, id: "audit-1", createdAt, deletedAt: null, prodemStatus: "draft", prodemFinalRecommendation: null } as unknown as Audit;
+}
+
+describe("import template", () => {
+  it("covers every metric the export writes, including jumlahBrM", () => {
+    for (const column of METRIC_COLUMNS) expect(IMPORT_TEMPLATE_COLUMNS).toContain(column);
+  });
+});
+
+describe.each<SpreadsheetFormat>(["csv", "xlsx"])("export → import round trip (%s)", (format) => {
+  it("reads back the audit input and owner", async () => {
+    const table = buildAuditExportTable([{ audit: storedAudit(input), accounts: { ownerUsername: "siti", creatorUsername: "budi" } }]);
+    const file = await writeSpreadsheet(table, format, "Audit");
+    const { rows } = await parseSpreadsheet(file, format);
+    const { valid, errors } = parseImportRows(rows);
+
+    expect(errors).toEqual([]);
+    expect(valid).toHaveLength(1);
+    expect(valid[0].ownerUsername).toBe("siti");
+    expect(valid[0].audit).toMatchObject(input);
+  });
+});
+
+describe("parseImportRows", () => {
+  const row = (overrides: Record<string, string>) => ({
+    nama: "Andi", jabatan: "Business Consultant (BC)", cabang: "Bandung", tanggalLahir: "1992-01-31", periodeAudit: "2025-q1",
+    ...Object.fromEntries(Array.from({ length: 18 }, (_, i) => [`Pilar ${i + 1}`, "3"])),
+    ...overrides,
+  });
+
+  it("matches headers loosely and normalizes dates, periods and thousand separators", () => {
+    const { valid } = parseImportRows([row({ "Margin Tim Q1": "1.250.000", "jumlah brm": "2" })]);
+    expect(valid[0].audit).toMatchObject({ tanggalLahir: "31-01-1992", periodeAudit: "2025-Q1", marginTimQ1: 1250000, jumlahBrM: 2 });
+  });
+
+  it("reports row-numbered errors and skips blank rows", () => {
+    const blank = Object.fromEntries(Object.keys(row({})).map(key => [key, ""]));
+    const { valid, errors } = parseImportRows([blank, row({ "Pilar 4": "9" })]);
+    expect(valid).toEqual([]);
+    expect(errors).toEqual([{ row: 3, nama: "Andi", messages: [expect.stringMatching(/^pilar4: /)] }]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Bulk audit import for AiSG
+ * Maps spreadsheet rows onto the audit input and validates each row with insertAuditSchema
+ */
+
+import { insertAuditSchema, type InsertAudit } from "@shared/schema";
+import { METRIC_COLUMNS } from "./audit-export";
+
+// Template columns in order; pilar1..pilar18 become pillarAnswers, ownerUsername is optional
+// (an export file also works: its pilarNSelf columns stand in for pilarN and the result columns are ignored)
+const IDENTITY_COLUMNS = ["nama", "jabatan", "cabang", "tanggalLahir", "periodeAudit"] as const;
+const PILLAR_COLUMNS = Array.from({ length: 18 }, (_, i) => `pilar${i + 1}`);
+export const OWNER_COLUMN = "ownerUsername";
+
+export const IMPORT_TEMPLATE_COLUMNS: string[] = [...IDENTITY_COLUMNS, ...METRIC_COLUMNS, ...PILLAR_COLUMNS, OWNER_COLUMN];
+
+export interface ImportRowError {
+  row: number; // Spreadsheet row number (header is row 1)
+  nama: string;
+  messages: string[];
+}
+
+export interface ParsedImportRow {
+  row: number;
+  audit: InsertAudit;
+  ownerUsername: string | null;
+}
+
+/**
+ * Validate every row; valid rows come back as audit input, the rest as row-level errors
+ */
+export function parseImportRows(rows: Array<Record<string, string>>): { valid: ParsedImportRow[]; errors: ImportRowError[] } {
+  const valid: ParsedImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((raw, index) => {
+    const row = index + 2;
+    if (Object.values(raw).every(value => value === "")) return;
+
+    const cells = normalizeKeys(raw);
+    const cell = (column: string) => cells[headerKey(column)] ?? "";
+
+    const candidate = {
+      ...Object.fromEntries(IDENTITY_COLUMNS.map(column => [column, cell(column)])),
+      tanggalLahir: toBirthDate(cell("tanggalLahir")),
+      periodeAudit: cell("periodeAudit").toUpperCase() || undefined,
+      ...Object.fromEntries(METRIC_COLUMNS.map(column => [column, toNumber(cell(column), 0)])),
+      pillarAnswers: PILLAR_COLUMNS.map((column, i) => ({
+        pillarId: i + 1,
+        selfScore: toNumber(cell(column) || cell(`${column}Self`), NaN),
+      })),
+    };
+
+    const result = insertAuditSchema.safeParse(candidate);
+    if (result.success) {
+      valid.push({ row, audit: result.data, ownerUsername: cell(OWNER_COLUMN) || null });
+    } else {
+      errors.push({
+        row,
+        nama: cell("nama"),
+        messages: result.error.errors.map(issue => `${describePath(issue.path)}: ${issue.message}`),
+      });
+    }
+  });
+
+  return { valid, errors };
+}
+
+// Header matching ignores case, spaces and punctuation ("Margin Tim Q1" = "marginTimQ1")
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function normalizeKeys(raw: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(raw).map(([header, value]) => [headerKey(header), value]));
+}
+
+/**
+ * Whole numbers written with thousand separators ("1.250.000" or "1,250,000"); blank means the fallback
+ */
+function toNumber(value: string, fallback: number): number {
+  if (value === "") return fallback;
+  const digits = value.replace(/[.,\s](?=\d{3}(\D|$))/g, "");
+  return /^-?\d+$/.test(digits) ? Number(digits) : NaN;
+}
+
+/**
+ * Accepts DD-MM-YYYY, DD/MM/YYYY and the ISO dates exported by spreadsheets
+ */
+function toBirthDate(value: string): string {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[3]}-${iso[2]}-${iso[1]}`;
+  const local = value.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})$/);
+  if (local) return `${local[1].padStart(2, "0")}-${local[2].padStart(2, "0")}-${local[3]}`;
+  return value;
+}
+
+function describePath(path: Array<string | number>): string {
+  if (path[0] === "pillarAnswers" && typeof path[1] === "number") return `pilar${path[1] + 1}`;
+  return path.join(".") || "baris";
+}
@@ -0,0 +1,124 @@
+/**
+ * Audit list querying for AiSG
+ * Filters, sort order and keyset cursors shared by the audit list, the admin audit log and their exports
+ */
+
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import { audits, type AuditListQuery, type User } from "@shared/schema";
+
+export interface AuditPage<T> {
+  items: T[];
+  nextCursor: string | null; // NULL = last page
+}
+
+// Postgres keeps microseconds but a cursor only carries milliseconds, so createdAt is compared at that precision
+const SORT_COLUMNS = {
+  createdAt: sql`date_trunc('milliseconds', ${audits.createdAt})`,
+  nama: audits.nama,
+  totalRealityScore: audits.totalRealityScore,
+  totalGap: audits.totalGap,
+} as const;
+
+/**
+ * Owners whose audits the user may list, mirroring canAccessAudit (NULL = everyone, for admins)
+ */
+export function visibleOwnerIds(role: User["role"], userId: string, downlineIds: ReadonlySet<string> = new Set()): string[] | null {
+  if (role === "full_admin" || role === "admin") return null;
+  return [userId, ...Array.from(downlineIds)];
+}
+
+/**
+ * WHERE conditions for the filters in the query, plus the owner scope and the page cursor
+ */
+export function auditListConditions(query: AuditListQuery, ownerIds: string[] | null): SQL[] {
+  const conditions: Array<SQL | undefined> = [];
+
+  if (ownerIds) conditions.push(inArray(audits.ownerId, ownerIds));
+  if (query.deleted === "active") conditions.push(isNull(audits.deletedAt));
+  if (query.deleted === "deleted") conditions.push(isNotNull(audits.deletedAt));
+
+  if (query.search) {
+    const pattern = `%${escapeLike(query.search)}%`;
+    conditions.push(or(ilike(audits.nama, pattern), ilike(audits.jabatan, pattern), ilike(audits.cabang, pattern)));
+  }
+  if (query.zona) conditions.push(eq(audits.zonaFinal, query.zona));
+  if (query.profil) conditions.push(eq(audits.profil, query.profil));
+  if (query.prodem) conditions.push(sql`${audits.prodemRekomendasi}->>'recommendation' = ${query.prodem}`);
+  if (query.branchId) conditions.push(eq(audits.branchId, query.branchId));
+  if (query.ownerId) conditions.push(eq(audits.ownerId, query.ownerId));
+
+  // Jabatan is stored as the bare code or as "Name (CODE)"
+  if (query.level) {
+    const level = escapeLike(query.level);
+    conditions.push(or(ilike(audits.jabatan, level), ilike(audits.jabatan, `%(${level})`)));
+  }
+
+  if (query.from) conditions.push(gte(audits.createdAt, new Date(`${query.from}T00:00:00`)));
+  if (query.to) {
+    const dayAfter = new Date(`${query.to}T00:00:00`);
+    dayAfter.setDate(dayAfter.getDate() + 1);
+    conditions.push(lt(audits.createdAt, dayAfter));
+  }
+
+  if (query.cursor) conditions.push(cursorCondition(query));
+
+  return conditions.filter((condition): condition is SQL => condition !== undefined);
+}
+
+/**
+ * ORDER BY the chosen column, with the id as tie-breaker so cursors are stable
+ */
+export function auditListOrder(query: AuditListQuery): SQL[] {
+  const direction = query.order === "asc" ? asc : desc;
+  return [direction(SORT_COLUMNS[query.sort]), direction(audits.id)];
+}
+
+/**
+ * Cut a page out of rows fetched with limit + 1, encoding the last row as the next cursor
+ */
+export function toAuditPage<T extends { id: string; createdAt: Date | string }>(rows: T[], query: AuditListQuery): AuditPage<T> {
+  if (!query.limit || rows.length <= query.limit) return { items: rows, nextCursor: null };
+
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1] as T & Record<string, unknown>;
+  const value = query.sort === "createdAt" ? new Date(last.createdAt).getTime() : last[query.sort];
+  return { items, nextCursor: Buffer.from(JSON.stringify([value, last.id])).toString("base64url") };
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Posisi halaman tidak valid, muat ulang daftar");
+    this.name = "InvalidCursorError";
+  }
+}
+
+function cursorCondition(query: AuditListQuery): SQL | undefined {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(query.cursor!, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 2 || typeof decoded[1] !== "string") {
+    throw new InvalidCursorError();
+  }
+
+  const [rawValue, id] = decoded;
+  if (query.sort === "createdAt" && !Number.isFinite(rawValue)) throw new InvalidCursorError();
+  const value = query.sort === "createdAt" ? cursorTimestamp(rawValue) : rawValue;
+  const column = sql`${SORT_COLUMNS[query.sort]}`;
+  const after = query.order === "asc" ? gt : lt;
+  return or(after(column, value), and(eq(column, value), after(audits.id, id)));
+}
+
+/**
+ * Turn a cursor's epoch milliseconds back into the stored timestamp
+ * Timestamps are kept without a zone and read as UTC, so the conversion pins UTC instead of the session time zone
+ */
+export function cursorTimestamp(epochMs: number): SQL {
+  return sql`(to_timestamp(${epochMs}::double precision / 1000) at time zone 'UTC')`;
+}
+
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
@@ -11,13 +11,14 @@ import {
   createUser, 
   registerUser,
   getAllUsers, 
-  deleteUser, 
   updateUserPassword,
   getSecurityQuestion,
   verifySecurityAnswer,
   resetPassword
 } from "./auth";
 import { requireAuth, requireFullAdmin, requireAdmin } from "./middleware";
+import { storage } from "./storage";
+import { recordActivity } from "./activity";
 
 export function registerAuthRoutes(app: Express) {
   /**
@@ -33,6 +34,14 @@ export function registerAuthRoutes(app: Express) {
       const user = await authenticateUser(username, password);
       
       if (!user) {
+        const account = await storage.getUserByUsername(username);
+        await recordActivity(req, {
+          action: "login_failed",
+          actorId: null,
+          targetType: account ? "user" : null,
+          targetId: account?.id ?? null,
+          details: { username },
+        });
         return res.status(401).json({ 
           error: "Invalid credentials",
           userMessage: "Username atau password salah" 
@@ -50,6 +59,14 @@ export function registerAuthRoutes(app: Express) {
         });
       });
       
+      await recordActivity(req, {
+        action: "login",
+        actorId: user.id,
+        targetType: "user",
+        targetId: user.id,
+        details: { username: user.username },
+      });
+      
       // Debug logging
       console.log("Login successful:", {
         sessionId: req.sessionID,
@@ -120,6 +137,13 @@ export function registerAuthRoutes(app: Express) {
       
       // Register user (always creates regular_user)
       const user = await registerUser(userData);
+      await recordActivity(req, {
+        action: "user_create",
+        actorId: user.id,
+        targetType: "user",
+        targetId: user.id,
+        details: { username: user.username, role: user.role, method: "register" },
+      });
       
       // Auto-login after registration
       req.session.userId = user.id;
@@ -183,6 +207,12 @@ export function registerAuthRoutes(app: Express) {
       
       // Create user
       const user = await createUser(userData);
+      await recordActivity(req, {
+        action: "user_create",
+        targetType: "user",
+        targetId: user.id,
+        details: { username: user.username, role: user.role, method: "admin" },
+      });
       
       // Return without password
       const { password: _, ...userWithoutPassword } = user;
@@ -263,6 +293,14 @@ export function registerAuthRoutes(app: Express) {
       
       // Reset password
       await resetPassword(username, newPassword);
+      const account = await storage.getUserByUsername(username);
+      await recordActivity(req, {
+        action: "password_change",
+        actorId: null,
+        targetType: "user",
+        targetId: account?.id ?? null,
+        details: { username, method: "security_question" },
+      });
       
       return res.json({ 
         success: true,
@@ -317,7 +355,14 @@ export function registerAuthRoutes(app: Express) {
         });
       }
       
-      await deleteUser(userId);
+      const account = await storage.getUser(userId);
+      await storage.deleteUser(userId);
+      await recordActivity(req, {
+        action: "user_delete",
+        targetType: "user",
+        targetId: userId,
+        details: { username: account?.username ?? null, name: account?.name ?? null },
+      });
       
       return res.json({ 
         success: true,
@@ -352,6 +397,12 @@ export function registerAuthRoutes(app: Express) {
       }
       
       await updateUserPassword(userId, password);
+      await recordActivity(req, {
+        action: "password_change",
+        targetType: "user",
+        targetId: userId,
+        details: { method: userId === req.user!.id ? "self" : "admin" },
+      });
       
       return res.json({ 
         success: true,
@@ -6,6 +6,7 @@
 import bcrypt from "bcrypt";
 import { pool } from "./db";
 import type { User } from "@shared/schema";
+import { supervisesOwner } from "./hierarchy";
 
 const SALT_ROUNDS = 10;
 
@@ -181,16 +182,6 @@ export async function updateUserPassword(
   );
 }
 
-/**
- * Delete user
- */
-export async function deleteUser(userId: string): Promise<void> {
-  await pool.query(
-    "DELETE FROM users WHERE id = $1",
-    [userId]
-  );
-}
-
 /**
  * Get all users
  */
@@ -219,10 +210,12 @@ export function hasPermission(
 export function canAccessAudit(
   userRole: User["role"],
   userId: string,
-  auditOwnerId: string | null
+  auditOwnerId: string | null,
+  downlineIds: ReadonlySet<string> = new Set()
 ): boolean {
   if (userRole === "full_admin") return true;
   if (userRole === "admin") return true;
+  if (auditOwnerId && supervisesOwner({ id: auditOwnerId }, userId, downlineIds)) return true;
   return userId === auditOwnerId;
 }
 
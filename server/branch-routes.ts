@@ -0,0 +1,111 @@
+/**
+ * Branch Routes for AiSG
+ * Branch and region registry that audits link to for reporting per branch and region
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertBranchSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+
+export function registerBranchRoutes(app: Express) {
+  /**
+   * GET /api/branches
+   * List all branches grouped by region (any logged-in user, used by the NewAudit branch picker)
+   */
+  app.get("/api/branches", requireAuth, async (_req: Request, res: Response) => {
+    try {
+      const allBranches = await storage.getBranches();
+      res.json(allBranches);
+    } catch (error) {
+      console.error("Error fetching branches:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/admin/branches
+   * Create a new branch (Admin only)
+   */
+  app.post("/api/admin/branches", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = insertBranchSchema.parse(req.body);
+      const branch = await storage.createBranch(validated);
+      res.status(201).json(branch);
+    } catch (error: any) {
+      handleBranchError(res, error, "Error creating branch:");
+    }
+  });
+
+  /**
+   * PATCH /api/admin/branches/:id
+   * Rename a branch or move it to another region (Admin only)
+   * Linked audits follow the new name
+   */
+  app.patch("/api/admin/branches/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getBranch(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Branch not found" });
+        return;
+      }
+
+      const validated = insertBranchSchema.partial().parse(req.body);
+      const branch = await storage.updateBranch(existing.id, validated);
+      res.json(branch);
+    } catch (error: any) {
+      handleBranchError(res, error, "Error updating branch:");
+    }
+  });
+
+  /**
+   * DELETE /api/admin/branches/:id
+   * Remove a branch without audits (Admin only)
+   */
+  app.delete("/api/admin/branches/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getBranch(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Branch not found" });
+        return;
+      }
+
+      const linkedAudits = (await storage.getAllAudits(true)).filter(audit => audit.branchId === existing.id);
+      if (linkedAudits.length > 0) {
+        res.status(409).json({
+          error: "Branch in use",
+          userMessage: `Cabang ${existing.name} masih dipakai oleh ${linkedAudits.length} audit`
+        });
+        return;
+      }
+
+      await storage.deleteBranch(existing.id);
+      res.json({ success: true, message: "Branch deleted" });
+    } catch (error) {
+      console.error("Error deleting branch:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
+
+function handleBranchError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else if (error.code === "23505") {
+    // Unique constraint violation (duplicate branch name)
+    res.status(409).json({
+      error: "Branch already exists",
+      userMessage: "Nama cabang sudah terdaftar"
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
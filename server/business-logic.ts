@@ -1,4 +1,7 @@
-import { InsertAudit } from "@shared/schema";
+import { InsertAudit, type Audit, type ActionPlanItem, type FeedbackCampaign, type FeedbackResponse, type InsertCareerLevel, type ScoringRules } from "@shared/schema";
+import { FALLBACK_LEVEL_TARGETS, resolveCareerLevel } from "@shared/career-levels";
+import { parsePeriodeAudit, periodFromDate } from "@shared/audit-period";
+import { applyPillarRule, DEFAULT_SUPERVISOR_WEIGHT, DEFAULT_PEER_WEIGHT, type ScoringVariables } from "./scoring-rules";
 
 // ============================================
 // CONSTANTS & DATA
@@ -108,38 +111,83 @@ const ZODIAC_BOOSTERS: Record<string, { name: string; genZ: string; millennial:
 };
 
 // ============================================
-// HELPER FUNCTIONS
+// SCORING CONTEXT
 // ============================================
 
-function getCurrentQuarter(date: Date = new Date()): { quarter: string; quarterNum: number; sisaHari: number } {
-  const month = date.getMonth() + 1;
-  const year = date.getFullYear();
-  
-  let quarterNum: number;
-  let endMonth: number;
-  
-  if (month >= 1 && month <= 3) {
-    quarterNum = 1;
-    endMonth = 3;
-  } else if (month >= 4 && month <= 6) {
-    quarterNum = 2;
-    endMonth = 6;
-  } else if (month >= 7 && month <= 9) {
-    quarterNum = 3;
-    endMonth = 9;
-  } else {
-    quarterNum = 4;
-    endMonth = 12;
+// Engine input: new audits always carry periodeAudit, legacy rows being re-scored may not
+// Supervisor scores and 360 feedback are never part of the audit form, they are stored on the audit later
+type AuditInput = Omit<InsertAudit, "periodeAudit" | "pillarAnswers"> & {
+  periodeAudit?: string | null;
+  pillarAnswers: Array<{ pillarId: number; selfScore: number; supervisorScore?: number | null }>;
+  peerFeedback?: Audit["peerFeedback"];
+};
+
+// Reference data the engine reads from the database (passed in by the storage layer)
+export interface ScoringContext {
+  careerLevels: InsertCareerLevel[];
+  scoringRules: { version: number; rules: ScoringRules }; // Active published rule set
+}
+
+interface LevelTargets {
+  code: string;
+  targetMargin: number; // Quarterly
+  expectedTeam: number;
+  targetNA: number; // Quarterly
+  nextLevel: string;
+}
+
+function getLevelTargets(jabatan: string, careerLevels: InsertCareerLevel[]): LevelTargets {
+  const level = resolveCareerLevel(jabatan, careerLevels);
+  
+  if (!level) {
+    return {
+      code: jabatan,
+      targetMargin: FALLBACK_LEVEL_TARGETS.targetMarginQuarterly,
+      expectedTeam: FALLBACK_LEVEL_TARGETS.expectedTeamSize,
+      targetNA: FALLBACK_LEVEL_TARGETS.targetNA,
+      nextLevel: "Next Level"
+    };
   }
   
-  const quarterEndDate = new Date(year, endMonth, 0); // Last day of end month
-  const today = new Date();
-  const diffTime = quarterEndDate.getTime() - today.getTime();
+  return {
+    code: level.code,
+    targetMargin: level.targetMarginQuarterly ?? 0,
+    expectedTeam: level.expectedTeamSize ?? 0,
+    targetNA: level.targetNA ?? 0,
+    nextLevel: level.nextLevelCode || "Next Level"
+  };
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+interface QuarterInfo {
+  quarter: string; // "Q1" | "Q2" | "Q3" | "Q4"
+  quarterNum: number;
+  year: number;
+  label: string; // "Q3 2025"
+  sisaHari: number;
+}
+
+/**
+ * Resolve the audited quarter from periodeAudit (legacy audits fall back to the audit date)
+ * sisaHari counts the days left in that quarter as of the audit date
+ */
+function getAuditQuarter(periodeAudit: string | null | undefined, auditedAt: Date): QuarterInfo {
+  const { year, quarterNum } = parsePeriodeAudit(periodeAudit) ?? periodFromDate(auditedAt);
+  
+  const quarterStartDate = new Date(year, (quarterNum - 1) * 3, 1);
+  const quarterEndDate = new Date(year, quarterNum * 3, 0); // Last day of end month
+  const reference = auditedAt < quarterStartDate ? quarterStartDate : auditedAt;
+  const diffTime = quarterEndDate.getTime() - reference.getTime();
   const sisaHari = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   
   return {
     quarter: `Q${quarterNum}`,
     quarterNum,
+    year,
+    label: `Q${quarterNum} ${year}`,
     sisaHari: Math.max(0, sisaHari)
   };
 }
@@ -174,107 +222,86 @@ function getZodiacSign(tanggalLahir: string): string {
 // REALITY SCORE CALCULATOR
 // ============================================
 
-function calculateRealityScores(data: InsertAudit): Array<{
+/**
+ * Weighted average of the self score with the available outside opinions
+ * Outside weights are taken as-is; the self score gets whatever share is left
+ */
+function blendAssessments(selfScore: number, others: Array<{ score: number | null; weight: number }>): number {
+  const available = others.filter((o): o is { score: number; weight: number } => o.score !== null);
+  const othersWeight = available.reduce((sum, o) => sum + o.weight, 0);
+  const selfWeight = Math.max(0, 1 - othersWeight);
+  const totalWeight = selfWeight + othersWeight;
+  if (totalWeight === 0) return selfScore;
+  
+  const weighted = selfScore * selfWeight + available.reduce((sum, o) => sum + o.score * o.weight, 0);
+  return Math.min(5, Math.max(1, Math.round(weighted / totalWeight)));
+}
+
+function calculateRealityScores(data: AuditInput, level: LevelTargets, rules: ScoringRules, quarterInfo: QuarterInfo): Array<{
   pillarId: number;
   pillarName: string;
   selfScore: number;
+  supervisorScore: number | null;
+  peerScore: number | null;
+  dataScore: number | null;
   realityScore: number;
   gap: number;
   insight: string;
 }> {
-  const { quarterNum } = getCurrentQuarter();
+  const { quarterNum } = quarterInfo;
   
-  // Get current quarter data
-  const marginCurrentQ = [data.marginTimQ1, data.marginTimQ2, data.marginTimQ3, data.marginTimQ4][quarterNum - 1];
-  const naCurrentQ = [data.naTimQ1, data.naTimQ2, data.naTimQ3, data.naTimQ4][quarterNum - 1];
+  // Get audited quarter data
+  const margins = [data.marginTimQ1, data.marginTimQ2, data.marginTimQ3, data.marginTimQ4];
+  const nas = [data.naTimQ1, data.naTimQ2, data.naTimQ3, data.naTimQ4];
   
   const totalTeam = data.jumlahBC + data.jumlahSBC + data.jumlahBsM + data.jumlahSBM + data.jumlahEM + data.jumlahSEM + data.jumlahVBM;
   
+  // Variables exposed to rule expressions
+  const baseVariables: Omit<ScoringVariables, "selfScore"> = {
+    naCurrentQ: nas[quarterNum - 1],
+    marginCurrentQ: margins[quarterNum - 1],
+    totalTeam,
+    targetMargin: level.targetMargin,
+    expectedTeam: level.expectedTeam,
+    targetNA: level.targetNA,
+    activeQuarters: margins.filter(m => m > 0).length,
+    marginQ1: margins[0], marginQ2: margins[1], marginQ3: margins[2], marginQ4: margins[3],
+    naQ1: nas[0], naQ2: nas[1], naQ3: nas[2], naQ4: nas[3],
+  };
+  
+  const supervisorWeight = rules.supervisorWeight ?? DEFAULT_SUPERVISOR_WEIGHT;
+  const peerWeight = rules.peerWeight ?? DEFAULT_PEER_WEIGHT;
+  
   return data.pillarAnswers.map(p => {
     let realityScore = p.selfScore; // Default: trust self-assessment
     let insight = "";
+    let dataScore: number | null = null;
+    const supervisorScore = p.supervisorScore ?? null;
+    const peerScore = data.peerFeedback?.pillars.find(f => f.pillarId === p.pillarId)?.avgScore ?? null;
     
-    // P1: Kemampuan Mencari Calon Nasabah - based on NA
-    if (p.pillarId === 1) {
-      if (naCurrentQ >= 3) realityScore = 5;
-      else if (naCurrentQ === 2) realityScore = 4;
-      else if (naCurrentQ === 1) realityScore = 3;
-      else realityScore = 2;
-      
-      insight = naCurrentQ > 0 
-        ? `NA kuartal ini: ${naCurrentQ}. ${realityScore >= 4 ? "Prospecting bagus!" : "Perlu lebih aktif mencari calon nasabah."}`
-        : "Belum ada NA di kuartal ini. Focus prospecting!";
-    }
-    
-    // P4: Kaderisasi - based on team structure
-    else if (p.pillarId === 4) {
-      const subordinates = data.jabatan.includes("BC") ? 0 : totalTeam;
-      if (subordinates >= 10) realityScore = 5;
-      else if (subordinates >= 5) realityScore = 4;
-      else if (subordinates >= 2) realityScore = 3;
-      else if (subordinates === 1) realityScore = 2;
-      else realityScore = 1;
-      
-      insight = subordinates > 0
-        ? `Tim: ${subordinates} orang. ${realityScore >= 4 ? "Kaderisasi berjalan baik." : "Perlu lebih aktif mencetak kader baru."}`
-        : "Belum punya tim. Kaderisasi harus jadi prioritas utama!";
-    }
-    
-    // P5: Pencapaian Target - based on margin vs target
-    else if (p.pillarId === 5) {
-      const targetMargin = getTargetMarginByLevel(data.jabatan);
-      const achievement = targetMargin > 0 ? (marginCurrentQ / targetMargin) * 100 : 0;
-      
-      if (achievement >= 100) realityScore = 5;
-      else if (achievement >= 80) realityScore = 4;
-      else if (achievement >= 60) realityScore = 3;
-      else if (achievement >= 40) realityScore = 2;
-      else realityScore = 1;
-      
-      insight = `Margin: $${marginCurrentQ.toLocaleString()} (${Math.round(achievement)}% dari target). ${realityScore >= 4 ? "Target terpenuhi!" : "Perlu boost closing!"}`;
-    }
-    
-    // P7: Kelengkapan Struktur Tim
-    else if (p.pillarId === 7) {
-      const expectedTeam = getExpectedTeamByLevel(data.jabatan);
-      const completeness = expectedTeam > 0 ? (totalTeam / expectedTeam) * 100 : 100;
-      
-      if (completeness >= 100) realityScore = 5;
-      else if (completeness >= 75) realityScore = 4;
-      else if (completeness >= 50) realityScore = 3;
-      else if (completeness >= 25) realityScore = 2;
-      else realityScore = 1;
-      
-      insight = `Struktur tim: ${Math.round(completeness)}% lengkap. ${realityScore >= 4 ? "Struktur solid!" : "Perlu lengkapi struktur tim."}`;
-    }
+    const rule = rules.pillars.find(r => r.pillarId === p.pillarId);
     
-    // P9: Produktivitas Pimpinan - based on margin per team member
-    else if (p.pillarId === 9) {
-      const marginPerMember = totalTeam > 0 ? marginCurrentQ / totalTeam : marginCurrentQ;
-      
-      if (marginPerMember >= 20000) realityScore = 5;
-      else if (marginPerMember >= 15000) realityScore = 4;
-      else if (marginPerMember >= 10000) realityScore = 3;
-      else if (marginPerMember >= 5000) realityScore = 2;
-      else realityScore = 1;
-      
-      insight = totalTeam > 0
-        ? `Produktivitas: $${Math.round(marginPerMember).toLocaleString()}/orang. ${realityScore >= 4 ? "Tim produktif!" : "Perlu tingkatkan output per member."}`
-        : "Belum punya tim untuk diukur produktivitasnya.";
+    // Measurable pillars: score from the published rule set
+    if (rule) {
+      ({ realityScore, insight } = applyPillarRule(rule, { ...baseVariables, selfScore: p.selfScore }));
+      dataScore = realityScore;
     }
     
-    // P13: Disiplin & Konsistensi - based on quarterly consistency
-    else if (p.pillarId === 13) {
-      const margins = [data.marginTimQ1, data.marginTimQ2, data.marginTimQ3, data.marginTimQ4];
-      const nonZeroMargins = margins.filter(m => m > 0);
-      
-      if (nonZeroMargins.length >= 4) realityScore = 5;
-      else if (nonZeroMargins.length === 3) realityScore = 4;
-      else if (nonZeroMargins.length === 2) realityScore = 3;
-      else if (nonZeroMargins.length === 1) realityScore = 2;
-      else realityScore = 1;
-      
-      insight = `Konsistensi: ${nonZeroMargins.length}/4 kuartal aktif. ${realityScore >= 4 ? "Disiplin terjaga!" : "Perlu lebih konsisten setiap kuartal."}`;
+    // Non-measurable pillars with a supervisor assessment and/or 360 feedback: blend them with the self score
+    else if (supervisorScore !== null || peerScore !== null) {
+      realityScore = blendAssessments(p.selfScore, [
+        { score: supervisorScore, weight: supervisorWeight },
+        { score: peerScore, weight: peerWeight },
+      ]);
+      const assessor = supervisorScore !== null ? "Atasan" : "Rekan & bawahan";
+      const difference = p.selfScore - (supervisorScore ?? peerScore!);
+      if (difference >= 2) {
+        insight = `${assessor} menilai ${supervisorScore ?? peerScore}, jauh di bawah self-assessment. Diskusikan contoh perilaku konkret bersama atasan.`;
+      } else if (difference <= -2) {
+        insight = `${assessor} menilai ${supervisorScore ?? peerScore}, lebih tinggi dari self-assessment. Kekuatan ini sudah terlihat, manfaatkan!`;
+      } else {
+        insight = realityScore >= 4 ? `Penilaian diri dan ${assessor.toLowerCase()} sejalan. Performa baik, pertahankan!` : `Penilaian diri dan ${assessor.toLowerCase()} sejalan. Ada ruang untuk improvement.`;
+      }
     }
     
     // Other pillars: trust self-assessment but add insight
@@ -295,6 +322,9 @@ function calculateRealityScores(data: InsertAudit): Array<{
       pillarId: p.pillarId,
       pillarName: PILAR_NAMES[p.pillarId - 1],
       selfScore: p.selfScore,
+      supervisorScore,
+      peerScore,
+      dataScore,
       realityScore,
       gap,
       insight
@@ -302,35 +332,20 @@ function calculateRealityScores(data: InsertAudit): Array<{
   });
 }
 
-function getTargetMarginByLevel(jabatan: string): number {
-  if (jabatan.includes("BC")) return 5000;
-  if (jabatan.includes("SBC")) return 125000 / 4; // Quarterly
-  if (jabatan.includes("BSM") || jabatan.includes("BsM")) return 200000 / 4;
-  if (jabatan.includes("SBM")) return 300000 / 4;
-  if (jabatan.includes("EM")) return 400000 / 4;
-  if (jabatan.includes("SEM")) return 500000 / 4;
-  if (jabatan.includes("VBM")) return 600000 / 4;
-  return 10000;
-}
-
-function getExpectedTeamByLevel(jabatan: string): number {
-  if (jabatan.includes("BC")) return 0;
-  if (jabatan.includes("SBC")) return 3;
-  if (jabatan.includes("BSM") || jabatan.includes("BsM")) return 10;
-  if (jabatan.includes("SBM")) return 20;
-  if (jabatan.includes("EM")) return 30;
-  if (jabatan.includes("SEM")) return 40;
-  if (jabatan.includes("VBM")) return 50;
-  return 5;
-}
-
 // ============================================
 // AUDIT REPORT GENERATOR (12 Sections)
 // ============================================
 
-export function processAuditData(data: InsertAudit) {
+export function processAuditData(data: AuditInput, context: ScoringContext, auditedAt: Date = new Date()) {
+  // Resolve jabatan against the career level catalog
+  const level = getLevelTargets(data.jabatan, context.careerLevels);
+  
+  // Audited quarter (from periodeAudit, never from the server clock alone)
+  const quarterInfo = getAuditQuarter(data.periodeAudit, auditedAt);
+  
   // Calculate Reality Scores
-  const pillarScores = calculateRealityScores(data);
+  const { version: scoringRuleVersion, rules } = context.scoringRules;
+  const pillarScores = calculateRealityScores(data, level, rules, quarterInfo);
   
   const totalSelfScore = pillarScores.reduce((sum, p) => sum + p.selfScore, 0);
   const totalRealityScore = pillarScores.reduce((sum, p) => sum + p.realityScore, 0);
@@ -338,8 +353,8 @@ export function processAuditData(data: InsertAudit) {
   
   // Determine Zona Final (based on Reality Score, scale 0-90)
   let zonaFinal: "hijau" | "kuning" | "merah";
-  if (totalRealityScore >= 75) zonaFinal = "hijau";
-  else if (totalRealityScore >= 51) zonaFinal = "kuning";
+  if (totalRealityScore >= rules.zoneThresholds.hijau) zonaFinal = "hijau";
+  else if (totalRealityScore >= rules.zoneThresholds.kuning) zonaFinal = "kuning";
   else zonaFinal = "merah";
   
   // Zona Kinerja & Perilaku (legacy compatibility)
@@ -349,17 +364,16 @@ export function processAuditData(data: InsertAudit) {
   // Profile Classification
   const profil = classifyProfile(totalRealityScore, pillarScores);
   
-  // Current Quarter Info
-  const quarterInfo = getCurrentQuarter();
+  // Audited Quarter Data
   const { quarterNum } = quarterInfo;
   const marginCurrentQ = [data.marginTimQ1, data.marginTimQ2, data.marginTimQ3, data.marginTimQ4][quarterNum - 1];
   const naCurrentQ = [data.naTimQ1, data.naTimQ2, data.naTimQ3, data.naTimQ4][quarterNum - 1];
   
   // Generate 12-Section Audit Report
-  const auditReport = generate12SectionReport(data, pillarScores, totalRealityScore, totalGap, zonaFinal, quarterInfo, marginCurrentQ, naCurrentQ);
+  const auditReport = generate12SectionReport(data, level, pillarScores, totalRealityScore, totalGap, zonaFinal, quarterInfo, marginCurrentQ, naCurrentQ);
   
   // Generate ProDem Recommendation
-  const prodemRekomendasi = generateProDemRecommendation(data, totalRealityScore, zonaFinal, quarterInfo, marginCurrentQ);
+  const prodemRekomendasi = generateProDemRecommendation(data, level, totalRealityScore, zonaFinal, quarterInfo, marginCurrentQ);
   
   // Generate Magic Section
   const magicSection = generateMagicSection(data, profil, pillarScores, auditReport.coachingPoints);
@@ -373,6 +387,7 @@ export function processAuditData(data: InsertAudit) {
     zonaPerilaku,
     zonaFinal,
     profil,
+    scoringRuleVersion,
     auditReport,
     prodemRekomendasi,
     magicSection
@@ -393,16 +408,18 @@ function classifyProfile(totalRealityScore: number, pillarScores: any[]): "Leade
 }
 
 function generate12SectionReport(
-  data: InsertAudit,
+  data: AuditInput,
+  level: LevelTargets,
   pillarScores: any[],
   totalRealityScore: number,
   totalGap: number,
   zonaFinal: string,
-  quarterInfo: any,
+  quarterInfo: QuarterInfo,
   marginCurrentQ: number,
   naCurrentQ: number
 ) {
-  const targetMargin = getTargetMarginByLevel(data.jabatan);
+  const targetMargin = level.targetMargin;
+  const targetNA = level.targetNA;
   const totalTeam = data.jumlahBC + data.jumlahSBC + data.jumlahBsM + data.jumlahSBM;
   
   // 0. Executive Summary
@@ -416,12 +433,12 @@ function generate12SectionReport(
   // 1. Insight Lengkap
   const trendMargin = marginCurrentQ > targetMargin ? "over target" : "perlu boost";
   const insightLengkap = `Posisi: ${data.jabatan} di ${data.cabang}. Tim: ${totalTeam} orang aktif. ` +
-    `Margin ${quarterInfo.quarter}: $${marginCurrentQ.toLocaleString()} (${trendMargin}). NA: ${naCurrentQ}. ` +
+    `Margin ${quarterInfo.label}: $${marginCurrentQ.toLocaleString()} (${trendMargin}). NA: ${naCurrentQ}. ` +
     `Karakter: ${totalRealityScore >= 75 ? "Disiplin tinggi, produktif, kaderisasi kuat" : "Perlu perbaikan konsistensi dan team building"}. ` +
     `Fit & Future: ${zonaFinal === "hijau" ? "Siap promosi dalam 90 hari" : "Perlu fokus perbaikan sebelum promosi"}.`;
   
   // 2. SWOT Analysis
-  const swotAnalysis = generateSWOT(pillarScores, data, marginCurrentQ, totalGap);
+  const swotAnalysis = generateSWOT(pillarScores, data, marginCurrentQ, targetMargin, totalGap);
   
   // 3. Coaching Points
   const coachingPoints = generateCoachingPoints(pillarScores, zonaFinal, data);
@@ -436,9 +453,9 @@ function generate12SectionReport(
     targetMargin,
     realisasiMargin: marginCurrentQ,
     percentageMargin: targetMargin > 0 ? Math.round((marginCurrentQ / targetMargin) * 100) : 0,
-    targetNA: 2,
+    targetNA,
     realisasiNA: naCurrentQ,
-    percentageNA: Math.round((naCurrentQ / 2) * 100),
+    percentageNA: targetNA > 0 ? Math.round((naCurrentQ / targetNA) * 100) : 0,
     catatan: marginCurrentQ >= targetMargin ? "Target tercapai!" : marginCurrentQ >= targetMargin * 0.8 ? "Cukup, perlu ditingkatkan" : "Under target, perlu perhatian khusus"
   };
   
@@ -461,11 +478,44 @@ function generate12SectionReport(
     actionPlan,
     progressKuartal,
     ews,
-    kesesuaianVisi
+    kesesuaianVisi,
+    ...(data.peerFeedback ? { feedback360: generateFeedback360(data.peerFeedback, pillarScores) } : {})
   };
 }
 
-function generateSWOT(pillarScores: any[], data: InsertAudit, marginCurrentQ: number, totalGap: number) {
+// 8. Umpan Balik 360 (only once a campaign reached its minimum responses)
+function generateFeedback360(peerFeedback: NonNullable<Audit["peerFeedback"]>, pillarScores: any[]) {
+  const pillars = peerFeedback.pillars.map(f => {
+    const pilar = pillarScores.find(p => p.pillarId === f.pillarId);
+    return {
+      pillarId: f.pillarId,
+      pillarName: PILAR_NAMES[f.pillarId - 1],
+      selfScore: pilar?.selfScore ?? 0,
+      peerScore: f.avgScore,
+    };
+  });
+  
+  const highest = [...pillars].sort((a, b) => b.peerScore - a.peerScore)[0];
+  const lowest = [...pillars].sort((a, b) => a.peerScore - b.peerScore)[0];
+  const widestGap = [...pillars].sort((a, b) => Math.abs(b.selfScore - b.peerScore) - Math.abs(a.selfScore - a.peerScore))[0];
+  
+  let narasi = `Berdasarkan ${peerFeedback.responseCount} respon anonim dari rekan dan bawahan, nilai tertinggi ada di ${highest.pillarName} (${highest.peerScore})`;
+  narasi += pillars.length > 1 ? ` dan terendah di ${lowest.pillarName} (${lowest.peerScore}).` : ".";
+  if (Math.abs(widestGap.selfScore - widestGap.peerScore) >= 1) {
+    narasi += ` Selisih terbesar dengan self-assessment ada di ${widestGap.pillarName}: self ${widestGap.selfScore} vs 360 ${widestGap.peerScore}.`;
+  } else {
+    narasi += " Penilaian diri sejalan dengan persepsi tim.";
+  }
+  
+  return {
+    responseCount: peerFeedback.responseCount,
+    pillars,
+    comments: peerFeedback.comments,
+    narasi,
+  };
+}
+
+function generateSWOT(pillarScores: any[], data: AuditInput, marginCurrentQ: number, targetMargin: number, totalGap: number) {
   const strength: string[] = [];
   const weakness: string[] = [];
   const opportunity: string[] = [];
@@ -485,7 +535,6 @@ function generateSWOT(pillarScores: any[], data: InsertAudit, marginCurrentQ: nu
   if (marginCurrentQ > 0) {
     opportunity.push("Momentum margin positif bisa dioptimalkan untuk ekspansi tim");
   }
-  const targetMargin = getTargetMarginByLevel(data.jabatan);
   if (marginCurrentQ >= targetMargin * 0.8) {
     opportunity.push("Hampir mencapai target, sedikit lagi untuk breakthrough promosi");
   }
@@ -506,7 +555,7 @@ function generateSWOT(pillarScores: any[], data: InsertAudit, marginCurrentQ: nu
   return { strength, weakness, opportunity, threat };
 }
 
-function generateCoachingPoints(pillarScores: any[], zonaFinal: string, data: InsertAudit): string[] {
+function generateCoachingPoints(pillarScores: any[], zonaFinal: string, data: AuditInput): string[] {
   const points: string[] = [];
   
   // Identify critical pillars with low score
@@ -538,7 +587,7 @@ function generateCoachingPoints(pillarScores: any[], zonaFinal: string, data: In
   return points.slice(0, 3);
 }
 
-function generateActionPlan(coachingPoints: string[], data: InsertAudit) {
+function generateActionPlan(coachingPoints: string[], data: AuditInput) {
   return [
     {
       periode: "30 Hari",
@@ -614,14 +663,14 @@ function generateEWS(pillarScores: any[], totalGap: number, zonaFinal: string, m
 }
 
 function generateProDemRecommendation(
-  data: InsertAudit,
+  data: AuditInput,
+  level: LevelTargets,
   totalRealityScore: number,
   zonaFinal: string,
-  quarterInfo: any,
+  quarterInfo: QuarterInfo,
   marginCurrentQ: number
 ) {
-  const level = data.jabatan.match(/\(([A-Z]+)\)/)?.[1] || "BC";
-  const targetMargin = getTargetMarginByLevel(data.jabatan);
+  const targetMargin = level.targetMargin;
   const totalTeam = data.jumlahBC + data.jumlahSBC + data.jumlahBsM + data.jumlahSBM;
   
   let recommendation: "Promosi" | "Dipertahankan" | "Pembinaan" | "Demosi";
@@ -642,14 +691,14 @@ function generateProDemRecommendation(
   } else if (zonaFinal === "kuning" || totalRealityScore < 65) {
     recommendation = "Pembinaan";
     reason = `Reality Score ${totalRealityScore}/90 di zona kuning. Perlu perbaikan pada margin dan kaderisasi.`;
-    konsekuensi = "Status bertahan namun tidak eligible untuk promosi di kuartal ini.";
+    konsekuensi = `Status bertahan namun tidak eligible untuk promosi di ${quarterInfo.label}.`;
     nextStep = "Focus pada action plan 60 hari, review bi-weekly dengan atasan.";
     strategyType = marginCurrentQ >= targetMargin * 0.75 ? "Save by Margin" : "Save by Staff";
   } else if (totalRealityScore >= 75 && marginCurrentQ >= targetMargin) {
     recommendation = "Promosi";
-    nextLevel = getNextLevel(level);
-    reason = `Reality Score ${totalRealityScore}/90 di zona hijau. Target margin kuartal tercapai ($${marginCurrentQ.toLocaleString()}).`;
-    konsekuensi = "Promosi akan diproses di akhir kuartal jika konsistensi terjaga.";
+    nextLevel = level.nextLevel;
+    reason = `Reality Score ${totalRealityScore}/90 di zona hijau. Target margin ${quarterInfo.label} tercapai ($${marginCurrentQ.toLocaleString()}).`;
+    konsekuensi = `Promosi akan diproses di akhir ${quarterInfo.label} jika konsistensi terjaga.`;
     nextStep = "Persiapkan transisi ke ${nextLevel}, mulai training untuk tanggung jawab baru.";
     
     requirements.push(
@@ -666,7 +715,7 @@ function generateProDemRecommendation(
   }
   
   return {
-    currentLevel: `${level} (${data.jabatan})`,
+    currentLevel: `${level.code} (${data.jabatan})`,
     recommendation,
     nextLevel,
     reason,
@@ -677,21 +726,7 @@ function generateProDemRecommendation(
   };
 }
 
-function getNextLevel(currentLevel: string): string {
-  const hierarchy: Record<string, string> = {
-    "BC": "SBC",
-    "SBC": "BSM/BsM",
-    "BSM": "SBM",
-    "BsM": "SBM",
-    "SBM": "EM",
-    "EM": "SEM",
-    "SEM": "VBM",
-    "VBM": "BM"
-  };
-  return hierarchy[currentLevel] || "Next Level";
-}
-
-function generateMagicSection(data: InsertAudit, profil: string, pillarScores: any[], coachingPoints: string[]) {
+function generateMagicSection(data: AuditInput, profil: string, pillarScores: any[], coachingPoints: string[]) {
   const zodiacSign = getZodiacSign(data.tanggalLahir);
   const generasi = getGenerationFromBirthdate(data.tanggalLahir);
   const zodiacData = ZODIAC_BOOSTERS[zodiacSign];
@@ -725,3 +760,90 @@ function generateMagicSection(data: InsertAudit, profil: string, pillarScores: a
     quote
   };
 }
+
+// ============================================
+// 360 FEEDBACK
+// ============================================
+
+/**
+ * Anonymised aggregate of a campaign: per-pillar averages (1 decimal) and alphabetically sorted comments
+ * Returns null until the campaign has its minimum number of responses
+ */
+export function aggregatePeerFeedback(campaign: FeedbackCampaign, responses: FeedbackResponse[], now: Date = new Date()): Audit["peerFeedback"] {
+  if (responses.length < campaign.minResponses) return null;
+  
+  const pillars = campaign.pillarIds
+    .map(pillarId => {
+      const scores = responses.flatMap(r => r.scores.filter(s => s.pillarId === pillarId).map(s => s.score));
+      return scores.length > 0
+        ? { pillarId, avgScore: Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length * 10) / 10 }
+        : null;
+    })
+    .filter((p): p is { pillarId: number; avgScore: number } => p !== null);
+  
+  const comments = responses
+    .map(r => r.comment?.trim())
+    .filter((c): c is string => !!c)
+    .sort((a, b) => a.localeCompare(b));
+  
+  return {
+    campaignId: campaign.id,
+    responseCount: responses.length,
+    pillars,
+    comments,
+    aggregatedAt: now.toISOString(),
+  };
+}
+
+// ============================================
+// ACTION PLAN TRACKING
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ActionPlanRow = Audit["auditReport"]["actionPlan"][number];
+type EwsRow = Audit["auditReport"]["ews"][number];
+
+/**
+ * Turn the generated 30-60-90 plan into task rows; due dates count from the audit date
+ */
+export function buildActionPlanItems(auditId: string, actionPlan: ActionPlanRow[], auditedAt: Date) {
+  return actionPlan.map((plan, idx) => {
+    const offsetDays = parseInt(plan.periode, 10) || (idx + 1) * 30;
+    return {
+      auditId,
+      periode: plan.periode,
+      offsetDays,
+      target: plan.target,
+      aktivitas: plan.aktivitas,
+      pic: plan.pic,
+      output: plan.output,
+      dueDate: new Date(auditedAt.getTime() + offsetDays * DAY_MS),
+    };
+  });
+}
+
+export function isActionPlanItemOverdue(item: Pick<ActionPlanItem, "status" | "dueDate">, now: Date = new Date()): boolean {
+  return item.status !== "selesai" && new Date(item.dueDate).getTime() < now.getTime();
+}
+
+/**
+ * Add overdue action plan items to the stored EWS list
+ * The "No Critical Issues" note is dropped once something is overdue
+ */
+export function mergeOverdueEWS(ews: EwsRow[], items: ActionPlanItem[], now: Date = new Date()): EwsRow[] {
+  const overdue = items.filter(item => isActionPlanItemOverdue(item, now));
+  if (overdue.length === 0) return ews;
+
+  const warnings = overdue.map(item => {
+    const daysLate = Math.ceil((now.getTime() - new Date(item.dueDate).getTime()) / DAY_MS);
+    return {
+      faktor: `Action Plan ${item.periode} Terlambat`,
+      indikator: `${item.target} - progress ${item.progress}%, lewat ${daysLate} hari`,
+      risiko: "Rencana perbaikan tidak dieksekusi, gap performa tidak tertutup",
+      saranCepat: item.progress > 0 ? "Selesaikan sisa aktivitas dan update bukti progress" : "Mulai aktivitas minggu ini dan laporkan check-in ke atasan"
+    };
+  });
+
+  return [...ews.filter(e => e.faktor !== "No Critical Issues"), ...warnings];
+}
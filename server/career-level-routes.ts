@@ -0,0 +1,146 @@
+/**
+ * Career Level Routes for AiSG
+ * Catalog of jabatan levels (targets, team size, hierarchy) used by the scoring engine
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertCareerLevelSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+
+export function registerCareerLevelRoutes(app: Express) {
+  /**
+   * GET /api/career-levels
+   * List all career levels ordered by rank (any logged-in user, used by NewAudit)
+   */
+  app.get("/api/career-levels", requireAuth, async (_req: Request, res: Response) => {
+    try {
+      const levels = await storage.getCareerLevels();
+      res.json(levels);
+    } catch (error) {
+      console.error("Error fetching career levels:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/admin/career-levels
+   * Create a new career level (Admin only)
+   */
+  app.post("/api/admin/career-levels", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = insertCareerLevelSchema.parse(req.body);
+
+      if (!(await isValidNextLevel(validated.nextLevelCode, validated.code))) {
+        res.status(400).json({
+          error: "Invalid next level",
+          userMessage: `Level berikutnya "${validated.nextLevelCode}" tidak ditemukan`
+        });
+        return;
+      }
+
+      const level = await storage.createCareerLevel(validated);
+      res.status(201).json(level);
+    } catch (error: any) {
+      handleCareerLevelError(res, error, "Error creating career level:");
+    }
+  });
+
+  /**
+   * PATCH /api/admin/career-levels/:id
+   * Update targets or hierarchy of a career level (Admin only)
+   * The code is fixed once created: audits and other levels refer to it by value
+   */
+  app.patch("/api/admin/career-levels/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getCareerLevel(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Career level not found" });
+        return;
+      }
+
+      const validated = insertCareerLevelSchema.partial().parse(req.body);
+
+      if (validated.code !== undefined && validated.code !== existing.code) {
+        res.status(400).json({
+          error: "Career level code is immutable",
+          userMessage: `Kode level ${existing.code} tidak bisa diubah; buat level baru bila perlu kode lain`
+        });
+        return;
+      }
+
+      if (!(await isValidNextLevel(validated.nextLevelCode, existing.code))) {
+        res.status(400).json({
+          error: "Invalid next level",
+          userMessage: `Level berikutnya "${validated.nextLevelCode}" tidak ditemukan`
+        });
+        return;
+      }
+
+      const level = await storage.updateCareerLevel(req.params.id, validated);
+      res.json(level);
+    } catch (error: any) {
+      handleCareerLevelError(res, error, "Error updating career level:");
+    }
+  });
+
+  /**
+   * DELETE /api/admin/career-levels/:id
+   * Remove a career level (Admin only)
+   */
+  app.delete("/api/admin/career-levels/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getCareerLevel(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Career level not found" });
+        return;
+      }
+
+      const levels = await storage.getCareerLevels();
+      const referencedBy = levels.find(l => l.nextLevelCode === existing.code);
+      if (referencedBy) {
+        res.status(409).json({
+          error: "Career level in use",
+          userMessage: `Level ${existing.code} masih menjadi level berikutnya dari ${referencedBy.code}`
+        });
+        return;
+      }
+
+      await storage.deleteCareerLevel(req.params.id);
+      res.json({ success: true, message: "Career level deleted" });
+    } catch (error) {
+      console.error("Error deleting career level:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
+
+async function isValidNextLevel(nextLevelCode: string | null | undefined, ownCode: string): Promise<boolean> {
+  if (!nextLevelCode) return true;
+  if (nextLevelCode === ownCode) return false;
+
+  const levels = await storage.getCareerLevels();
+  return levels.some(l => l.code === nextLevelCode);
+}
+
+function handleCareerLevelError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else if (error.code === "23505") {
+    // Unique constraint violation (duplicate code)
+    res.status(409).json({
+      error: "Career level already exists",
+      userMessage: "Kode level sudah digunakan"
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
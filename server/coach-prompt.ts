@@ -0,0 +1,14 @@
+/**
+ * AiSG Coach system prompt
+ * Renders the live prompt template for the chatting user's role and the audit's zone
+ */
+
+import type { Audit, User } from "@shared/schema";
+import { storage } from "./storage";
+import { buildPromptContext, renderPromptTemplate, selectPromptTemplate, DEFAULT_COACH_PROMPT_TEMPLATE } from "./prompt-template";
+
+export async function buildCoachSystemPrompt(audit: Audit, role: User["role"]): Promise<string> {
+  const template = selectPromptTemplate(await storage.getActivePromptTemplates(), role, audit.zonaFinal);
+  const actionPlanItems = await storage.getActionPlanItems(audit.id);
+  return renderPromptTemplate(template?.body ?? DEFAULT_COACH_PROMPT_TEMPLATE, buildPromptContext(audit, actionPlanItems));
+}
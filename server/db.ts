@@ -1,5 +1,7 @@
 // db.ts – NeonDB Ready + Legacy Support
 import pkg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
 const { Pool } = pkg;
 
 const connectionString = process.env.DATABASE_URL;
@@ -27,10 +29,8 @@ export const query = async (text: string, params?: any[]) => {
   }
 };
 
-// Legacy compatibility for existing imports
-export const db = {
-  query: (text: string, params?: any[]) => pool.query(text, params),
-};
+// Typed drizzle client for the storage layer (raw SQL goes through `query` or `pool`)
+export const db = drizzle(pool, { schema });
 
 // Optional test
 export const testConnection = async () => {
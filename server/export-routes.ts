@@ -0,0 +1,85 @@
+/**
+ * Bulk Audit Export Routes for AiSG
+ * Download the audits a list currently shows as CSV or XLSX with flat columns
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { auditListQuerySchema, type Audit, type AuditListQuery, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+import { visibleOwnerIds } from "./audit-query";
+import { writeSpreadsheet, type SpreadsheetFormat } from "./spreadsheet";
+import { buildAuditExportTable } from "./audit-export";
+
+export function registerExportRoutes(app: Express) {
+  /**
+   * GET /api/audits/export?format=csv|xlsx&<filters of GET /api/audits>
+   * Every audit matching the Dashboard filters (own, downline, or all for admins), not just the loaded page
+   */
+  app.get("/api/audits/export", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const query = { ...exportQuery(req), deleted: "active" as const };
+      const { items } = await storage.searchAudits(query, visibleOwnerIds(req.user!.role, req.user!.id, req.downlineIds));
+      await sendAuditExport(req, res, items, "audit");
+    } catch (error) {
+      handleExportError(res, error, "Error exporting audits:");
+    }
+  });
+
+  /**
+   * GET /api/admin/audit-log/export?format=csv|xlsx&<filters of GET /api/admin/audit-log>
+   * Audits in the Admin audit log, soft-deleted ones included unless filtered out and flagged in the file
+   */
+  app.get("/api/admin/audit-log/export", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { items } = await storage.searchAudits(exportQuery(req, { deleted: "all" }), null);
+      await sendAuditExport(req, res, items, "audit-log");
+    } catch (error) {
+      handleExportError(res, error, "Error exporting audit log:");
+    }
+  });
+}
+
+// List filters and sort without paging: the file holds every matching audit
+function exportQuery(req: Request, defaults: Partial<AuditListQuery> = {}): AuditListQuery {
+  const { format, cursor, limit, ...filters } = req.query;
+  return auditListQuerySchema.parse({ ...defaults, ...filters });
+}
+
+async function sendAuditExport(req: Request, res: Response, audits: Audit[], filePrefix: string) {
+  const format: SpreadsheetFormat = req.query.format === "xlsx" ? "xlsx" : "csv";
+
+  const usernames = new Map((await storage.getAllUsers()).map((user: User) => [user.id, user.username]));
+  const usernameOf = (id: string | null) => (id ? usernames.get(id) ?? null : null);
+
+  const table = buildAuditExportTable(
+    audits.map(audit => ({
+      audit,
+      accounts: { ownerUsername: usernameOf(audit.ownerId), creatorUsername: usernameOf(audit.createdById) },
+    }))
+  );
+  const file = await writeSpreadsheet(table, format, "Audit");
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader("Content-Type", format === "xlsx"
+    ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    : "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filePrefix}-${date}.${format}"`);
+  res.send(file);
+}
+
+function handleExportError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * 360 Feedback Routes for AiSG
+ * Anonymous campaigns where peers and subordinates rate selected pillars through one-time links
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertFeedbackCampaignSchema, feedbackResponseSchema, type Audit, type FeedbackCampaign, type FeedbackInvite } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth } from "./middleware";
+import { canAccessAudit } from "./auth";
+import { supervisesOwner } from "./hierarchy";
+
+export function registerFeedbackRoutes(app: Express) {
+  /**
+   * GET /api/audit/:id/feedback-campaigns
+   * Campaigns of an audit with response counts; the one-time links only for whoever manages them
+   * (the auditee must not be able to tell which links were used)
+   */
+  app.get("/api/audit/:id/feedback-campaigns", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const audit = await getAccessibleAudit(req, res);
+      if (!audit) return;
+
+      const canManage = await canManageCampaigns(req, audit);
+      const campaigns = await storage.getFeedbackCampaigns(audit.id);
+      res.json({
+        canManage,
+        campaigns: canManage ? campaigns : campaigns.map(({ invites: _, ...campaign }) => campaign),
+      });
+    } catch (error) {
+      console.error("Error fetching feedback campaigns:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/audit/:id/feedback-campaigns
+   * Start a campaign and generate one-time links for peers and subordinates (direct upline or admin)
+   * Only one campaign per audit may be open at a time
+   */
+  app.post("/api/audit/:id/feedback-campaigns", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const audit = await getManagedAudit(req, res);
+      if (!audit) return;
+
+      const validated = insertFeedbackCampaignSchema.parse(req.body);
+
+      const campaigns = await storage.getFeedbackCampaigns(audit.id);
+      if (campaigns.some(campaign => campaign.status === "open")) {
+        res.status(409).json({
+          error: "Campaign already open",
+          userMessage: "Masih ada kampanye umpan balik yang berjalan. Tutup terlebih dahulu."
+        });
+        return;
+      }
+
+      const campaign = await storage.createFeedbackCampaign(audit.id, validated, req.user!.id);
+      res.status(201).json({ ...campaign, responseCount: 0 });
+    } catch (error: any) {
+      handleFeedbackError(res, error, "Error creating feedback campaign:");
+    }
+  });
+
+  /**
+   * POST /api/audit/:id/feedback-campaigns/:campaignId/close
+   * Stop accepting responses and, with at least the minimum, apply the anonymous averages to the audit
+   * (direct upline or admin)
+   */
+  app.post("/api/audit/:id/feedback-campaigns/:campaignId/close", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const audit = await getManagedAudit(req, res);
+      if (!audit) return;
+
+      const campaign = await storage.getFeedbackCampaign(req.params.campaignId);
+      if (!campaign || campaign.auditId !== audit.id) {
+        res.status(404).json({ error: "Campaign not found" });
+        return;
+      }
+
+      const closed = await storage.closeFeedbackCampaign(campaign.id);
+      res.json(closed);
+    } catch (error) {
+      console.error("Error closing feedback campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * GET /api/feedback/:token
+   * Public form data for a one-time link: auditee name and the pillars to rate (no login)
+   */
+  app.get("/api/feedback/:token", async (req: Request, res: Response) => {
+    try {
+      const link = await resolveFeedbackLink(req.params.token, res);
+      if (!link) return;
+
+      const { audit, campaign, invite } = link;
+      res.json({
+        nama: audit.nama,
+        jabatan: audit.jabatan,
+        relation: invite.relation,
+        pillars: campaign.pillarIds.map(pillarId => ({
+          pillarId,
+          pillarName: audit.pillarAnswers.find(p => p.pillarId === pillarId)?.pillarName ?? `Pilar ${pillarId}`,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching feedback form:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/feedback/:token
+   * Submit an anonymous response; the link can be used once (no login)
+   */
+  app.post("/api/feedback/:token", async (req: Request, res: Response) => {
+    try {
+      const link = await resolveFeedbackLink(req.params.token, res);
+      if (!link) return;
+
+      const validated = feedbackResponseSchema.parse(req.body);
+      const scoredIds = validated.scores.map(s => s.pillarId);
+      const expected = link.campaign.pillarIds;
+      if (scoredIds.length !== expected.length || !expected.every(id => scoredIds.includes(id))) {
+        res.status(400).json({
+          error: "Validation error",
+          userMessage: "Semua pilar pada formulir wajib dinilai"
+        });
+        return;
+      }
+
+      const accepted = await storage.submitFeedbackResponse(link.invite, validated);
+      if (!accepted) {
+        sendLinkExpired(res);
+        return;
+      }
+
+      res.status(201).json({ success: true, message: "Terima kasih, umpan balik Anda tersimpan secara anonim" });
+    } catch (error: any) {
+      handleFeedbackError(res, error, "Error submitting feedback:");
+    }
+  });
+}
+
+async function getAccessibleAudit(req: Request, res: Response): Promise<Audit | undefined> {
+  const audit = await storage.getAudit(req.params.id);
+  if (!audit || audit.deletedAt) {
+    res.status(404).json({ error: "Audit not found" });
+    return undefined;
+  }
+
+  if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
+    res.status(403).json({
+      error: "Forbidden",
+      userMessage: "Anda tidak memiliki akses ke audit ini"
+    });
+    return undefined;
+  }
+
+  return audit;
+}
+
+// Campaigns are run by the owner's direct upline (or an admin), never by the auditee
+async function canManageCampaigns(req: Request, audit: Audit): Promise<boolean> {
+  if (req.user!.role === "full_admin" || req.user!.role === "admin") return true;
+  const owner = audit.ownerId ? await storage.getUser(audit.ownerId) : undefined;
+  return supervisesOwner(owner, req.user!.id, req.downlineIds, true);
+}
+
+async function getManagedAudit(req: Request, res: Response): Promise<Audit | undefined> {
+  const audit = await getAccessibleAudit(req, res);
+  if (!audit) return undefined;
+
+  if (!(await canManageCampaigns(req, audit))) {
+    res.status(403).json({
+      error: "Forbidden",
+      userMessage: "Hanya atasan langsung pemilik audit atau Admin yang dapat mengelola kampanye umpan balik"
+    });
+    return undefined;
+  }
+
+  return audit;
+}
+
+async function resolveFeedbackLink(
+  token: string,
+  res: Response
+): Promise<{ audit: Audit; campaign: FeedbackCampaign; invite: FeedbackInvite } | undefined> {
+  const invite = await storage.getFeedbackInviteByToken(token);
+  const campaign = invite ? await storage.getFeedbackCampaign(invite.campaignId) : undefined;
+  const audit = campaign ? await storage.getAudit(campaign.auditId) : undefined;
+  if (!invite || !campaign || !audit || audit.deletedAt) {
+    res.status(404).json({
+      error: "Link not found",
+      userMessage: "Link umpan balik tidak valid"
+    });
+    return undefined;
+  }
+
+  if (invite.used || campaign.status !== "open") {
+    sendLinkExpired(res);
+    return undefined;
+  }
+
+  return { audit, campaign, invite };
+}
+
+function sendLinkExpired(res: Response) {
+  res.status(410).json({
+    error: "Link expired",
+    userMessage: "Link ini sudah digunakan atau kampanye umpan balik sudah ditutup"
+  });
+}
+
+function handleFeedbackError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
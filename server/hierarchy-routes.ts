@@ -0,0 +1,87 @@
+/**
+ * Hierarchy Routes for AiSG
+ * Reporting line (upline/downline) that scopes supervisor access to audits
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { updateSupervisorSchema, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin, requireAuditor } from "./middleware";
+import { wouldCreateCycle } from "./hierarchy";
+
+function toPublicUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    supervisorId: user.supervisorId,
+  };
+}
+
+export function registerHierarchyRoutes(app: Express) {
+  /**
+   * GET /api/users/downline
+   * Users a supervisor can audit: their whole downline (Admins get every user)
+   */
+  app.get("/api/users/downline", requireAuth, requireAuditor, async (req: Request, res: Response) => {
+    try {
+      const allUsers = await storage.getAllUsers();
+      const isAdmin = req.user!.role === "full_admin" || req.user!.role === "admin";
+      const downline = allUsers.filter(user => isAdmin || req.downlineIds?.has(user.id));
+      res.json(downline.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching downline:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/users/:id/supervisor
+   * Set or clear the direct upline of a user (Admin only)
+   */
+  app.patch("/api/admin/users/:id/supervisor", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { supervisorId } = updateSupervisorSchema.parse(req.body);
+      const allUsers = await storage.getAllUsers();
+
+      const user = allUsers.find(u => u.id === req.params.id);
+      if (!user) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+
+      if (supervisorId) {
+        if (!allUsers.some(u => u.id === supervisorId)) {
+          res.status(404).json({ error: "Supervisor not found" });
+          return;
+        }
+
+        if (wouldCreateCycle(allUsers, user.id, supervisorId)) {
+          res.status(400).json({
+            error: "Invalid supervisor",
+            userMessage: "Atasan tidak boleh user itu sendiri atau salah satu downline-nya"
+          });
+          return;
+        }
+      }
+
+      const updated = await storage.updateUserSupervisor(user.id, supervisorId);
+      res.json(toPublicUser(updated!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          error: "Validation error",
+          userMessage: error.errors[0].message,
+          details: validationError.message
+        });
+      } else {
+        console.error("Error updating supervisor:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * Reporting-line helpers for AiSG
+ * Users point to their direct supervisor; the downline is everyone below a user, at any depth
+ */
+
+import type { User } from "@shared/schema";
+
+type ReportingLineUser = Pick<User, "id" | "supervisorId">;
+
+/**
+ * Supervisors (BrM / SEM accounts) carry the auditor role and may work on audits of their downline
+ */
+export function hasDownlineScope(role: User["role"]): boolean {
+  return role === "auditor";
+}
+
+/**
+ * IDs of every user reporting to rootId directly or indirectly (rootId itself excluded)
+ */
+export function collectDownline(users: ReportingLineUser[], rootId: string): Set<string> {
+  const childrenOf = new Map<string, string[]>();
+  for (const user of users) {
+    if (!user.supervisorId) continue;
+    childrenOf.set(user.supervisorId, [...(childrenOf.get(user.supervisorId) ?? []), user.id]);
+  }
+
+  const downline = new Set<string>();
+  const queue = [...(childrenOf.get(rootId) ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    // Guards against cycles left behind by manual data edits
+    if (id === rootId || downline.has(id)) continue;
+    downline.add(id);
+    queue.push(...(childrenOf.get(id) ?? []));
+  }
+  return downline;
+}
+
+/**
+ * Assigning supervisorId as upline of userId must not make a user report to themselves
+ */
+export function wouldCreateCycle(users: ReportingLineUser[], userId: string, supervisorId: string): boolean {
+  return supervisorId === userId || collectDownline(users, userId).has(supervisorId);
+}
+
+/**
+ * The supervisor rule for both reading downline audits and supervisor-only input on them
+ * downlineIds is only filled for roles with downline scope; direct narrows it to the owner's direct upline
+ * (supervisor assessment and ProDem review: no skip-level input)
+ */
+export function supervisesOwner(
+  owner: { id: string; supervisorId?: string | null } | undefined,
+  userId: string,
+  downlineIds: ReadonlySet<string> = new Set(),
+  direct = false
+): boolean {
+  if (!owner || owner.id === userId || !downlineIds.has(owner.id)) return false;
+  return !direct || owner.supervisorId === userId;
+}
@@ -0,0 +1,163 @@
+/**
+ * Bulk Audit Import Routes for AiSG
+ * Upload a CSV/XLSX file, preview row-level validation, then create the valid audits in one go
+ */
+
+import express, { type Express, type Request, type Response } from "express";
+import { storage, AuditLinkError } from "./storage";
+import { recordActivity } from "./activity";
+import { requireAuth, requireAuditor } from "./middleware";
+import { canAccessAudit } from "./auth";
+import { processAuditData } from "./business-logic";
+import { parseSpreadsheet, writeSpreadsheet, type SpreadsheetFormat } from "./spreadsheet";
+import { IMPORT_TEMPLATE_COLUMNS, parseImportRows, type ImportRowError, type ParsedImportRow } from "./audit-import";
+
+// The file arrives as the raw request body; the global JSON parser leaves it alone
+const rawUpload = express.raw({ type: () => true, limit: "10mb" });
+
+export function registerImportRoutes(app: Express) {
+  /**
+   * GET /api/audits/import/template?format=csv|xlsx
+   * Empty spreadsheet with the expected columns
+   */
+  app.get("/api/audits/import/template", requireAuth, requireAuditor, async (req: Request, res: Response) => {
+    try {
+      const format: SpreadsheetFormat = req.query.format === "xlsx" ? "xlsx" : "csv";
+      const file = await writeSpreadsheet({ headers: IMPORT_TEMPLATE_COLUMNS, rows: [] }, format, "Audit");
+      res.setHeader("Content-Type", format === "xlsx"
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="template-import-audit.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error("Error generating import template:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/audits/import/preview?format=csv|xlsx
+   * Validate every row without saving; valid rows include their predicted zone and reality score
+   */
+  app.post("/api/audits/import/preview", requireAuth, requireAuditor, rawUpload, async (req: Request, res: Response) => {
+    try {
+      const checked = await readImportFile(req, res);
+      if (!checked) return;
+
+      const context = await storage.getScoringContext();
+      res.json({
+        totalRows: checked.valid.length + checked.errors.length,
+        valid: checked.valid.map(({ row, audit }) => {
+          const processed = processAuditData(audit, context);
+          return {
+            row,
+            nama: audit.nama,
+            jabatan: audit.jabatan,
+            cabang: audit.cabang,
+            periodeAudit: audit.periodeAudit ?? null,
+            zonaFinal: processed.zonaFinal,
+            totalRealityScore: processed.totalRealityScore,
+          };
+        }),
+        errors: checked.errors,
+      });
+    } catch (error) {
+      console.error("Error previewing audit import:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/audits/import?format=csv|xlsx
+   * Create all valid rows in a single transaction; invalid rows are reported back and skipped
+   */
+  app.post("/api/audits/import", requireAuth, requireAuditor, rawUpload, async (req: Request, res: Response) => {
+    try {
+      const checked = await readImportFile(req, res);
+      if (!checked) return;
+
+      if (checked.valid.length === 0) {
+        res.status(400).json({
+          error: "Validation error",
+          userMessage: "Tidak ada baris valid untuk diimpor",
+          errors: checked.errors,
+        });
+        return;
+      }
+
+      const created = await storage.createAuditsBulk(checked.valid.map(({ audit, ownerId }) => ({
+        ...audit,
+        ownerId,
+        createdById: req.user!.id,
+      })), { allowNewBranch: isAdmin(req) });
+
+      await recordActivity(req, created.map(audit => ({
+        action: "audit_create" as const,
+        targetType: "audit" as const,
+        targetId: audit.id,
+        details: { nama: audit.nama, ownerId: audit.ownerId, source: "import" },
+      })));
+
+      res.json({ created: created.length, errors: checked.errors });
+    } catch (error) {
+      if (error instanceof AuditLinkError) {
+        res.status(400).json({ error: "Invalid reference", userMessage: error.message });
+        return;
+      }
+      console.error("Error importing audits:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
+
+/**
+ * Parse and validate the uploaded file, resolving each row's owner.
+ * Sends a 400 and returns null when the file itself is unusable.
+ */
+async function readImportFile(
+  req: Request,
+  res: Response
+): Promise<{ valid: Array<ParsedImportRow & { ownerId: string }>; errors: ImportRowError[] } | null> {
+  const format = req.query.format;
+  if (format !== "csv" && format !== "xlsx") {
+    res.status(400).json({ error: "Invalid format", userMessage: "Format file harus CSV atau XLSX" });
+    return null;
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({ error: "Empty file", userMessage: "File kosong atau tidak terbaca" });
+    return null;
+  }
+
+  let table;
+  try {
+    table = await parseSpreadsheet(req.body, format);
+  } catch {
+    res.status(400).json({ error: "Unreadable file", userMessage: "File tidak dapat dibaca. Pastikan formatnya sesuai template." });
+    return null;
+  }
+
+  const { valid, errors } = parseImportRows(table.rows);
+
+  // Same ownership rule as single audits: yourself, your downline, or anyone for admins
+  // Unregistered branches are created on import for admins and rejected for everyone else
+  const resolved: Array<ParsedImportRow & { ownerId: string }> = [];
+  for (const parsed of valid) {
+    const owner = parsed.ownerUsername ? await storage.getUserByUsername(parsed.ownerUsername) : req.user!;
+    if (!isAdmin(req) && !(await storage.findBranchByName(parsed.audit.cabang))) {
+      errors.push({ row: parsed.row, nama: parsed.audit.nama, messages: [`cabang: "${parsed.audit.cabang}" belum terdaftar`] });
+    } else if (!owner) {
+      errors.push({ row: parsed.row, nama: parsed.audit.nama, messages: [`ownerUsername: akun "${parsed.ownerUsername}" tidak ditemukan`] });
+    } else if (!canAccessAudit(req.user!.role, req.user!.id, owner.id, req.downlineIds)) {
+      errors.push({ row: parsed.row, nama: parsed.audit.nama, messages: [`ownerUsername: Anda tidak dapat membuat audit untuk "${parsed.ownerUsername}"`] });
+    } else {
+      resolved.push({ ...parsed, ownerId: owner.id });
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { valid: resolved, errors };
+}
+
+function isAdmin(req: Request): boolean {
+  return req.user!.role === "full_admin" || req.user!.role === "admin";
+}
@@ -4,6 +4,8 @@ import connectPgSimple from "connect-pg-simple";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { ensureSuperadminExists } from "./auth";
+import { storage } from "./storage";
+import { startRetentionJob } from "./retention";
 import { testConnection } from "./db";
 
 testConnection(); // cek NeonDB saat server start
@@ -92,6 +94,58 @@ app.use((req, res, next) => {
   // Ensure superadmin user exists on startup (both dev and production)
   await ensureSuperadminExists();
 
+  // Seed default career levels on first start
+  try {
+    await storage.ensureCareerLevelsSeeded();
+  } catch (error) {
+    console.error("❌ Failed to seed career levels:", error);
+  }
+
+  // Seed scoring rule set v1 (mirrors the original hardcoded thresholds)
+  try {
+    await storage.ensureScoringRulesSeeded();
+  } catch (error) {
+    console.error("❌ Failed to seed scoring rules:", error);
+  }
+
+  // Seed the coach prompt template "Default" v1 (the original hardcoded prompt)
+  try {
+    await storage.ensurePromptTemplatesSeeded();
+  } catch (error) {
+    console.error("❌ Failed to seed coach prompt templates:", error);
+  }
+
+  // Seed the knowledge base from the built-in entries
+  try {
+    await storage.ensureKnowledgeSeeded();
+  } catch (error) {
+    console.error("❌ Failed to seed knowledge base:", error);
+  }
+
+  // Link free-text cabang of existing audits to the branch registry
+  try {
+    await storage.ensureBranchesBackfilled();
+  } catch (error) {
+    console.error("❌ Failed to backfill branches:", error);
+  }
+
+  // Link audits created before the people registry existed
+  try {
+    await storage.ensurePeopleBackfilled();
+  } catch (error) {
+    console.error("❌ Failed to backfill people registry:", error);
+  }
+
+  // Give audits created before action plan tracking their 30-60-90 tasks
+  try {
+    await storage.ensureActionPlanItemsBackfilled();
+  } catch (error) {
+    console.error("❌ Failed to backfill action plan items:", error);
+  }
+
+  // Purge soft-deleted audits past the retention period (daily, only when AUDIT_RETENTION_DAYS is set)
+  startRetentionJob();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
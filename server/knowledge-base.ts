@@ -1,15 +1,14 @@
 /**
  * Internal Knowledge Base for AiSG AI Coach
- * Provides fallback responses when external AI APIs are unavailable
+ * Provides fallback responses when external AI APIs are unavailable.
+ * Entries live in the knowledge_entries table; the array below seeds it on first start.
  */
 
-interface KnowledgeEntry {
-  keywords: string[];
-  response: string;
-  category: string;
-}
+import type { InsertKnowledgeEntry } from "@shared/schema";
+import { renderPromptTemplate, type PromptContext } from "./prompt-template";
+import { retrieveKnowledge } from "./knowledge-retrieval";
 
-export const knowledgeBase: KnowledgeEntry[] = [
+export const DEFAULT_KNOWLEDGE_ENTRIES: InsertKnowledgeEntry[] = [
   // Leadership & Management
   {
     keywords: ["leadership", "kepemimpinan", "memimpin", "leader", "pimpin tim"],
@@ -505,45 +504,58 @@ Apakah ada area spesifik yang ingin Anda diskusikan lebih detail? (Leadership, S
   }
 ];
 
-/**
- * Find relevant knowledge based on user query
- */
-export function findKnowledge(query: string): string | null {
-  const lowercaseQuery = query.toLowerCase();
-  
-  // Find best matching entry
-  for (const entry of knowledgeBase) {
-    if (entry.keywords.some(keyword => lowercaseQuery.includes(keyword.toLowerCase()))) {
-      return entry.response;
-    }
-  }
-  
-  return null;
-}
-
-/**
- * Generate response using knowledge base
- */
-export function generateKnowledgeBasedResponse(query: string, auditData: any): string {
-  const knowledge = findKnowledge(query);
-  
-  if (knowledge) {
-    return knowledge;
-  }
-  
-  // Fallback generic response
-  return `Terima kasih atas pertanyaan Anda tentang hasil audit.
+// Answer when no entry matches confidently, personalised with the same placeholders as the coach prompt
+// followed by a clarifying question about the topic
+export const KNOWLEDGE_FALLBACK_RESPONSE = `Terima kasih atas pertanyaan Anda tentang hasil audit.
 
 **Hasil Audit Anda:**
-- Reality Score: ${auditData.totalRealityScore}/90
-- Profil: ${auditData.profil}
-- Zona: ${auditData.zonaFinal}
-- Rekomendasi: ${auditData.prodemRekomendasi.recommendation}
+- Reality Score: {{totalRealityScore}}/90
+- Profil: {{profil}}
+- Zona: {{zonaFinal}}
+- Rekomendasi: {{prodemRekomendasi.recommendation}}
 
 Saya merekomendasikan untuk:
 1. Review Action Plan 30-60-90 yang sudah disediakan
 2. Diskusikan dengan mentor/leader Anda
-3. Focus pada improvement area dengan gap terbesar
+3. Focus pada improvement area dengan gap terbesar`;
+
+// Separates the answers of several matching entries
+const COMBINED_ANSWER_SEPARATOR = "\n\n---\n\n";
+
+function formatTopics(categories: string[]): string {
+  const bold = categories.map(category => `**${category}**`);
+  return bold.length > 1 ? `${bold.slice(0, -1).join(", ")} atau ${bold[bold.length - 1]}` : bold[0];
+}
+
+// Close guesses are offered by name; without any, a few of the known topics
+function clarifyingQuestion(suggestions: string[], entries: Array<Pick<InsertKnowledgeEntry, "category">>): string {
+  if (suggestions.length > 0) {
+    return `Saya belum yakin topik yang Anda maksud. Apakah tentang ${formatTopics(suggestions)}? Ceritakan sedikit lebih detail supaya jawaban saya lebih tepat.`;
+  }
+
+  const topics = Array.from(new Set(entries.map(entry => entry.category))).slice(0, 4);
+  return topics.length > 0
+    ? `Topik apa yang ingin Anda bahas? Misalnya ${formatTopics(topics)}, atau topik lainnya, silakan tanyakan!`
+    : "Topik apa yang ingin Anda bahas? Silakan tanyakan lebih spesifik!";
+}
+
+/**
+ * Generate response using knowledge base, with audit placeholders filled in
+ * Confident matches answer (the top entries combined); otherwise the coach asks what the question is about
+ */
+export function generateKnowledgeBasedResponse(
+  query: string,
+  entries: Array<Pick<InsertKnowledgeEntry, "category" | "keywords" | "response">>,
+  context: PromptContext
+): string {
+  const { confident, matches } = retrieveKnowledge(query, entries);
+
+  if (confident) {
+    return matches
+      .map(match => renderPromptTemplate(match.entry.response, context))
+      .join(COMBINED_ANSWER_SEPARATOR);
+  }
 
-Untuk pertanyaan lebih spesifik tentang **Leadership**, **Sales Skills**, **Team Building**, **Planning**, atau topik lainnya, silakan tanyakan!`;
+  const suggestions = Array.from(new Set(matches.map(match => match.entry.category)));
+  return `${renderPromptTemplate(KNOWLEDGE_FALLBACK_RESPONSE, context)}\n\n${clarifyingQuestion(suggestions, entries)}`;
 }
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { retrieveKnowledge, stem, tokenize } from "./knowledge-retrieval";
+import { DEFAULT_KNOWLEDGE_ENTRIES } from "./knowledge-base";
+
+describe("stem", () => {
+  const cases: Array<[string, string]> = [
+    // Indonesian affixes
+    ["memimpin", "pimpin"],
+    ["kepemimpinan", "pimpin"],
+    ["menulis", "tulis"],
+    ["menyapa", "sapa"],
+    ["mengajar", "ajar"],
+    ["mendengarkan", "dengar"],
+    ["meningkatkan", "tingkat"],
+    ["penjualan", "jual"],
+    ["pelatihan", "latih"],
+    ["pengalaman", "alam"],
+    ["kebutuhan", "butuh"],
+    ["kelemahan", "lemah"],
+    ["keuangan", "uang"],
+    ["dikirim", "kirim"],
+    ["ditolak", "tolak"],
+    ["sebuah", "buah"],
+    ["terlambat", "lambat"],
+    ["berbicara", "bicara"],
+    ["sekolahnya", "sekolah"],
+    // English inflections
+    ["meeting", "meet"],
+    ["mentoring", "mentor"],
+    ["closing", "clos"],
+    ["close", "clos"],
+    ["leadership", "leader"],
+    ["sellers", "seller"],
+    ["status", "status"],
+    // Roots and English words that only look prefixed
+    ["sekolah", "sekolah"],
+    ["mentor", "mentor"],
+    ["dinner", "dinner"],
+    ["discount", "discount"],
+    ["seller", "seller"],
+    ["keynote", "keynot"],
+    ["seminar", "seminar"],
+    ["senior", "senior"],
+    ["kepala", "kepala"],
+    ["kelas", "kelas"],
+    ["merah", "merah"],
+    ["kerja", "kerja"],
+    ["disiplin", "disiplin"],
+  ];
+
+  it.each(cases)("%s → %s", (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+});
+
+describe("tokenize", () => {
+  it("drops stopwords, punctuation and accents", () => {
+    expect(tokenize("Bagaimana cara saya memimpin tim di kafé?")).toEqual(["pimpin", "tim", "kafe"]);
+  });
+});
+
+describe("retrieveKnowledge", () => {
+  // BM25 needs a realistic corpus for its confidence threshold, so the fixtures join the seeded entries
+  const entries = [
+    ...DEFAULT_KNOWLEDGE_ENTRIES,
+    { category: "Mentoring", keywords: ["mentor", "coaching"], response: "Dampingi anggota baru secara rutin." },
+    { category: "Education", keywords: ["sekolah", "pendidikan"], response: "Lanjutkan pendidikan formal." },
+  ];
+
+  it("answers confidently when keywords match the question", () => {
+    const result = retrieveKnowledge("Bagaimana cara memimpin tim?", entries);
+    expect(result.confident).toBe(true);
+    expect(result.matches[0].entry.category).toBe("Leadership");
+  });
+
+  it("matches English inflections to their keyword", () => {
+    const result = retrieveKnowledge("how to do mentoring well", entries);
+    expect(result.confident).toBe(true);
+    expect(result.matches[0].entry.category).toBe("Mentoring");
+  });
+
+  it("keeps roots whole so unrelated words do not collide", () => {
+    expect(retrieveKnowledge("sekolah", entries).matches[0].entry.category).toBe("Education");
+    expect(retrieveKnowledge("tor", entries).matches).toEqual([]);
+    expect(retrieveKnowledge("kolah", entries).matches).toEqual([]);
+  });
+
+  it("offers topics instead of answering when nothing matches a keyword", () => {
+    const result = retrieveKnowledge("dampingi anggota", entries);
+    expect(result.confident).toBe(false);
+    expect(result.matches.length).toBeGreaterThan(0);
+  });
+
+  it("returns nothing for a question of stopwords only", () => {
+    expect(retrieveKnowledge("bagaimana ini?", entries)).toEqual({ confident: false, matches: [] });
+  });
+
+  it("finds the seeded entry for common coaching questions", () => {
+    const top = (query: string) => retrieveKnowledge(query, DEFAULT_KNOWLEDGE_ENTRIES).matches[0]?.entry.category;
+    expect(top("tips closing penjualan")).toBe("Sales - Closing");
+    expect(top("kenapa saya di zona merah")).toBe("Performance");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Ranked retrieval over the knowledge base
+ * Tokenises mixed Indonesian/English text, reduces words to a common stem and scores entries with BM25.
+ * Keywords weigh more than the category, which weighs more than the answer text itself.
+ */
+
+import type { InsertKnowledgeEntry } from "@shared/schema";
+
+type RetrievableEntry = Pick<InsertKnowledgeEntry, "category" | "keywords" | "response">;
+
+export interface KnowledgeMatch<T extends RetrievableEntry> {
+  entry: T;
+  score: number;
+  keywordHits: number; // Query terms found in the entry's keywords
+}
+
+export interface KnowledgeRetrieval<T extends RetrievableEntry> {
+  confident: boolean;
+  matches: KnowledgeMatch<T>[]; // Entries to answer with (confident) or to offer as topics (not confident), best first
+}
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// How often a term counts per field
+const FIELD_WEIGHTS = { keywords: 3, category: 2, response: 1 };
+
+// Below this score, or without any keyword hit, the best entry is only a guess
+const MIN_CONFIDENT_SCORE = 2;
+
+// Further entries are combined into the answer when they score at least this share of the best one
+const COMBINE_RATIO = 0.6;
+const MAX_COMBINED = 2;
+
+// Topics offered in a clarifying question
+const MAX_SUGGESTIONS = 3;
+
+const STOPWORDS = new Set([
+  // Indonesian (including chat slang)
+  "yang", "dan", "di", "ke", "dari", "untuk", "dengan", "ini", "itu", "apa", "bagaimana", "gimana", "cara",
+  "saya", "aku", "gua", "gue", "kamu", "anda", "kita", "kami", "mereka", "dia", "bisa", "ada", "tidak",
+  "nggak", "gak", "ga", "dalam", "pada", "atau", "juga", "akan", "sudah", "udah", "belum", "lebih", "agar",
+  "supaya", "jadi", "karena", "kalau", "kalo", "mau", "ingin", "tolong", "dong", "sih", "nih", "ya", "tentang",
+  "mengenai", "bagi", "oleh", "para", "sangat", "banget", "seperti", "harus", "perlu", "buat", "punya",
+  "adalah", "saja", "aja", "bagaimanakah", "apakah", "kenapa", "mengapa",
+  // English
+  "the", "a", "an", "and", "or", "of", "to", "in", "on", "for", "with", "is", "are", "be", "how", "what",
+  "why", "my", "me", "i", "you", "your", "do", "does", "can", "about", "it", "this", "that", "should",
+]);
+
+const PARTICLES = ["lah", "kah", "tah", "pun"];
+const POSSESSIVES = ["nya", "ku", "mu"];
+const ENGLISH_SUFFIXES = ["ship", "ment", "ness", "ing", "ed", "ly"];
+const INDONESIAN_SUFFIXES = ["kan", "an", "i"];
+const MIN_STEM_LENGTH = 3;
+
+// Roots that only look affixed (se-kolah, masa-lah, ke-pala) and are kept whole
+const KNOWN_ROOTS = new Set([
+  "sekolah", "sejarah", "selalu", "seminar", "senior", "semangat", "masalah", "istilah",
+  "seleksi", "merah", "kepala", "keluarga", "kelas", "dinamika", "disiplin", "dimensi",
+]);
+
+function stripSuffix(word: string, suffixes: string[]): string {
+  if (KNOWN_ROOTS.has(word)) return word;
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+const VOWEL = /^[aiueo]/;
+
+// What an Indonesian root can start with: a vowel, or one consonant (ng, ny, sy, kh, or a cluster with r/l) before a vowel
+const ROOT_ONSET = /^(?:[aiueo]|(?:ng|ny|sy|kh|[bcdfghjklmnprstvwyz][rl]?)[aiueo])/;
+
+// Letter patterns Indonesian words do not have, so the word is left without prefix stripping (dinner, keynote, seller)
+const ENGLISH_LOOKING = /([bcdfghjklmnpqrstvwxz])\1|[qx]|th|ph|sh|ck|wh|ee|oo|ou|[wy][^aiueo]/;
+
+// me-/pe- prefixes with their sound changes (memimpin → pimpin, menulis → tulis, menyapa → sapa)
+// A consonant is only accepted where the prefix keeps it (mendengar, membaca, menggali), so "mentor" stays whole
+function stripPrefix(word: string): string {
+  const rest = (prefix: string) => word.slice(prefix.length);
+  const long = (prefix: string) => word.startsWith(prefix) && word.length - prefix.length >= MIN_STEM_LENGTH;
+  const root = (prefix: string, consonants: RegExp) =>
+    long(prefix) && consonants.test(rest(prefix)) && ROOT_ONSET.test(rest(prefix));
+
+  for (const head of ["meny", "peny"]) {
+    if (long(head) && VOWEL.test(rest(head))) return "s" + rest(head);
+  }
+  for (const head of ["meng", "peng"]) {
+    if (root(head, /^[aiueoghk]/)) return rest(head);
+  }
+  for (const head of ["mem", "pem"]) {
+    if (long(head) && VOWEL.test(rest(head))) return "p" + rest(head);
+    if (root(head, /^[bfpv]/)) return rest(head);
+  }
+  for (const head of ["men", "pen"]) {
+    if (long(head) && VOWEL.test(rest(head))) return "t" + rest(head);
+    if (root(head, /^(?:[cdjz]|sy)/)) return rest(head);
+  }
+  for (const head of ["ber", "ter", "per", "me", "pe", "di", "ke", "se"]) {
+    if (long(head) && ROOT_ONSET.test(rest(head))) return rest(head);
+  }
+  return word;
+}
+
+/**
+ * Reduce a lowercase word to a stem shared by its inflections in either language
+ * Not linguistically exact, but the question and the entries go through the same steps so they meet
+ */
+export function stem(word: string): string {
+  let result = stripSuffix(word, PARTICLES);
+  result = stripSuffix(result, POSSESSIVES);
+  if (KNOWN_ROOTS.has(result)) return result;
+
+  // English plurals, leaving -ss, -is and -us alone (business, analisis, status)
+  const singular = /sses$/.test(result) ? result.slice(0, -2)
+    : /[^siu]s$/.test(result) && result.length > 4 ? result.slice(0, -1)
+    : result;
+  const english = stripSuffix(singular, ENGLISH_SUFFIXES);
+  result = english !== result ? english : stripSuffix(result, INDONESIAN_SUFFIXES);
+  if (result.length > 4) result = result.replace(/e$/, ""); // closing / close → clos
+
+  // Up to two prefixes: ke-pem-impin-an
+  for (let i = 0; i < 2 && !ENGLISH_LOOKING.test(word); i++) {
+    const stripped = stripPrefix(result);
+    if (stripped === result) break;
+    result = stripped;
+  }
+  return result;
+}
+
+/**
+ * Lowercase words and numbers without stopwords, stemmed
+ */
+export function tokenize(text: string): string[] {
+  // Accents are dropped first so "kafé" and "kafe" meet (Indonesian and English are otherwise plain ASCII)
+  const plain = text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+  return (plain.match(/[a-z0-9]+/g) ?? [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function countTerms(terms: string[], weight: number, into: Map<string, number>): void {
+  for (const term of terms) into.set(term, (into.get(term) ?? 0) + weight);
+}
+
+/**
+ * Rank entries for a question with BM25 and decide whether the best ones answer it
+ */
+export function retrieveKnowledge<T extends RetrievableEntry>(query: string, entries: T[]): KnowledgeRetrieval<T> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || entries.length === 0) return { confident: false, matches: [] };
+
+  const documents = entries.map(entry => {
+    const keywordTerms = new Set(entry.keywords.flatMap(tokenize));
+    const frequencies = new Map<string, number>();
+    countTerms(Array.from(keywordTerms), FIELD_WEIGHTS.keywords, frequencies);
+    countTerms(tokenize(entry.category), FIELD_WEIGHTS.category, frequencies);
+    countTerms(tokenize(entry.response), FIELD_WEIGHTS.response, frequencies);
+    const length = Array.from(frequencies.values()).reduce((sum, count) => sum + count, 0);
+    return { entry, keywordTerms, frequencies, length };
+  });
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length;
+  const documentFrequency = (term: string) => documents.filter(doc => doc.frequencies.has(term)).length;
+  const idf = new Map(queryTerms.map(term => {
+    const n = documentFrequency(term);
+    return [term, Math.log(1 + (documents.length - n + 0.5) / (n + 0.5))];
+  }));
+
+  const ranked: KnowledgeMatch<T>[] = documents
+    .map(doc => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.frequencies.get(term) ?? 0;
+        if (tf === 0) continue;
+        score += idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+      }
+      const keywordHits = queryTerms.filter(term => doc.keywordTerms.has(term)).length;
+      return { entry: doc.entry, score, keywordHits };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || b.keywordHits - a.keywordHits);
+
+  const best = ranked[0];
+  if (!best || best.score < MIN_CONFIDENT_SCORE || best.keywordHits === 0) {
+    return { confident: false, matches: ranked.slice(0, MAX_SUGGESTIONS) };
+  }
+
+  return {
+    confident: true,
+    matches: ranked
+      .filter(match => match.keywordHits > 0 && match.score >= best.score * COMBINE_RATIO)
+      .slice(0, MAX_COMBINED),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Knowledge Base Routes for AiSG
+ * Offline coach answers that admins and coaches maintain without a deploy
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertKnowledgeEntrySchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+import { PromptTemplateError, validatePromptTemplate } from "./prompt-template";
+
+export function registerKnowledgeRoutes(app: Express) {
+  /**
+   * GET /api/admin/knowledge
+   * All entries ordered by category (Admin only)
+   */
+  app.get("/api/admin/knowledge", requireAuth, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      const entries = await storage.getKnowledgeEntries();
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching knowledge entries:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/admin/knowledge
+   * Add an entry; placeholders in the response are checked like prompt templates (Admin only)
+   */
+  app.post("/api/admin/knowledge", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = insertKnowledgeEntrySchema.parse(req.body);
+      validatePromptTemplate(validated.response);
+
+      const entry = await storage.createKnowledgeEntry(validated, req.user!.id);
+      res.status(201).json(entry);
+    } catch (error) {
+      handleKnowledgeError(res, error, "Error creating knowledge entry:");
+    }
+  });
+
+  /**
+   * PATCH /api/admin/knowledge/:id
+   * Update category, keywords or response of an entry (Admin only)
+   */
+  app.patch("/api/admin/knowledge/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getKnowledgeEntry(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Knowledge entry not found" });
+        return;
+      }
+
+      const validated = insertKnowledgeEntrySchema.partial().parse(req.body);
+      if (validated.response !== undefined) validatePromptTemplate(validated.response);
+
+      const entry = await storage.updateKnowledgeEntry(existing.id, validated);
+      res.json(entry);
+    } catch (error) {
+      handleKnowledgeError(res, error, "Error updating knowledge entry:");
+    }
+  });
+
+  /**
+   * DELETE /api/admin/knowledge/:id
+   * Remove an entry (Admin only)
+   */
+  app.delete("/api/admin/knowledge/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getKnowledgeEntry(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Knowledge entry not found" });
+        return;
+      }
+
+      await storage.deleteKnowledgeEntry(existing.id);
+      res.json({ success: true, message: "Knowledge entry deleted" });
+    } catch (error) {
+      console.error("Error deleting knowledge entry:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
+
+function handleKnowledgeError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else if (error instanceof PromptTemplateError) {
+    res.status(400).json({
+      error: "Invalid placeholder",
+      userMessage: error.message
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
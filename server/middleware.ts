@@ -5,12 +5,15 @@
 import type { Request, Response, NextFunction } from "express";
 import type { User } from "@shared/schema";
 import { getUserById } from "./auth";
+import { storage } from "./storage";
+import { hasDownlineScope } from "./hierarchy";
 
 // Extend Express Request type to include user
 declare global {
   namespace Express {
     interface Request {
       user?: Omit<User, "password">;
+      downlineIds?: Set<string>; // Users whose audits a supervisor may work on (empty for everyone else)
     }
   }
 }
@@ -41,8 +44,9 @@ export async function requireAuth(
     return;
   }
   
-  // Attach user to request
+  // Attach user and, for supervisors, their downline to request
   req.user = user;
+  req.downlineIds = hasDownlineScope(user.role) ? await storage.getDownlineIds(user.id) : new Set();
   next();
 }
 
@@ -141,10 +141,32 @@ export function generateAuditPDF(audit: Audit): typeof PDFDocument {
     doc.fontSize(11).font("Helvetica-Bold").text(`${pilar.pillarName}`);
     doc.fontSize(10).font("Helvetica");
     doc.text(`Self Score: ${pilar.selfScore}/5 | Reality Score: ${pilar.realityScore}/5 | Gap: ${pilar.gap}`, { indent: 15 });
+    doc.text(`Self: ${pilar.selfScore} | Atasan: ${pilar.supervisorScore ?? "-"} | Data: ${pilar.dataScore ?? "-"}`, { indent: 15 });
     doc.text(`Insight: ${pilar.insight}`, { indent: 15, align: "justify" });
     doc.moveDown(0.3);
   });
   
+  const feedback360 = report.feedback360;
+  if (feedback360) {
+    doc.addPage();
+    doc.fontSize(16).font("Helvetica-Bold").text("Umpan Balik 360", { underline: true });
+    doc.fontSize(10).font("Helvetica");
+    doc.moveDown(0.5);
+    doc.text(feedback360.narasi, { align: "justify" });
+    doc.moveDown(0.5);
+    feedback360.pillars.forEach((pilar: any) => {
+      doc.text(`${pilar.pillarName}: Self ${pilar.selfScore} | 360 ${pilar.peerScore}`, { indent: 15 });
+    });
+    if (feedback360.comments.length > 0) {
+      doc.moveDown(0.5);
+      doc.font("Helvetica-Bold").text("Komentar Anonim:");
+      doc.font("Helvetica");
+      feedback360.comments.forEach((comment: string) => {
+        doc.text(`• ${comment}`, { indent: 15 });
+      });
+    }
+  }
+  
   doc.addPage();
   doc.fontSize(10).font("Helvetica").fillColor("#999");
   doc.text("---", { align: "center" });
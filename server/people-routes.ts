@@ -0,0 +1,242 @@
+/**
+ * People Routes for AiSG
+ * Auditee registry: employee code, branch, birth date, current level and duplicate merging
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertPersonSchema, mergePeopleSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+import { findDuplicateGroups, identitiesCompatible } from "./person-matching";
+import { canAccessAudit } from "./auth";
+import { formatPeriodeAudit, formatPeriodeLabel, periodFromDate } from "@shared/audit-period";
+
+export function registerPeopleRoutes(app: Express) {
+  /**
+   * GET /api/people
+   * Admins see the whole registry, other users only people from audits they can access
+   */
+  app.get("/api/people", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const allPeople = await storage.getPeople();
+
+      if (req.user!.role === "full_admin" || req.user!.role === "admin") {
+        res.json(allPeople);
+        return;
+      }
+
+      const visibleAudits = (await storage.getAllAudits())
+        .filter(audit => canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds));
+      const personIds = new Set(visibleAudits.map(audit => audit.personId));
+      res.json(allPeople.filter(person => personIds.has(person.id)));
+    } catch (error) {
+      console.error("Error fetching people:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * GET /api/people/:id/timeline
+   * All audits of a person in period order, reduced to the values charted on the timeline page
+   * Non-admins only see the audits they own or, for supervisors, those of their downline
+   */
+  app.get("/api/people/:id/timeline", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const person = await storage.getPerson(req.params.id);
+      if (!person) {
+        res.status(404).json({ error: "Person not found" });
+        return;
+      }
+
+      const isAdmin = req.user!.role === "full_admin" || req.user!.role === "admin";
+      const personAudits = (await storage.getAuditsByPerson(person.id))
+        .filter(audit => canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds));
+
+      if (!isAdmin && personAudits.length === 0) {
+        res.status(403).json({
+          error: "Forbidden",
+          userMessage: "Anda tidak memiliki akses ke data orang ini"
+        });
+        return;
+      }
+
+      const timeline = personAudits
+        .map(audit => {
+          // Legacy audits without periodeAudit use the quarter they were created in
+          const periodeAudit = audit.periodeAudit ?? formatPeriodeAudit(periodFromDate(new Date(audit.createdAt)));
+          return {
+            auditId: audit.id,
+            periodeAudit,
+            periodeLabel: formatPeriodeLabel(periodeAudit),
+            createdAt: audit.createdAt,
+            jabatan: audit.jabatan,
+            totalRealityScore: audit.totalRealityScore,
+            totalGap: audit.totalGap,
+            zonaFinal: audit.zonaFinal,
+            margin: audit.auditReport.progressKuartal.realisasiMargin,
+            na: audit.auditReport.progressKuartal.realisasiNA,
+            recommendation: audit.prodemRekomendasi.recommendation,
+            pillars: audit.pillarAnswers.map(p => ({
+              pillarId: p.pillarId,
+              pillarName: p.pillarName,
+              realityScore: p.realityScore,
+            })),
+          };
+        })
+        .sort((a, b) =>
+          a.periodeAudit.localeCompare(b.periodeAudit) ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+
+      res.json({ person, timeline });
+    } catch (error) {
+      console.error("Error fetching person timeline:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * GET /api/admin/people/duplicates
+   * Groups of people that probably refer to the same employee (Admin only)
+   */
+  app.get("/api/admin/people/duplicates", requireAuth, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      const allPeople = await storage.getPeople();
+      res.json(findDuplicateGroups(allPeople));
+    } catch (error) {
+      console.error("Error finding duplicate people:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/admin/people
+   * Register a person (Admin only)
+   */
+  app.post("/api/admin/people", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = insertPersonSchema.parse(req.body);
+      const person = await storage.createPerson(validated);
+      res.status(201).json(person);
+    } catch (error: any) {
+      handlePersonError(res, error, "Error creating person:");
+    }
+  });
+
+  /**
+   * PATCH /api/admin/people/:id
+   * Update registry data of a person (Admin only)
+   */
+  app.patch("/api/admin/people/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getPerson(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Person not found" });
+        return;
+      }
+
+      const validated = insertPersonSchema.partial().parse(req.body);
+      const person = await storage.updatePerson(existing.id, validated);
+      res.json(person);
+    } catch (error: any) {
+      handlePersonError(res, error, "Error updating person:");
+    }
+  });
+
+  /**
+   * DELETE /api/admin/people/:id
+   * Remove a person without audits (Admin only)
+   */
+  app.delete("/api/admin/people/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getPerson(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Person not found" });
+        return;
+      }
+
+      const linkedAudits = (await storage.getAllAudits(true)).filter(audit => audit.personId === existing.id);
+      if (linkedAudits.length > 0) {
+        res.status(409).json({
+          error: "Person in use",
+          userMessage: `${existing.nama} masih memiliki ${linkedAudits.length} audit. Gabungkan ke orang lain terlebih dahulu.`
+        });
+        return;
+      }
+
+      await storage.deletePerson(existing.id);
+      res.json({ success: true, message: "Person deleted" });
+    } catch (error) {
+      console.error("Error deleting person:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/admin/people/merge
+   * Move all audits of the duplicates to the target person and delete the duplicates (Admin only)
+   */
+  app.post("/api/admin/people/merge", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { targetId, sourceIds } = mergePeopleSchema.parse(req.body);
+
+      if (sourceIds.includes(targetId)) {
+        res.status(400).json({
+          error: "Invalid merge",
+          userMessage: "Orang tujuan tidak boleh termasuk dalam daftar duplikat"
+        });
+        return;
+      }
+
+      const target = await storage.getPerson(targetId);
+      if (!target) {
+        res.status(404).json({ error: "Person not found" });
+        return;
+      }
+
+      const sources = await Promise.all(sourceIds.map(sourceId => storage.getPerson(sourceId)));
+      if (sources.some(source => !source)) {
+        res.status(404).json({ error: "Person not found" });
+        return;
+      }
+
+      // Sources are deleted by the merge, so they must not be a different employee than the target or each other
+      const merged = [target, ...sources.map(source => source!)];
+      const conflict = merged.slice(1).find(source => merged.some(other => !identitiesCompatible(source, other)));
+      if (conflict) {
+        res.status(400).json({
+          error: "Invalid merge",
+          userMessage: `"${conflict.nama}" memiliki kode karyawan atau tanggal lahir yang berbeda, tidak dapat digabungkan`
+        });
+        return;
+      }
+
+      const movedAudits = await storage.mergePeople(targetId, sourceIds);
+      res.json({ success: true, target, movedAudits, removed: sourceIds.length });
+    } catch (error: any) {
+      handlePersonError(res, error, "Error merging people:");
+    }
+  });
+}
+
+function handlePersonError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else if (error.code === "23505") {
+    // Unique constraint violation (duplicate employee code)
+    res.status(409).json({
+      error: "Person already exists",
+      userMessage: "Kode karyawan sudah digunakan"
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { Person } from "@shared/schema";
+import { findDuplicateGroups, identitiesCompatible, namesLikelySame } from "./person-matching";
+
+function person(id: string, nama: string, extra: Partial<Person> = {}): Person {
+  return {
+    id,
+    employeeCode: null,
+    nama,
+    cabang: null,
+    tanggalLahir: null,
+    currentLevelCode: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...extra,
+  };
+}
+
+const ids = (groups: Person[][]) => groups.map(group => group.map(p => p.id));
+
+describe("namesLikelySame", () => {
+  const cases: Array<[string, string, boolean]> = [
+    ["Budi Santoso", "budi  santoso", true],
+    ["Budi S.", "Budi Santoso", true],
+    ["Budi Santoso", "Budi S.", true],
+    ["Budi", "Budi Santoso", true],
+    ["Budi Santoso", "Budi Hartono", false],
+    ["Budi Santoso", "Andi Santoso", false],
+  ];
+
+  it.each(cases)("%s / %s", (a, b, expected) => {
+    expect(namesLikelySame(a, b)).toBe(expected);
+  });
+});
+
+describe("identitiesCompatible", () => {
+  it("treats missing values as unknown and different values as a conflict", () => {
+    expect(identitiesCompatible({ employeeCode: "E1", tanggalLahir: null }, { employeeCode: null, tanggalLahir: "01-01-1990" })).toBe(true);
+    expect(identitiesCompatible({ employeeCode: "E1", tanggalLahir: null }, { employeeCode: "E2", tanggalLahir: null })).toBe(false);
+    expect(identitiesCompatible({ employeeCode: null, tanggalLahir: "01-01-1990" }, { employeeCode: null, tanggalLahir: "02-01-1990" })).toBe(false);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups spelling variants of one person", () => {
+    const people = [person("1", "Budi Santoso"), person("2", "Budi S."), person("3", "Andi")];
+    expect(ids(findDuplicateGroups(people))).toEqual([["1", "2"]]);
+  });
+
+  it("does not let a short name bridge two different full names", () => {
+    const people = [person("1", "Budi"), person("2", "Budi Santoso"), person("3", "Budi Hartono")];
+    expect(ids(findDuplicateGroups(people))).toEqual([["1", "2"]]);
+  });
+
+  it("does not chain different employee codes through a person without one", () => {
+    const people = [
+      person("1", "Budi Santoso", { employeeCode: "E1" }),
+      person("2", "Budi Santoso"),
+      person("3", "Budi Santoso", { employeeCode: "E2" }),
+    ];
+    const groups = findDuplicateGroups(people);
+    expect(ids(groups)).toEqual([["1", "2"]]);
+    expect(groups.flat().map(p => p.employeeCode)).not.toContain("E2");
+  });
+
+  it("does not chain different birth dates through a person without one", () => {
+    const people = [
+      person("1", "Budi Santoso", { tanggalLahir: "01-01-1990" }),
+      person("2", "Budi Santoso"),
+      person("3", "Budi Santoso", { tanggalLahir: "05-05-1985" }),
+    ];
+    expect(ids(findDuplicateGroups(people))).toEqual([["1", "2"]]);
+  });
+
+  it("never groups a person with themselves alone", () => {
+    expect(findDuplicateGroups([person("1", "Budi Santoso")])).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Person name matching for the people registry
+ * Used to link audits to an existing auditee and to suggest duplicates for merging
+ */
+
+import type { Person } from "@shared/schema";
+
+export function normalizeName(nama: string): string {
+  return nama
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * "Budi S." and "Budi Santoso" match: same first name, and every remaining token
+ * of the shorter name is a prefix (initial or abbreviation) of the longer one
+ */
+export function namesLikelySame(a: string, b: string): boolean {
+  const tokensA = normalizeName(a).split(" ");
+  const tokensB = normalizeName(b).split(" ");
+  if (tokensA.join(" ") === tokensB.join(" ")) return true;
+  if (tokensA[0] !== tokensB[0]) return false;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  // Either side may carry the abbreviation: "Budi Santoso" / "Budi S." match in both orders
+  return shorter.every((token, i) => longer[i] !== undefined && (longer[i].startsWith(token) || token.startsWith(longer[i])));
+}
+
+/**
+ * Employee codes and birth dates do not contradict each other (a missing value never conflicts)
+ */
+export function identitiesCompatible(
+  a: Pick<Person, "employeeCode" | "tanggalLahir">,
+  b: Pick<Person, "employeeCode" | "tanggalLahir">
+): boolean {
+  const codesCompatible = !a.employeeCode || !b.employeeCode || a.employeeCode === b.employeeCode;
+  const birthDatesCompatible = !a.tanggalLahir || !b.tanggalLahir || a.tanggalLahir === b.tanggalLahir;
+  return codesCompatible && birthDatesCompatible;
+}
+
+/**
+ * Group people that are probably the same employee (groups of 2 or more)
+ * A person only joins a group that they match pairwise with every member, so "Budi" never bridges
+ * "Budi Santoso" and "Budi Hartono", and people with different employee codes or birth dates are never grouped
+ */
+export function findDuplicateGroups<T extends Person>(people: T[]): T[][] {
+  const groups: T[][] = [];
+
+  for (const person of people) {
+    const group = groups.find(members => members.every(member =>
+      identitiesCompatible(member, person) && namesLikelySame(member.nama, person.nama)
+    ));
+    if (group) group.push(person);
+    else groups.push([person]);
+  }
+
+  return groups.filter(group => group.length > 1);
+}
@@ -0,0 +1,143 @@
+/**
+ * ProDem Workflow Routes for AiSG
+ * Review and approval of ProDem recommendations with a stored decision trail
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { prodemDecisionSchema, type Audit } from "@shared/schema";
+import { storage } from "./storage";
+import { recordActivity } from "./activity";
+import { requireAuth } from "./middleware";
+import { canAccessAudit } from "./auth";
+import { supervisesOwner } from "./hierarchy";
+import { availableProdemActions, canActOnProdem, nextProdemStatus, type ProdemActor } from "./prodem-workflow";
+
+export function registerProdemRoutes(app: Express) {
+  /**
+   * GET /api/audit/:id/prodem-workflow
+   * Workflow state, decision trail and the actions the current user may take
+   */
+  app.get("/api/audit/:id/prodem-workflow", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
+      if (!audit) {
+        res.status(404).json({ error: "Audit not found" });
+        return;
+      }
+
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
+        res.status(403).json({
+          error: "Forbidden",
+          userMessage: "Anda tidak memiliki akses ke audit ini"
+        });
+        return;
+      }
+
+      const actor = await getProdemActor(req, audit);
+      res.json({
+        status: audit.prodemStatus,
+        engineRecommendation: audit.prodemRekomendasi.recommendation,
+        finalRecommendation: audit.prodemFinalRecommendation,
+        decisions: await storage.getProdemDecisions(audit.id),
+        availableActions: audit.deletedAt ? [] : availableProdemActions(audit.prodemStatus, actor),
+      });
+    } catch (error) {
+      console.error("Error fetching ProDem workflow:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/audit/:id/prodem-workflow
+   * Review (direct upline), approve or override (Admin only, override needs a justification)
+   */
+  app.post("/api/audit/:id/prodem-workflow", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
+      if (!audit || audit.deletedAt) {
+        res.status(404).json({ error: "Audit not found" });
+        return;
+      }
+
+      const decision = prodemDecisionSchema.parse(req.body);
+
+      if (!canActOnProdem(decision.action, await getProdemActor(req, audit))) {
+        res.status(403).json({
+          error: "Forbidden",
+          userMessage: decision.action === "review"
+            ? "Hanya atasan langsung pemilik audit yang dapat meninjau rekomendasi ProDem"
+            : "Hanya Admin yang dapat menyetujui atau meng-override rekomendasi ProDem"
+        });
+        return;
+      }
+
+      const toStatus = nextProdemStatus(audit.prodemStatus, decision.action);
+      if (!toStatus) {
+        res.status(409).json({
+          error: "Invalid transition",
+          userMessage: `Aksi ini tidak dapat dilakukan saat status ProDem "${audit.prodemStatus}"`
+        });
+        return;
+      }
+
+      if (decision.action === "override" && decision.recommendation === audit.prodemRekomendasi.recommendation) {
+        res.status(400).json({
+          error: "Validation error",
+          userMessage: "Rekomendasi override sama dengan rekomendasi sistem. Gunakan Setujui."
+        });
+        return;
+      }
+
+      const updated = await storage.recordProdemDecision(audit, decision, toStatus, req.user!.id);
+      if (!updated) {
+        res.status(409).json({
+          error: "Invalid transition",
+          userMessage: "Status ProDem baru saja berubah. Muat ulang lalu coba lagi."
+        });
+        return;
+      }
+      await recordActivity(req, {
+        action: "prodem_decision",
+        targetType: "audit",
+        targetId: audit.id,
+        details: {
+          nama: audit.nama,
+          decision: decision.action,
+          fromStatus: audit.prodemStatus,
+          toStatus,
+          fromRecommendation: audit.prodemFinalRecommendation,
+          toRecommendation: updated.prodemFinalRecommendation,
+          note: decision.note ?? null,
+        },
+      });
+      res.json(updated);
+    } catch (error: any) {
+      handleProdemError(res, error, "Error recording ProDem decision:");
+    }
+  });
+}
+
+async function getProdemActor(req: Request, audit: Audit): Promise<ProdemActor> {
+  const owner = audit.ownerId ? await storage.getUser(audit.ownerId) : undefined;
+  return {
+    isAdmin: req.user!.role === "full_admin" || req.user!.role === "admin",
+    isDirectUpline: supervisesOwner(owner, req.user!.id, req.downlineIds, true),
+    hasUpline: !!owner?.supervisorId,
+  };
+}
+
+function handleProdemError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
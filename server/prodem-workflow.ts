@@ -0,0 +1,45 @@
+/**
+ * ProDem approval workflow for AiSG
+ * The engine recommendation starts as a draft, the direct upline reviews it and an admin approves or overrides it
+ */
+
+import type { ProdemDecisionInput, ProdemStatus } from "@shared/schema";
+
+type ProdemAction = ProdemDecisionInput["action"];
+
+// Status an action may start from, and the status it leads to
+const TRANSITIONS: Record<ProdemAction, { from: ProdemStatus; to: ProdemStatus }> = {
+  review: { from: "draft", to: "reviewed" },
+  approve: { from: "reviewed", to: "approved" },
+  override: { from: "reviewed", to: "overridden" },
+};
+
+export interface ProdemActor {
+  isAdmin: boolean;
+  isDirectUpline: boolean;
+  hasUpline: boolean; // The audit owner has a supervisor who is expected to review
+}
+
+/**
+ * Next status for an action, or null when the action is not allowed in the current status
+ */
+export function nextProdemStatus(current: ProdemStatus, action: ProdemAction): ProdemStatus | null {
+  const transition = TRANSITIONS[action];
+  return transition.from === current ? transition.to : null;
+}
+
+/**
+ * Reviews come from the direct upline (admins may stand in when there is none); decisions are admin-only
+ */
+export function canActOnProdem(action: ProdemAction, actor: ProdemActor): boolean {
+  if (action === "review") return actor.isDirectUpline || (actor.isAdmin && !actor.hasUpline);
+  return actor.isAdmin;
+}
+
+/**
+ * Actions the actor can take right now, used by the ProDem tab to show its buttons
+ */
+export function availableProdemActions(current: ProdemStatus, actor: ProdemActor): ProdemAction[] {
+  return (Object.keys(TRANSITIONS) as ProdemAction[])
+    .filter(action => nextProdemStatus(current, action) !== null && canActOnProdem(action, actor));
+}
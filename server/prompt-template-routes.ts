@@ -0,0 +1,137 @@
+/**
+ * Coach Prompt Template Routes for AiSG
+ * Versioned system prompts with audit placeholders that admins can publish per role or zone without a deploy
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertCoachPromptTemplateSchema, coachPromptPreviewSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+import {
+  PROMPT_PLACEHOLDERS,
+  DEFAULT_COACH_PROMPT_TEMPLATE,
+  PromptTemplateError,
+  buildPromptContext,
+  renderPromptTemplate,
+  selectPromptTemplate,
+  validatePromptTemplate,
+} from "./prompt-template";
+
+export function registerPromptTemplateRoutes(app: Express) {
+  /**
+   * GET /api/admin/prompt-templates
+   * All template versions grouped by name, newest version first (Admin only)
+   */
+  app.get("/api/admin/prompt-templates", requireAuth, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      const templates = await storage.getPromptTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching prompt templates:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * GET /api/admin/prompt-templates/placeholders
+   * Placeholders the editor can offer (Admin only)
+   */
+  app.get("/api/admin/prompt-templates/placeholders", requireAuth, requireAdmin, (_req: Request, res: Response) => {
+    res.json(PROMPT_PLACEHOLDERS);
+  });
+
+  /**
+   * POST /api/admin/prompt-templates
+   * Save a new draft version of a template; a new name starts at version 1 (Admin only)
+   * Placeholders are checked up front so a typo can never be published
+   */
+  app.post("/api/admin/prompt-templates", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = insertCoachPromptTemplateSchema.parse(req.body);
+      validatePromptTemplate(validated.body);
+
+      const template = await storage.createPromptTemplate(validated, req.user!.id);
+      res.status(201).json(template);
+    } catch (error) {
+      handlePromptTemplateError(res, error, "Error creating prompt template:");
+    }
+  });
+
+  /**
+   * POST /api/admin/prompt-templates/preview
+   * Render a prompt for a chosen audit (Admin only)
+   * With `body` the unsaved editor content is rendered; otherwise the template live for `role` and the audit's zone
+   */
+  app.post("/api/admin/prompt-templates/preview", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { auditId, body, role } = coachPromptPreviewSchema.parse(req.body);
+      if (body !== undefined) validatePromptTemplate(body);
+
+      const audit = await storage.getAudit(auditId);
+      if (!audit || audit.deletedAt) {
+        res.status(404).json({ error: "Audit not found", userMessage: "Audit tidak ditemukan" });
+        return;
+      }
+
+      const template = body === undefined
+        ? selectPromptTemplate(await storage.getActivePromptTemplates(), role, audit.zonaFinal)
+        : null;
+
+      const context = buildPromptContext(audit, await storage.getActionPlanItems(audit.id));
+      res.json({
+        template,
+        prompt: renderPromptTemplate(body ?? template?.body ?? DEFAULT_COACH_PROMPT_TEMPLATE, context),
+      });
+    } catch (error) {
+      handlePromptTemplateError(res, error, "Error previewing prompt template:");
+    }
+  });
+
+  /**
+   * POST /api/admin/prompt-templates/:id/publish
+   * Make a draft the live version of its template name (Admin only)
+   */
+  app.post("/api/admin/prompt-templates/:id/publish", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getPromptTemplate(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Prompt template not found" });
+        return;
+      }
+
+      if (existing.status === "published") {
+        res.status(409).json({
+          error: "Already published",
+          userMessage: `${existing.name} versi ${existing.version} sudah dipublikasikan`
+        });
+        return;
+      }
+
+      const template = await storage.publishPromptTemplate(existing.id, req.user!.id);
+      res.json(template);
+    } catch (error) {
+      handlePromptTemplateError(res, error, "Error publishing prompt template:");
+    }
+  });
+}
+
+function handlePromptTemplateError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else if (error instanceof PromptTemplateError) {
+    res.status(400).json({
+      error: "Invalid prompt template",
+      userMessage: error.message
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
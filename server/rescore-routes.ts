@@ -0,0 +1,172 @@
+/**
+ * Re-score Routes for AiSG
+ * Re-run the scoring engine over stored audits (dry-run diff, optional commit as revision)
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { Audit, ScoringRuleSet } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+import { processAuditData } from "./business-logic";
+import { recordActivity } from "./activity";
+
+const rescoreRequestSchema = z.object({
+  auditIds: z.array(z.string()).min(1, "Pilih minimal 1 audit").max(200, "Maksimal 200 audit sekali proses"),
+  ruleSetId: z.string().optional(), // Defaults to the active rule set
+  note: z.string().optional(),
+});
+
+type ResultSummary = {
+  totalRealityScore: number;
+  zonaFinal: string;
+  profil: string;
+  recommendation: string;
+  scoringRuleVersion: number | null;
+};
+
+function summarize(results: {
+  totalRealityScore: number;
+  zonaFinal: string;
+  profil: string;
+  prodemRekomendasi: { recommendation: string };
+  scoringRuleVersion: number | null;
+}): ResultSummary {
+  return {
+    totalRealityScore: results.totalRealityScore,
+    zonaFinal: results.zonaFinal,
+    profil: results.profil,
+    recommendation: results.prodemRekomendasi.recommendation,
+    scoringRuleVersion: results.scoringRuleVersion,
+  };
+}
+
+/**
+ * Re-run processAuditData for each audit against the given rule set without saving
+ */
+async function rescoreAudits(auditIds: string[], ruleSet?: ScoringRuleSet) {
+  const context = await storage.getScoringContext(ruleSet);
+
+  const rescored: Array<{
+    audit: Audit;
+    processed: ReturnType<typeof processAuditData>;
+  }> = [];
+  const missing: string[] = [];
+
+  for (const id of auditIds) {
+    const audit = await storage.getAudit(id);
+    if (!audit || audit.deletedAt) {
+      missing.push(id);
+      continue;
+    }
+    rescored.push({ audit, processed: processAuditData(audit, context, audit.createdAt) });
+  }
+
+  const results = rescored.map(({ audit, processed }) => {
+    const before = summarize(audit);
+    const after = summarize(processed);
+    return {
+      auditId: audit.id,
+      nama: audit.nama,
+      jabatan: audit.jabatan,
+      cabang: audit.cabang,
+      before,
+      after,
+      changed:
+        before.totalRealityScore !== after.totalRealityScore ||
+        before.zonaFinal !== after.zonaFinal ||
+        before.profil !== after.profil ||
+        before.recommendation !== after.recommendation,
+    };
+  });
+
+  return { version: context.scoringRules.version, rescored, results, missing };
+}
+
+export function registerRescoreRoutes(app: Express) {
+  /**
+   * POST /api/admin/rescore/preview
+   * Dry run: show how selected audits would move under a rule set (Admin only)
+   * Draft rule sets are allowed so thresholds can be tested before publishing
+   */
+  app.post("/api/admin/rescore/preview", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = rescoreRequestSchema.parse(req.body);
+
+      let ruleSet: ScoringRuleSet | undefined;
+      if (validated.ruleSetId) {
+        ruleSet = await storage.getScoringRuleSet(validated.ruleSetId);
+        if (!ruleSet) {
+          res.status(404).json({ error: "Scoring rule set not found" });
+          return;
+        }
+      }
+
+      const { version, results, missing } = await rescoreAudits(validated.auditIds, ruleSet);
+      res.json({ scoringRuleVersion: version, results, missing });
+    } catch (error: any) {
+      handleRescoreError(res, error, "Error previewing rescore:");
+    }
+  });
+
+  /**
+   * POST /api/admin/rescore/commit
+   * Save re-scored results; the previous state of each audit is kept as a revision (Admin only)
+   */
+  app.post("/api/admin/rescore/commit", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = rescoreRequestSchema.parse(req.body);
+
+      let ruleSet: ScoringRuleSet | undefined;
+      if (validated.ruleSetId) {
+        ruleSet = await storage.getScoringRuleSet(validated.ruleSetId);
+        if (!ruleSet) {
+          res.status(404).json({ error: "Scoring rule set not found" });
+          return;
+        }
+        if (ruleSet.status !== "published") {
+          res.status(400).json({
+            error: "Rule set not published",
+            userMessage: `Rule set v${ruleSet.version} masih draft. Publikasikan dulu sebelum commit.`
+          });
+          return;
+        }
+      }
+
+      const { version, rescored, results, missing } = await rescoreAudits(validated.auditIds, ruleSet);
+
+      for (const { audit, processed } of rescored) {
+        await storage.updateAuditWithRevision(audit.id, processed, {
+          changeType: "rescore",
+          changedById: req.user!.id,
+          note: validated.note || `Re-score dengan rule set v${version}`,
+        });
+      }
+      await recordActivity(req, results.map(result => ({
+        action: "audit_rescore" as const,
+        targetType: "audit" as const,
+        targetId: result.auditId,
+        details: { nama: result.nama, before: result.before, after: result.after, note: validated.note ?? null },
+      })));
+
+      res.json({ scoringRuleVersion: version, results, missing, committed: rescored.length });
+    } catch (error: any) {
+      handleRescoreError(res, error, "Error committing rescore:");
+    }
+  });
+}
+
+function handleRescoreError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Retention policy for soft-deleted audits
+ * Audits stay in the trash until AUDIT_RETENTION_DAYS is set (unset or 0 keeps them forever),
+ * then they are purged after that many days with their chat history and every purge is written to the activity log
+ */
+
+import type { Audit } from "@shared/schema";
+import { storage } from "./storage";
+
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a soft-deleted audit is kept (0 = retention disabled, also when unset or invalid)
+ */
+export function getRetentionDays(): number {
+  const configured = Number(process.env.AUDIT_RETENTION_DAYS);
+  return process.env.AUDIT_RETENTION_DAYS && Number.isInteger(configured) && configured > 0 ? configured : 0;
+}
+
+/**
+ * When a soft-deleted audit will be purged (NULL = retention disabled)
+ */
+export function purgeDateFor(deletedAt: Date, retentionDays = getRetentionDays()): Date | null {
+  if (retentionDays === 0) return null;
+  return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+export async function purgeExpiredAudits(now = new Date()): Promise<Audit[]> {
+  const retentionDays = getRetentionDays();
+  if (retentionDays === 0) return [];
+
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  return storage.purgeDeletedAudits(cutoff, retentionDays);
+}
+
+/**
+ * Purge once at startup, then daily; failures are logged and retried on the next run
+ * Nothing is scheduled unless AUDIT_RETENTION_DAYS is set
+ */
+export function startRetentionJob(): void {
+  const retentionDays = getRetentionDays();
+  if (retentionDays === 0) {
+    console.log("ℹ️ Audit retention disabled (AUDIT_RETENTION_DAYS not set), soft-deleted audits are kept");
+    return;
+  }
+  console.log(`🗑️ Audit retention: soft-deleted audits are purged after ${retentionDays} days`);
+
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredAudits();
+      if (purged.length > 0) {
+        const list = purged.map(audit => `${audit.nama} (${audit.id})`).join(", ");
+        console.log(`🗑️ Purged ${purged.length} soft-deleted audits past the ${retentionDays}-day retention: ${list}`);
+      }
+    } catch (error) {
+      console.error("❌ Failed to purge soft-deleted audits:", error);
+    }
+  };
+
+  void run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
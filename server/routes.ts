@@ -1,33 +1,101 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertAuditSchema, insertChatMessageSchema } from "@shared/schema";
+import { storage, AuditLinkError } from "./storage";
+import { insertAuditSchema, updateAuditSchema, auditListQuerySchema, insertChatMessageSchema, updateActionPlanItemSchema, supervisorAssessmentSchema } from "@shared/schema";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
-import gemini from "./gemini";
-import openai from "./openai";
-import { generateKnowledgeBasedResponse } from "./knowledge-base";
+import { generateCoachReply, streamCoachReply, AiGenerationCancelledError, AiProvidersExhaustedError, type ChatTurn, type CoachRequest } from "./ai-providers";
+import { buildCoachSystemPrompt } from "./coach-prompt";
 import { generateAuditPDF } from "./pdf-generator";
 import { registerAuthRoutes } from "./auth-routes";
+import { registerCareerLevelRoutes } from "./career-level-routes";
+import { registerScoringRuleRoutes } from "./scoring-rule-routes";
+import { registerRescoreRoutes } from "./rescore-routes";
+import { registerPeopleRoutes } from "./people-routes";
+import { registerBranchRoutes } from "./branch-routes";
+import { registerAnalyticsRoutes } from "./analytics-routes";
+import { registerHierarchyRoutes } from "./hierarchy-routes";
+import { registerFeedbackRoutes } from "./feedback-routes";
+import { registerProdemRoutes } from "./prodem-routes";
+import { registerImportRoutes } from "./import-routes";
+import { registerExportRoutes } from "./export-routes";
+import { registerTrashRoutes } from "./trash-routes";
+import { registerActivityRoutes } from "./activity-routes";
+import { registerPromptTemplateRoutes } from "./prompt-template-routes";
+import { registerKnowledgeRoutes } from "./knowledge-routes";
 import { requireAuth, requireFullAdmin, requireAdmin } from "./middleware";
 import { canAccessAudit } from "./auth";
+import { isActionPlanItemOverdue, mergeOverdueEWS } from "./business-logic";
+import { supervisesOwner } from "./hierarchy";
+import { visibleOwnerIds, InvalidCursorError } from "./audit-query";
+import { recordActivity } from "./activity";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register authentication routes first
   registerAuthRoutes(app);
+  registerCareerLevelRoutes(app);
+  registerScoringRuleRoutes(app);
+  registerRescoreRoutes(app);
+  registerPeopleRoutes(app);
+  registerBranchRoutes(app);
+  registerAnalyticsRoutes(app);
+  registerHierarchyRoutes(app);
+  registerFeedbackRoutes(app);
+  registerProdemRoutes(app);
+  registerImportRoutes(app);
+  registerExportRoutes(app);
+  registerTrashRoutes(app);
+  registerActivityRoutes(app);
+  registerPromptTemplateRoutes(app);
+  registerKnowledgeRoutes(app);
   // POST /api/audit - Create new audit and return results (Protected)
   app.post("/api/audit", requireAuth, async (req, res) => {
     try {
       const validated = insertAuditSchema.parse(req.body);
       
+      // Audits for someone else: admins for anyone, supervisors for their downline
+      const ownerId = validated.ownerId || req.user!.id;
+      if (!canAccessAudit(req.user!.role, req.user!.id, ownerId, req.downlineIds)) {
+        res.status(403).json({ 
+          error: "Forbidden", 
+          userMessage: "Anda hanya bisa membuat audit untuk diri sendiri atau downline Anda" 
+        });
+        return;
+      }
+      
+      // Linking to a registered person: admins for anyone, auditors for people from audits they can access
+      if (validated.personId) {
+        const person = await storage.getPerson(validated.personId);
+        if (!person) {
+          res.status(400).json({ 
+            error: "Invalid reference", 
+            userMessage: "Auditee yang dipilih tidak ditemukan di registry" 
+          });
+          return;
+        }
+        if (!(await canLinkPerson(req, person.id))) {
+          res.status(403).json({ 
+            error: "Forbidden", 
+            userMessage: "Anda tidak dapat menautkan audit ke auditee ini" 
+          });
+          return;
+        }
+      }
+      
       // Add ownership tracking
       const auditWithOwnership = {
         ...validated,
-        ownerId: req.user!.id, // Current user owns this audit
+        ownerId, // Auditee's account owns this audit
         createdById: req.user!.id, // Current user created this audit
       };
       
-      const audit = await storage.createAudit(auditWithOwnership);
+      const audit = await storage.createAudit(auditWithOwnership, { allowNewBranch: isAdminRole(req.user!.role) });
+      await recordActivity(req, {
+        action: "audit_create",
+        targetType: "audit",
+        targetId: audit.id,
+        details: { nama: audit.nama, ownerId: audit.ownerId },
+      });
       
       // Return audit with all calculated results
       res.json({
@@ -45,6 +113,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           error: "Validation error", 
           details: validationError.message 
         });
+      } else if (error instanceof AuditLinkError) {
+        res.status(400).json({ error: "Invalid reference", userMessage: error.message });
       } else {
         console.error("Error creating audit:", error);
         res.status(500).json({ error: "Internal server error" });
@@ -89,34 +159,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/audits - Get all audits (Protected with ownership filter)
+  // GET /api/audits - Search audits (Protected with ownership filter)
+  // Filters: search, zona, profil, prodem, branchId, level, from, to, ownerId; sort/order; cursor + limit for paging
   app.get("/api/audits", requireAuth, async (req, res) => {
     try {
-      const allAudits = await storage.getAllAudits();
+      // Full Admin can see all audits, supervisors their own and their downline's, others only their own
+      const query = { ...auditListQuerySchema.parse(req.query), deleted: "active" as const };
+      const page = await storage.searchAudits(query, visibleOwnerIds(req.user!.role, req.user!.id, req.downlineIds));
       
-      // Full Admin can see all audits, others see only their own
-      if (req.user!.role === "full_admin" || req.user!.role === "admin") {
-        res.json(allAudits);
-      } else {
-        // Filter to only user's own audits
-        const userAudits = allAudits.filter(audit => audit.ownerId === req.user!.id);
-        res.json(userAudits);
-      }
+      // Without a limit the whole filtered list is returned as a plain array
+      res.json(query.limit ? page : page.items);
     } catch (error) {
-      console.error("Error fetching audits:", error);
-      res.status(500).json({ error: "Internal server error" });
+      handleAuditListError(res, error, "Error fetching audits:");
     }
   });
 
-  // GET /api/admin/audit-log - Get all audits with creator info (Admin only, includes soft-deleted)
+  // GET /api/admin/audit-log - Get all audits with creator info (Admin only, includes soft-deleted unless filtered)
+  // Same query parameters as /api/audits, plus deleted=active|deleted|all
   app.get("/api/admin/audit-log", requireAuth, requireAdmin, async (req, res) => {
     try {
-      // Admin can see all audits including soft-deleted ones
-      const auditsWithCreators = await storage.getAuditsWithCreators(true);
-      res.json(auditsWithCreators);
+      const query = auditListQuerySchema.parse({ deleted: "all", ...req.query });
+      const page = await storage.searchAuditLog(query);
+      res.json(query.limit ? page : page.items);
     } catch (error) {
-      console.error("Error fetching audit log:", error);
-      res.status(500).json({ error: "Internal server error" });
+      handleAuditListError(res, error, "Error fetching audit log:");
     }
   });
 
@@ -131,7 +197,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check access permission
-      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId)) {
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
         res.status(403).json({ 
           error: "Forbidden", 
           userMessage: "Anda tidak memiliki akses ke audit ini" 
@@ -139,6 +205,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
+      await recordActivity(req, { action: "audit_view", targetType: "audit", targetId: audit.id, details: { nama: audit.nama } });
       res.json(audit);
     } catch (error) {
       console.error("Error fetching audit:", error);
@@ -146,25 +213,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POST /api/chat - Send chat message and get AI response (Protected)
-  // 3-Source AI System: ChatGPT (OpenAI) → Gemini → Internal Knowledge Base
-  app.post("/api/chat", requireAuth, async (req, res) => {
+  // PATCH /api/audit/:id - Correct audit input and recalculate results (Protected with ownership check)
+  // Previous state is kept in audit_revisions
+  app.patch("/api/audit/:id", requireAuth, async (req, res) => {
     try {
-      const schema = z.object({
-        auditId: z.string(),
-        message: z.string().min(1)
+      const audit = await storage.getAudit(req.params.id);
+      
+      if (!audit || audit.deletedAt) {
+        res.status(404).json({ error: "Audit not found" });
+        return;
+      }
+      
+      // Check access permission
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
+        res.status(403).json({ 
+          error: "Forbidden", 
+          userMessage: "Anda tidak memiliki akses ke audit ini" 
+        });
+        return;
+      }
+      
+      const { note, ...changes } = updateAuditSchema
+        .extend({ note: z.string().max(500).optional() })
+        .parse(req.body);
+      
+      if (Object.keys(changes).length === 0) {
+        res.status(400).json({ 
+          error: "No changes", 
+          userMessage: "Tidak ada data yang diubah" 
+        });
+        return;
+      }
+      
+      const updated = await storage.updateAudit(audit.id, changes, req.user!.id, note, { allowNewBranch: isAdminRole(req.user!.role) });
+      await recordActivity(req, {
+        action: "audit_update",
+        targetType: "audit",
+        targetId: audit.id,
+        details: { nama: audit.nama, fields: Object.keys(changes), note: note ?? null },
       });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: validationError.message 
+        });
+      } else if (error instanceof AuditLinkError) {
+        res.status(400).json({ error: "Invalid reference", userMessage: error.message });
+      } else {
+        console.error("Error updating audit:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // GET /api/audit/:id/revisions - Change history of an audit, newest first (Protected with ownership check)
+  app.get("/api/audit/:id/revisions", requireAuth, async (req, res) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
       
-      const { auditId, message } = schema.parse(req.body);
+      if (!audit) {
+        res.status(404).json({ error: "Audit not found" });
+        return;
+      }
+      
+      // Check access permission
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
+        res.status(403).json({ 
+          error: "Forbidden", 
+          userMessage: "Anda tidak memiliki akses ke audit ini" 
+        });
+        return;
+      }
+      
+      const revisions = await storage.getAuditRevisions(audit.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching audit revisions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/audit/:id/supervisor-assessment - Assessment status and whether the current user may submit it (Protected with ownership check)
+  app.get("/api/audit/:id/supervisor-assessment", requireAuth, async (req, res) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
       
-      const audit = await storage.getAudit(auditId);
       if (!audit) {
         res.status(404).json({ error: "Audit not found" });
         return;
       }
       
       // Check access permission
-      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId)) {
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
         res.status(403).json({ 
           error: "Forbidden", 
           userMessage: "Anda tidak memiliki akses ke audit ini" 
@@ -172,252 +315,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
-      await storage.createChatMessage({
-        auditId,
-        role: "user",
-        content: message
+      const assessor = audit.supervisorAssessedById ? await storage.getUser(audit.supervisorAssessedById) : undefined;
+      res.json({
+        canAssess: !audit.deletedAt && await canAssessAudit(req, audit.ownerId),
+        assessedAt: audit.supervisorAssessedAt,
+        assessedByName: assessor?.name ?? null,
       });
+    } catch (error) {
+      console.error("Error fetching supervisor assessment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PUT /api/audit/:id/supervisor-assessment - Direct upline scores the 18 pillars, results are recalculated (Protected: direct upline or admin)
+  // Previous state is kept in audit_revisions
+  app.put("/api/audit/:id/supervisor-assessment", requireAuth, async (req, res) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
       
-      const history = await storage.getChatHistory(auditId);
+      if (!audit || audit.deletedAt) {
+        res.status(404).json({ error: "Audit not found" });
+        return;
+      }
       
-      // Build comprehensive audit context for AI
-      const pillarScores = audit.pillarAnswers.map((p: any) => 
-        `  Pilar ${p.pillarId}: Self=${p.selfScore}/5, Reality=${p.realityScore}/5, Gap=${p.gap}`
-      ).join('\n');
+      if (!(await canAssessAudit(req, audit.ownerId))) {
+        res.status(403).json({ 
+          error: "Forbidden", 
+          userMessage: "Hanya atasan langsung pemilik audit yang dapat memberi penilaian atasan" 
+        });
+        return;
+      }
       
-      const performanceMetrics = `
-Q1: Margin=$${audit.marginTimQ1.toLocaleString()}, NA=${audit.naTimQ1}
-Q2: Margin=$${audit.marginTimQ2.toLocaleString()}, NA=${audit.naTimQ2}
-Q3: Margin=$${audit.marginTimQ3.toLocaleString()}, NA=${audit.naTimQ3}
-Q4: Margin=$${audit.marginTimQ4.toLocaleString()}, NA=${audit.naTimQ4}
-TOTAL: Margin=$${(audit.marginTimQ1+audit.marginTimQ2+audit.marginTimQ3+audit.marginTimQ4).toLocaleString()}`;
+      const validated = supervisorAssessmentSchema.parse(req.body);
+      if (new Set(validated.scores.map(s => s.pillarId)).size !== 18) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          userMessage: "Setiap pilar hanya boleh dinilai sekali" 
+        });
+        return;
+      }
+      
+      const updated = await storage.saveSupervisorAssessment(audit.id, validated, req.user!.id);
+      await recordActivity(req, {
+        action: "audit_update",
+        targetType: "audit",
+        targetId: audit.id,
+        details: { nama: audit.nama, fields: ["supervisorAssessment"] },
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          error: "Validation error", 
+          userMessage: error.errors[0].message,
+          details: validationError.message 
+        });
+      } else {
+        console.error("Error saving supervisor assessment:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
 
-      const teamStructure = `BC:${audit.jumlahBC}, SBC:${audit.jumlahSBC}, BSM:${audit.jumlahBsM}, SBM:${audit.jumlahSBM}, EM:${audit.jumlahEM}, SEM:${audit.jumlahSEM}, VBM:${audit.jumlahVBM}, BrM:${audit.jumlahBrM}`;
+  // GET /api/audit/:id/action-plan - 30-60-90 tasks with progress summary and EWS incl. overdue items (Protected with ownership check)
+  app.get("/api/audit/:id/action-plan", requireAuth, async (req, res) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
       
-      const totalPercentage = Math.round((audit.totalRealityScore / 90) * 100);
+      if (!audit) {
+        res.status(404).json({ error: "Audit not found" });
+        return;
+      }
       
-      const systemPrompt = `Anda adalah COACH PROFESIONAL bernama AiSG Coach - seorang expert bisnis dan leadership dengan 15+ tahun pengalaman. Anda sedang coaching ${audit.nama}, seorang ${audit.jabatan} di cabang ${audit.cabang}. 
-
-PERSONALITY ANDA:
-- **WARM & SUPPORTIVE**: Seperti mentor senior yang peduli, bukan robot
-- **CONVERSATIONAL**: Ngobrol natural, gunakan analogi, cerita, dan contoh real
-- **ACTIONABLE**: Selalu berikan langkah konkret, bukan teori doang
-- **MOTIVATIONAL**: Selalu lihat potensi, bukan cuma masalah
-- **DATA-DRIVEN**: Rujuk data audit spesifik untuk kredibilitas
-
-CARA BICARA ANDA:
-✅ "Wah, saya lihat Reality Score kamu ${audit.totalRealityScore}/90 (${totalPercentage}%). Ini solid bro!"
-✅ "Berdasarkan data Q4 kamu yang margin $${audit.marginTimQ4.toLocaleString()}, saya punya beberapa strategi..."
-✅ "Coba kita lihat SWOT kamu nih. Strength kamu di ${audit.auditReport.swotAnalysis.strength[0]}, ini asset besar lho!"
-❌ "Hasil audit menunjukkan..." (terlalu formal/kaku)
-❌ "Saya rekomendasikan..." (terlalu robotic)
-
-═══════════════════════════════════
-📊 DATA AUDIT ${audit.nama.toUpperCase()}
-═══════════════════════════════════
-
-👤 PROFIL:
-- Nama: ${audit.nama}
-- Jabatan: ${audit.jabatan}
-- Cabang: ${audit.cabang}
-- Tanggal Lahir: ${audit.tanggalLahir}
-
-🎯 PERFORMANCE SNAPSHOT:
-- Reality Score: ${audit.totalRealityScore}/90 (${totalPercentage}%)
-- Profil: ${audit.profil}
-- Zona Kinerja: ${audit.zonaKinerja}
-- Zona Perilaku: ${audit.zonaPerilaku}
-- Zona Final: ${audit.zonaFinal}
-
-💰 QUARTERLY PERFORMANCE (Tim):
-${performanceMetrics}
-
-👥 STRUKTUR TIM (Under Langsung):
-${teamStructure}
-Total Team: ${audit.jumlahBC + audit.jumlahSBC + audit.jumlahBsM + audit.jumlahSBM + audit.jumlahEM + audit.jumlahSEM + audit.jumlahVBM + audit.jumlahBrM} orang
-
-📈 18 PILAR BREAKDOWN:
-${pillarScores}
-
-🔍 SWOT ANALYSIS:
-💪 Strengths: ${audit.auditReport.swotAnalysis.strength.join(', ')}
-⚠️ Weaknesses: ${audit.auditReport.swotAnalysis.weakness.join(', ')}
-🌟 Opportunities: ${audit.auditReport.swotAnalysis.opportunity.join(', ')}
-⚡ Threats: ${audit.auditReport.swotAnalysis.threat.join(', ')}
-
-🚀 PRODEM REKOMENDASI:
-- Status: ${audit.prodemRekomendasi.recommendation}
-- Alasan: ${audit.prodemRekomendasi.reason}
-- Next Step: ${audit.prodemRekomendasi.nextStep}
-
-📋 ACTION PLAN 30-60-90:
-${audit.auditReport.actionPlan.map(a => `${a.periode}: ${a.target} → ${a.aktivitas}`).join('\n')}
-
-⚠️ EWS (Early Warning):
-${audit.auditReport.ews.slice(0,3).map(e => `• ${e.faktor}: ${e.saranCepat}`).join('\n')}
-
-💡 COACHING POINTS:
-${audit.auditReport.coachingPoints.slice(0,4).join('\n• ')}
-
-═══════════════════════════════════
-🎓 KNOWLEDGE BASE & EXPERTISE ANDA
-═══════════════════════════════════
-
-LEADERSHIP & MANAGEMENT:
-- Vision & Direction: Buat visi jelas, komunikasikan konsisten, jadilah role model
-- Team Empowerment: Delegasi smart, feedback konstruktif, supportive environment
-- Decision Making: Data-driven, libatkan tim, berani tanggung jawab
-
-SALES & CLOSING:
-- Trial Close: "Bagaimana menurut Anda sejauh ini?"
-- Assumptive Close: "Kapan Anda ingin mulai?"
-- Alternative Close: "Prefer paket A atau B?"
-- Handle objections dengan empati, jangan pushy - be consultative
-
-TEAM BUILDING:
-- Komunikasi Efektif: Daily standup, open channel, active listening
-- Trust Building: Transparansi, deliver promises, celebrate wins
-- Conflict Resolution: Address segera, focus solution, win-win mindset
-
-RECRUITMENT (Komisi-based):
-- Value Prop: Unlimited earning, free training, flexibility
-- Target: Fresh grad hungry, career switcher, entrepreneur mindset
-- Script: "Cari partner bisnis. Modal nol. Yang butuh: willing to learn. Income: unlimited. Minat?"
-
-RETENTION STRATEGY:
-- Recognition: Public appreciation, reward top performers
-- Growth: Training program, clear career path, mentorship
-- Environment: Positive culture, work-life balance, family atmosphere
-
-PLANNING FRAMEWORK (30-60-90):
-- 30 Hari (Learn): Product mastery, observe top performers, build database
-- 60 Hari (Execute): Implement best practices, expand network, refine pitch
-- 90 Hari (Lead): Share knowledge, recruit new members, optimize process
-
-ZONA STRATEGIES:
-- Merah (Critical): Immediate action, daily coaching, micro-targets, master basics
-- Kuning (Warning): Stabilkan dulu, identify gap, peer learning, consistent execution  
-- Hijau (Success): Maintain & expand, mentor juniors, aim next level
-
-PRODEM CAREER PATH:
-- Promosi: Consistency, document achievements, mentor successors (3-6 bln)
-- Pertahankan: Stabilkan performance, strengthen weak areas, build track record
-- Pembinaan: Positive mindset, focus action plan, daily improvement, seek mentorship (90 hari)
-
-═══════════════════════════════════
-🎯 CARA ANDA COACHING
-═══════════════════════════════════
-
-1. **ALWAYS LEAD WITH DATA**: "Saya lihat di Q4 kamu closing $${audit.marginTimQ4.toLocaleString()}..."
-2. **STORYTELLING**: Gunakan analogi & contoh: "Ini kayak lagi main basket, kamu udah bagus di defense (Pilar X), sekarang tingkatin offense (Pilar Y)"
-3. **ASK REFLECTIVE QUESTIONS**: "Menurut kamu, apa yang bisa bikin tim kamu dari ${audit.jumlahBC + audit.jumlahSBC + audit.jumlahBsM} orang jadi 2x lipat?"
-4. **CELEBRATE WINS**: "Wah, SWOT kamu keren nih! Strength di '${audit.auditReport.swotAnalysis.strength[0]}' itu rare lho!"
-5. **ACTIONABLE STEPS**: Jangan cuma teori. Kasih 2-3 action items konkret
-6. **MAINTAIN HOPE**: Bahkan zona merah pun bisa turn around dengan strategi tepat
-
-TONE & STYLE:
-- Panggil "kamu/anda" (personal), bukan "user/employee"
-- Mix data dengan empati: "Skor ${totalPercentage}% solid, tapi saya tau ada potensi lebih!"
-- Gunakan emoji strategis (1-2 per respons) untuk warmth
-- Relate to their situation: "Sebagai ${audit.jabatan}, pressure-nya pasti beda ya..."
-- End dengan next step yang jelas
-
-RESPONSE FORMAT:
-- Paragraph 1: Acknowledge + Data point spesifik
-- Paragraph 2: Insight + Recommendation  
-- Paragraph 3: Action items + Motivasi
-
-PENTING: 
-❌ JANGAN robotic: "Berdasarkan hasil audit, rekomendasi saya..."
-✅ BE HUMAN: "Oke, gua udah liat hasil audit kamu nih. ${audit.nama}, dengan Reality Score ${totalPercentage}% dan profil ${audit.profil}, ini yang gua rekomen..."
-
-Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care tentang success mereka!`;
-
-      let aiResponse = "";
-      let sourceUsed = "";
-
-      // SOURCE 1: Try OpenAI ChatGPT first (primary)
-      try {
-        console.log("[CHAT] 🎯 Attempting Source 1: OpenAI ChatGPT...");
-        
-        const openaiMessages = [
-          { role: "system" as const, content: systemPrompt },
-          ...history.slice(-10).map(msg => ({
-            role: msg.role as "user" | "assistant",
-            content: msg.content
-          })),
-          { role: "user" as const, content: message }
-        ];
-
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4o-mini",
-          messages: openaiMessages,
-          temperature: 0.7,
-          max_tokens: 500,
+      // Check access permission
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
+        res.status(403).json({ 
+          error: "Forbidden", 
+          userMessage: "Anda tidak memiliki akses ke audit ini" 
         });
+        return;
+      }
+      
+      const items = await storage.getActionPlanItems(audit.id);
+      const now = new Date();
+      const summary = {
+        total: items.length,
+        selesai: items.filter(item => item.status === "selesai").length,
+        terlambat: items.filter(item => isActionPlanItemOverdue(item, now)).length,
+        progress: items.length > 0 ? Math.round(items.reduce((sum, item) => sum + item.progress, 0) / items.length) : 0,
+      };
+      
+      res.json({
+        items: items.map(item => ({ ...item, overdue: isActionPlanItemOverdue(item, now) })),
+        summary,
+        ews: mergeOverdueEWS(audit.auditReport.ews, items, now),
+      });
+    } catch (error) {
+      console.error("Error fetching action plan:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-        const responseText = completion.choices[0]?.message?.content;
-        
-        if (responseText && responseText.trim().length > 0) {
-          aiResponse = responseText.trim();
-          sourceUsed = "ChatGPT";
-          console.log("[CHAT] ✅ Source 1 SUCCESS: OpenAI ChatGPT responded");
-        } else {
-          throw new Error("OpenAI returned empty response");
-        }
-      } catch (openaiError) {
-        console.log("[CHAT] ❌ Source 1 FAILED: OpenAI error -", openaiError instanceof Error ? openaiError.message : String(openaiError));
-        
-        // SOURCE 2: Try Gemini as fallback (secondary)
-        try {
-          console.log("[CHAT] 🎯 Attempting Source 2: Google Gemini...");
-          
-          const chatHistory = history.slice(-10).map(msg => ({
-            role: msg.role === "user" ? "user" : "model",
-            parts: [{ text: msg.content }]
-          }));
-          
-          const fullPrompt = `${systemPrompt}\n\nUser Question: ${message}`;
-          
-          const result = await gemini.models.generateContent({
-            model: "gemini-2.0-flash-exp",
-            contents: fullPrompt
-          });
-          
-          const geminiText = result.text;
-          
-          if (geminiText && geminiText.trim().length > 0) {
-            aiResponse = geminiText.trim();
-            sourceUsed = "Gemini";
-            console.log("[CHAT] ✅ Source 2 SUCCESS: Gemini responded");
-          } else {
-            throw new Error("Gemini returned empty response");
-          }
-        } catch (geminiError) {
-          console.log("[CHAT] ❌ Source 2 FAILED: Gemini error -", geminiError instanceof Error ? geminiError.message : String(geminiError));
-          
-          // SOURCE 3: Use Internal Knowledge Base as last resort (tertiary)
-          console.log("[CHAT] 🎯 Attempting Source 3: Internal Knowledge Base...");
-          aiResponse = generateKnowledgeBasedResponse(message, audit);
-          sourceUsed = "Knowledge Base";
-          console.log("[CHAT] ✅ Source 3 SUCCESS: Knowledge Base responded");
-        }
+  // PATCH /api/audit/:id/action-plan/:itemId - Check-in: status, progress and evidence notes (Protected - audit owner, their uplines or admin)
+  app.patch("/api/audit/:id/action-plan/:itemId", requireAuth, async (req, res) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
+      const item = await storage.getActionPlanItem(req.params.itemId);
+      
+      if (!audit || audit.deletedAt) {
+        res.status(404).json({ error: "Audit not found" });
+        return;
+      }
+      
+      if (!item || item.auditId !== audit.id) {
+        res.status(404).json({ error: "Action plan item not found" });
+        return;
       }
       
-      // Add AiSG Team signature to response
-      const finalResponse = `${aiResponse}\n\n**By AiSG Team**`;
+      // Check access permission
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
+        res.status(403).json({ 
+          error: "Forbidden", 
+          userMessage: "Anda tidak memiliki akses ke audit ini" 
+        });
+        return;
+      }
+      
+      const validated = updateActionPlanItemSchema.parse(req.body);
+      const updated = await storage.updateActionPlanItem(item.id, validated, req.user!.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          error: "Validation error", 
+          userMessage: error.errors[0].message,
+          details: validationError.message 
+        });
+      } else {
+        console.error("Error updating action plan item:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  // POST /api/chat - Send chat message and get AI response (Protected)
+  // Providers are tried in the configured fallback order (default ChatGPT → Gemini → Internal Knowledge Base), see ai-providers.ts
+  app.post("/api/chat", requireAuth, async (req, res) => {
+    try {
+      const coachRequest = await prepareCoachRequest(req, res);
+      if (!coachRequest) return;
+      
+      await storage.createChatMessage({
+        auditId: coachRequest.audit.id,
+        role: "user",
+        content: coachRequest.message
+      });
+      
+      const reply = await generateCoachReply(coachRequest);
+      const finalResponse = signCoachReply(reply.text);
       
       await storage.createChatMessage({
-        auditId,
+        auditId: coachRequest.audit.id,
         role: "assistant",
         content: finalResponse
       });
       
-      res.json({ response: finalResponse, source: sourceUsed });
+      res.json({ response: finalResponse, source: reply.source });
     } catch (error) {
       if (error instanceof z.ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({ error: "Validation error", details: validationError.message });
+      } else if (error instanceof AiProvidersExhaustedError) {
+        console.error("Error in chat:", error.message);
+        res.status(503).json({ 
+          error: "AI unavailable",
+          userMessage: "Semua sumber AI sedang tidak tersedia. Silakan coba lagi nanti." 
+        });
       } else {
         console.error("Error in chat:", error);
         res.status(500).json({ 
@@ -428,6 +503,74 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
     }
   });
 
+  // POST /api/chat/stream - Same as /api/chat, answered as Server-Sent Events (Protected)
+  // Events: source {source, provider}, token {text}, reset {}, done {response, source}, error {userMessage}
+  // Both messages are saved only once the answer is complete; closing the connection cancels the generation
+  app.post("/api/chat/stream", requireAuth, async (req, res) => {
+    const cancelled = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) cancelled.abort();
+    });
+    
+    try {
+      const coachRequest = await prepareCoachRequest(req, res);
+      if (!coachRequest) return;
+      
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      
+      try {
+        const reply = await streamCoachReply(coachRequest, {
+          signal: cancelled.signal,
+          onSource: (source, provider) => send("source", { source, provider }),
+          onToken: (text) => send("token", { text }),
+          onReset: () => send("reset", {}),
+        });
+        const finalResponse = signCoachReply(reply.text);
+        
+        await storage.createChatMessage({
+          auditId: coachRequest.audit.id,
+          role: "user",
+          content: coachRequest.message
+        });
+        await storage.createChatMessage({
+          auditId: coachRequest.audit.id,
+          role: "assistant",
+          content: finalResponse
+        });
+        
+        send("done", { response: finalResponse, source: reply.source });
+      } catch (error) {
+        if (error instanceof AiGenerationCancelledError) {
+          console.log("[CHAT] ⏹️ Generation cancelled by the client");
+        } else if (error instanceof AiProvidersExhaustedError) {
+          console.error("Error in chat stream:", error.message);
+          send("error", { userMessage: "Semua sumber AI sedang tidak tersedia. Silakan coba lagi nanti." });
+        } else {
+          console.error("Error in chat stream:", error);
+          send("error", { userMessage: "Maaf, terjadi kesalahan sistem. Silakan coba lagi." });
+        }
+      }
+      res.end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ error: "Validation error", userMessage: error.errors[0].message, details: validationError.message });
+      } else {
+        console.error("Error in chat stream:", error);
+        res.status(500).json({ 
+          error: "Internal server error",
+          userMessage: "Maaf, terjadi kesalahan sistem. Silakan coba lagi." 
+        });
+      }
+    }
+  });
+
   // GET /api/chat/:auditId - Get chat history for audit (Protected)
   app.get("/api/chat/:auditId", requireAuth, async (req, res) => {
     try {
@@ -438,7 +581,7 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
       }
       
       // Check access permission
-      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId)) {
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
         res.status(403).json({ 
           error: "Forbidden", 
           userMessage: "Anda tidak memiliki akses ke audit ini" 
@@ -464,7 +607,7 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
       }
       
       // Check access permission
-      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId)) {
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
         res.status(403).json({ 
           error: "Forbidden", 
           userMessage: "Anda tidak memiliki akses ke audit ini" 
@@ -473,6 +616,7 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
       }
       
       await storage.deleteChatHistory(req.params.auditId);
+      await recordActivity(req, { action: "chat_clear", targetType: "audit", targetId: audit.id, details: { nama: audit.nama } });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting chat history:", error);
@@ -491,7 +635,7 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
       }
       
       // Check access permission
-      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId)) {
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
         res.status(403).json({ 
           error: "Forbidden", 
           userMessage: "Anda tidak memiliki akses ke audit ini" 
@@ -499,6 +643,8 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
         return;
       }
       
+      await recordActivity(req, { action: "audit_pdf_download", targetType: "audit", targetId: audit.id, details: { nama: audit.nama } });
+      
       const doc = generateAuditPDF(audit);
       const filename = `audit-${audit.nama.replace(/\s+/g, "-")}-${new Date().toISOString().split("T")[0]}.pdf`;
       
@@ -522,7 +668,7 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
         return;
       }
       
-      // Check access permission (user can delete their own audit)
+      // Check access permission (user can delete their own audit; downline scope does not apply)
       if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId)) {
         res.status(403).json({ 
           error: "Forbidden", 
@@ -537,6 +683,12 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
         req.user!.id, 
         "user_delete"
       );
+      await recordActivity(req, {
+        action: "audit_delete",
+        targetType: "audit",
+        targetId: audit.id,
+        details: { nama: audit.nama, ownerId: audit.ownerId, permanent: false },
+      });
       
       res.json({ success: true, message: "Audit berhasil dihapus" });
     } catch (error) {
@@ -556,6 +708,12 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
       }
       
       await storage.hardDeleteAudit(req.params.id);
+      await recordActivity(req, {
+        action: "audit_delete",
+        targetType: "audit",
+        targetId: audit.id,
+        details: { nama: audit.nama, ownerId: audit.ownerId, permanent: true },
+      });
       res.json({ success: true, message: "Audit permanently deleted" });
     } catch (error) {
       console.error("Error hard-deleting audit:", error);
@@ -625,6 +783,12 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
       }
       
       await storage.deleteUser(req.params.id);
+      await recordActivity(req, {
+        action: "user_delete",
+        targetType: "user",
+        targetId: user.id,
+        details: { username: user.username, name: user.name },
+      });
       res.json({ success: true, message: "User deleted successfully" });
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -635,3 +799,78 @@ Remember: Kamu bukan AI assistant, kamu COACH BERPENGALAMAN yang genuinely care
   const httpServer = createServer(app);
   return httpServer;
 }
+
+function isAdminRole(role: string): boolean {
+  return role === "full_admin" || role === "admin";
+}
+
+// Person registry entries the caller may attach a new audit to
+async function canLinkPerson(req: Request, personId: string): Promise<boolean> {
+  if (isAdminRole(req.user!.role)) return true;
+  if (req.user!.role !== "auditor") return false;
+  
+  const personAudits = await storage.getAuditsByPerson(personId);
+  return personAudits.some(audit => canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds));
+}
+
+async function canAssessAudit(req: Request, ownerId: string | null): Promise<boolean> {
+  if (isAdminRole(req.user!.role)) return true;
+  if (!ownerId) return false;
+  return supervisesOwner(await storage.getUser(ownerId), req.user!.id, req.downlineIds, true);
+}
+
+/**
+ * Validate a chat request and assemble what the AI providers need
+ * Sends the 404/403 itself and returns null when the audit cannot be coached; validation errors are thrown
+ */
+async function prepareCoachRequest(req: Request, res: Response): Promise<CoachRequest | null> {
+  const { auditId, message } = z.object({
+    auditId: z.string(),
+    message: z.string().min(1)
+  }).parse(req.body);
+  
+  const audit = await storage.getAudit(auditId);
+  if (!audit) {
+    res.status(404).json({ error: "Audit not found" });
+    return null;
+  }
+  
+  // Check access permission
+  if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId, req.downlineIds)) {
+    res.status(403).json({ 
+      error: "Forbidden", 
+      userMessage: "Anda tidak memiliki akses ke audit ini" 
+    });
+    return null;
+  }
+  
+  // Earlier turns only: the new message is passed to the providers separately
+  const history = await storage.getChatHistory(auditId);
+  return {
+    systemPrompt: await buildCoachSystemPrompt(audit, req.user!.role),
+    history: history.map(msg => ({ role: msg.role as ChatTurn["role"], content: msg.content })),
+    message,
+    audit,
+  };
+}
+
+// Add AiSG Team signature to response
+function signCoachReply(text: string): string {
+  return `${text}\n\n**By AiSG Team**`;
+}
+
+function handleAuditListError(res: Response, error: unknown, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else if (error instanceof InvalidCursorError) {
+    res.status(400).json({ error: "Invalid cursor", userMessage: error.message });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { evaluateExpression, validateExpression, RuleExpressionError } from "./rule-expression";
+
+describe("evaluateExpression", () => {
+  const cases: Array<[string, Record<string, number>, number]> = [
+    ["1 + 2 * 3", {}, 7],
+    ["(1 + 2) * 3", {}, 9],
+    ["10 - 4 - 3", {}, 3],
+    ["12 / 4 / 3", {}, 1],
+    ["-x + 2", { x: 5 }, -3],
+    ["!0", {}, 1],
+    ["!3", {}, 0],
+    ["a >= 3", { a: 3 }, 1],
+    ["a < 3", { a: 3 }, 0],
+    ["a == 2 && b != 2", { a: 2, b: 1 }, 1],
+    ["a > 0 || b > 0", { a: 0, b: 0 }, 0],
+    ["a > 0 ? 10 : 20", { a: 1 }, 10],
+    ["a > 1 ? 1 : a > 0 ? 2 : 3", { a: 0 }, 3],
+    ["min(a, 4, 2) + max(1, a)", { a: 3 }, 5],
+    ["round(2.5) + floor(2.9) + ceil(2.1) + abs(-1)", {}, 9],
+    ["marginCurrentQ / totalTeam", { marginCurrentQ: 100, totalTeam: 0 }, 0],
+  ];
+
+  it.each(cases)("%s", (source, variables, expected) => {
+    expect(evaluateExpression(source, variables)).toBe(expected);
+  });
+
+  it("short-circuits logical operators", () => {
+    expect(evaluateExpression("0 && missing", {})).toBe(0);
+    expect(evaluateExpression("1 || missing", {})).toBe(1);
+  });
+
+  it("rejects unknown variables, functions and characters", () => {
+    expect(() => evaluateExpression("missing + 1", {})).toThrow(RuleExpressionError);
+    expect(() => evaluateExpression("eval(1)", {})).toThrow(/Fungsi tidak dikenal/);
+    expect(() => evaluateExpression("a; b", { a: 1, b: 2 })).toThrow(/Karakter tidak dikenal/);
+  });
+
+  it("does not treat inherited object properties as functions or variables", () => {
+    expect(() => evaluateExpression("constructor(1)", {})).toThrow(/Fungsi tidak dikenal/);
+    expect(() => evaluateExpression("toString(1)", {})).toThrow(/Fungsi tidak dikenal/);
+    expect(() => evaluateExpression("toString + 1", {})).toThrow(/Variabel tidak dikenal/);
+    expect(() => validateExpression("constructor(x)", ["x"])).toThrow(RuleExpressionError);
+  });
+
+  it("rejects incomplete or trailing input", () => {
+    expect(() => evaluateExpression("1 +", {})).toThrow(/Ekspresi tidak lengkap/);
+    expect(() => evaluateExpression("(1 + 2", {})).toThrow(RuleExpressionError);
+    expect(() => evaluateExpression("1 2", {})).toThrow(/Token tidak terduga/);
+    expect(() => evaluateExpression("a ? 1", { a: 1 }), "ternary without else").toThrow(RuleExpressionError);
+  });
+});
+
+describe("validateExpression", () => {
+  it("accepts expressions over allowed variables", () => {
+    expect(() => validateExpression("a > 0 ? min(a, b) : -b", ["a", "b"])).not.toThrow();
+  });
+
+  it("lists every unknown variable", () => {
+    expect(() => validateExpression("a + x * y", ["a"])).toThrow("Variabel tidak dikenal: x, y");
+  });
+
+  it("reports syntax errors", () => {
+    expect(() => validateExpression("a +* b", ["a", "b"])).toThrow(RuleExpressionError);
+  });
+});
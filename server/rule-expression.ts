@@ -0,0 +1,231 @@
+/**
+ * Safe arithmetic expression evaluator for declarative scoring rules
+ * Supports numbers, variables, + - * /, comparisons, && ||, ternary (a ? b : c),
+ * parentheses and a small whitelist of functions. No access to JS globals.
+ */
+
+export class RuleExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleExpressionError";
+  }
+}
+
+type Node =
+  | { type: "num"; value: number }
+  | { type: "var"; name: string }
+  | { type: "unary"; op: "-" | "!"; arg: Node }
+  | { type: "binary"; op: string; left: Node; right: Node }
+  | { type: "ternary"; test: Node; then: Node; else: Node }
+  | { type: "call"; name: string; args: Node[] };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: Math.min,
+  max: Math.max,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+};
+
+const TOKEN_PATTERN = /^(\d+(?:\.\d+)?|[A-Za-z_][A-Za-z0-9_]*|>=|<=|==|!=|&&|\|\||[-+*/()<>?:,!])/;
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  let rest = source.trim();
+
+  while (rest.length > 0) {
+    const match = TOKEN_PATTERN.exec(rest);
+    if (!match) {
+      throw new RuleExpressionError(`Karakter tidak dikenal: "${rest[0]}" di "${source}"`);
+    }
+    tokens.push(match[1]);
+    rest = rest.slice(match[1].length).trimStart();
+  }
+
+  return tokens;
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3, "!=": 3,
+  "<": 4, "<=": 4, ">": 4, ">=": 4,
+  "+": 5, "-": 5,
+  "*": 6, "/": 6,
+};
+
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new RuleExpressionError(`Diharapkan "${token}" di "${source}"`);
+  };
+
+  function parseTernary(): Node {
+    const test = parseBinary(1);
+    if (peek() !== "?") return test;
+    next();
+    const thenNode = parseTernary();
+    expect(":");
+    const elseNode = parseTernary();
+    return { type: "ternary", test, then: thenNode, else: elseNode };
+  }
+
+  function parseBinary(minPrecedence: number): Node {
+    let left = parseUnary();
+    while (true) {
+      const op = peek();
+      const precedence = op !== undefined ? BINARY_PRECEDENCE[op] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      next();
+      const right = parseBinary(precedence + 1);
+      left = { type: "binary", op, left, right };
+    }
+  }
+
+  function parseUnary(): Node {
+    const token = peek();
+    if (token === "-" || token === "!") {
+      next();
+      return { type: "unary", op: token, arg: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): Node {
+    const token = next();
+    if (token === undefined) throw new RuleExpressionError(`Ekspresi tidak lengkap: "${source}"`);
+
+    if (token === "(") {
+      const inner = parseTernary();
+      expect(")");
+      return inner;
+    }
+
+    if (/^\d/.test(token)) return { type: "num", value: parseFloat(token) };
+
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() === "(") {
+        next();
+        // Own properties only, so inherited names like constructor or toString are not callable
+        if (!Object.hasOwn(FUNCTIONS, token)) throw new RuleExpressionError(`Fungsi tidak dikenal: ${token}`);
+        const args: Node[] = [];
+        if (peek() !== ")") {
+          args.push(parseTernary());
+          while (peek() === ",") {
+            next();
+            args.push(parseTernary());
+          }
+        }
+        expect(")");
+        return { type: "call", name: token, args };
+      }
+      return { type: "var", name: token };
+    }
+
+    throw new RuleExpressionError(`Token tidak terduga "${token}" di "${source}"`);
+  }
+
+  const root = parseTernary();
+  if (pos < tokens.length) throw new RuleExpressionError(`Token tidak terduga "${tokens[pos]}" di "${source}"`);
+  return root;
+}
+
+function evaluateNode(node: Node, variables: Record<string, number>): number {
+  switch (node.type) {
+    case "num":
+      return node.value;
+    case "var":
+      if (!Object.hasOwn(variables, node.name)) throw new RuleExpressionError(`Variabel tidak dikenal: ${node.name}`);
+      return variables[node.name];
+    case "unary": {
+      const value = evaluateNode(node.arg, variables);
+      return node.op === "-" ? -value : (value ? 0 : 1);
+    }
+    case "ternary":
+      return evaluateNode(node.test, variables)
+        ? evaluateNode(node.then, variables)
+        : evaluateNode(node.else, variables);
+    case "call":
+      return FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, variables)));
+    case "binary": {
+      const left = evaluateNode(node.left, variables);
+      // Short-circuit logical operators
+      if (node.op === "&&") return left ? (evaluateNode(node.right, variables) ? 1 : 0) : 0;
+      if (node.op === "||") return left ? 1 : (evaluateNode(node.right, variables) ? 1 : 0);
+
+      const right = evaluateNode(node.right, variables);
+      switch (node.op) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return right === 0 ? 0 : left / right; // Division by zero scores as 0
+        case "<": return left < right ? 1 : 0;
+        case "<=": return left <= right ? 1 : 0;
+        case ">": return left > right ? 1 : 0;
+        case ">=": return left >= right ? 1 : 0;
+        case "==": return left === right ? 1 : 0;
+        case "!=": return left !== right ? 1 : 0;
+      }
+    }
+  }
+  throw new RuleExpressionError("Ekspresi tidak valid");
+}
+
+function collectVariables(node: Node, into: Set<string>): Set<string> {
+  switch (node.type) {
+    case "var":
+      into.add(node.name);
+      break;
+    case "unary":
+      collectVariables(node.arg, into);
+      break;
+    case "binary":
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+    case "ternary":
+      collectVariables(node.test, into);
+      collectVariables(node.then, into);
+      collectVariables(node.else, into);
+      break;
+    case "call":
+      node.args.forEach(arg => collectVariables(arg, into));
+      break;
+  }
+  return into;
+}
+
+const compiled = new Map<string, Node>();
+
+function compile(source: string): Node {
+  let node = compiled.get(source);
+  if (!node) {
+    node = parse(source);
+    compiled.set(source, node);
+  }
+  return node;
+}
+
+/**
+ * Evaluate an expression against a set of numeric variables
+ */
+export function evaluateExpression(source: string, variables: Record<string, number>): number {
+  return evaluateNode(compile(source), variables);
+}
+
+/**
+ * Check that an expression parses and only references known variables
+ */
+export function validateExpression(source: string, allowedVariables: readonly string[]): void {
+  const unknown = Array.from(collectVariables(compile(source), new Set()))
+    .filter(name => !allowedVariables.includes(name));
+
+  if (unknown.length > 0) {
+    throw new RuleExpressionError(`Variabel tidak dikenal: ${unknown.join(", ")}`);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Scoring Rule Routes for AiSG
+ * Versioned, declarative Reality Score rules that admins can publish without a deploy
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertScoringRuleSetSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./middleware";
+import { validateScoringRules } from "./scoring-rules";
+import { RuleExpressionError } from "./rule-expression";
+
+export function registerScoringRuleRoutes(app: Express) {
+  /**
+   * GET /api/admin/scoring-rules
+   * List all rule set versions, newest first (Admin only)
+   */
+  app.get("/api/admin/scoring-rules", requireAuth, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      const ruleSets = await storage.getScoringRuleSets();
+      res.json(ruleSets);
+    } catch (error) {
+      console.error("Error fetching scoring rules:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * GET /api/admin/scoring-rules/active
+   * Rule set currently used for new audits (Admin only)
+   */
+  app.get("/api/admin/scoring-rules/active", requireAuth, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      const { scoringRules } = await storage.getScoringContext();
+      res.json(scoringRules);
+    } catch (error) {
+      console.error("Error fetching active scoring rules:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /api/admin/scoring-rules
+   * Save a new draft version (Admin only)
+   * Every expression is compiled up front so a broken rule can never be published
+   */
+  app.post("/api/admin/scoring-rules", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validated = insertScoringRuleSetSchema.parse(req.body);
+      validateScoringRules(validated.rules);
+
+      const ruleSet = await storage.createScoringRuleSet(validated, req.user!.id);
+      res.status(201).json(ruleSet);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          error: "Validation error",
+          userMessage: error.errors[0].message,
+          details: validationError.message
+        });
+      } else if (error instanceof RuleExpressionError) {
+        res.status(400).json({
+          error: "Invalid rule expression",
+          userMessage: error.message
+        });
+      } else if (error.code === "23505") {
+        // Unique constraint violation (another draft took the same version number)
+        res.status(409).json({
+          error: "Version conflict",
+          userMessage: "Versi baru saja disimpan oleh admin lain. Silakan simpan ulang."
+        });
+      } else {
+        console.error("Error creating scoring rules:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+
+  /**
+   * POST /api/admin/scoring-rules/:id/publish
+   * Make a draft the active rule set for new audits (Admin only)
+   * Existing audits keep the version they were scored with
+   */
+  app.post("/api/admin/scoring-rules/:id/publish", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getScoringRuleSet(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: "Scoring rule set not found" });
+        return;
+      }
+
+      if (existing.status === "published") {
+        res.status(409).json({
+          error: "Already published",
+          userMessage: `Versi ${existing.version} sudah dipublikasikan`
+        });
+        return;
+      }
+
+      const ruleSet = await storage.publishScoringRuleSet(existing.id, req.user!.id);
+      res.json(ruleSet);
+    } catch (error) {
+      console.error("Error publishing scoring rules:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
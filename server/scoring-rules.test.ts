@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCORING_RULES, applyPillarRule, validateScoringRules, type ScoringVariables } from "./scoring-rules";
+
+// Scores and insights as hardcoded before rule versioning, for the inputs rule set v1 must reproduce
+function legacyPillarScore(pillarId: number, v: ScoringVariables): { realityScore: number; insight: string } {
+  switch (pillarId) {
+    case 1: {
+      const realityScore = v.naCurrentQ >= 3 ? 5 : v.naCurrentQ === 2 ? 4 : v.naCurrentQ === 1 ? 3 : 2;
+      const insight = v.naCurrentQ > 0
+        ? `NA kuartal ini: ${v.naCurrentQ}. ${realityScore >= 4 ? "Prospecting bagus!" : "Perlu lebih aktif mencari calon nasabah."}`
+        : "Belum ada NA di kuartal ini. Focus prospecting!";
+      return { realityScore, insight };
+    }
+    case 4: {
+      const subordinates = v.expectedTeam === 0 ? 0 : v.totalTeam;
+      const realityScore = subordinates >= 10 ? 5 : subordinates >= 5 ? 4 : subordinates >= 2 ? 3 : subordinates === 1 ? 2 : 1;
+      const insight = subordinates > 0
+        ? `Tim: ${subordinates} orang. ${realityScore >= 4 ? "Kaderisasi berjalan baik." : "Perlu lebih aktif mencetak kader baru."}`
+        : "Belum punya tim. Kaderisasi harus jadi prioritas utama!";
+      return { realityScore, insight };
+    }
+    case 5: {
+      const achievement = v.targetMargin > 0 ? (v.marginCurrentQ / v.targetMargin) * 100 : 0;
+      const realityScore = achievement >= 100 ? 5 : achievement >= 80 ? 4 : achievement >= 60 ? 3 : achievement >= 40 ? 2 : 1;
+      const insight = `Margin: $${v.marginCurrentQ.toLocaleString()} (${Math.round(achievement)}% dari target). ${realityScore >= 4 ? "Target terpenuhi!" : "Perlu boost closing!"}`;
+      return { realityScore, insight };
+    }
+    case 7: {
+      const completeness = v.expectedTeam > 0 ? (v.totalTeam / v.expectedTeam) * 100 : 100;
+      const realityScore = completeness >= 100 ? 5 : completeness >= 75 ? 4 : completeness >= 50 ? 3 : completeness >= 25 ? 2 : 1;
+      const insight = `Struktur tim: ${Math.round(completeness)}% lengkap. ${realityScore >= 4 ? "Struktur solid!" : "Perlu lengkapi struktur tim."}`;
+      return { realityScore, insight };
+    }
+    case 9: {
+      const marginPerMember = v.totalTeam > 0 ? v.marginCurrentQ / v.totalTeam : v.marginCurrentQ;
+      const realityScore = marginPerMember >= 20000 ? 5 : marginPerMember >= 15000 ? 4 : marginPerMember >= 10000 ? 3 : marginPerMember >= 5000 ? 2 : 1;
+      const insight = v.totalTeam > 0
+        ? `Produktivitas: $${Math.round(marginPerMember).toLocaleString()}/orang. ${realityScore >= 4 ? "Tim produktif!" : "Perlu tingkatkan output per member."}`
+        : "Belum punya tim untuk diukur produktivitasnya.";
+      return { realityScore, insight };
+    }
+    case 13: {
+      const realityScore = v.activeQuarters >= 4 ? 5 : v.activeQuarters === 3 ? 4 : v.activeQuarters === 2 ? 3 : v.activeQuarters === 1 ? 2 : 1;
+      const insight = `Konsistensi: ${v.activeQuarters}/4 kuartal aktif. ${realityScore >= 4 ? "Disiplin terjaga!" : "Perlu lebih konsisten setiap kuartal."}`;
+      return { realityScore, insight };
+    }
+  }
+  throw new Error(`No legacy rule for pillar ${pillarId}`);
+}
+
+function* variableGrid(): Generator<ScoringVariables> {
+  for (const naCurrentQ of [0, 1, 2, 3, 7]) {
+    for (const marginCurrentQ of [0, 4999, 5000, 12000, 45000, 150000]) {
+      for (const totalTeam of [0, 1, 2, 5, 9, 10, 24]) {
+        for (const [targetMargin, expectedTeam] of [[0, 0], [50000, 4], [120000, 10], [300000, 25]]) {
+          for (const activeQuarters of [0, 1, 2, 3, 4]) {
+            yield {
+              naCurrentQ, marginCurrentQ, totalTeam, targetMargin, expectedTeam, activeQuarters,
+              targetNA: 3,
+              marginQ1: marginCurrentQ, marginQ2: 0, marginQ3: 0, marginQ4: 0,
+              naQ1: naCurrentQ, naQ2: 0, naQ3: 0, naQ4: 0,
+              selfScore: 3,
+            };
+          }
+        }
+      }
+    }
+  }
+}
+
+describe("DEFAULT_SCORING_RULES", () => {
+  it("passes its own validation", () => {
+    expect(() => validateScoringRules(DEFAULT_SCORING_RULES)).not.toThrow();
+  });
+
+  it("keeps the historical zone thresholds", () => {
+    expect(DEFAULT_SCORING_RULES.zoneThresholds).toEqual({ hijau: 75, kuning: 51 });
+  });
+
+  it.each(DEFAULT_SCORING_RULES.pillars.map(rule => [rule.pillarId, rule] as const))(
+    "pillar %i reproduces the hardcoded scores and insights",
+    (pillarId, rule) => {
+      for (const variables of variableGrid()) {
+        expect(applyPillarRule(rule, variables), JSON.stringify(variables)).toEqual(legacyPillarScore(pillarId, variables));
+      }
+    }
+  );
+});
+
+describe("validateScoringRules", () => {
+  it("rejects inverted zone thresholds", () => {
+    expect(() => validateScoringRules({ ...DEFAULT_SCORING_RULES, zoneThresholds: { hijau: 50, kuning: 60 } }))
+      .toThrow(/zona kuning/);
+  });
+
+  it("rejects duplicate pillars and unknown variables", () => {
+    const [first] = DEFAULT_SCORING_RULES.pillars;
+    expect(() => validateScoringRules({ ...DEFAULT_SCORING_RULES, pillars: [first, first] })).toThrow(/lebih dari sekali/);
+    expect(() => validateScoringRules({ ...DEFAULT_SCORING_RULES, pillars: [{ ...first, metric: "revenue * 2" }] }))
+      .toThrow("Pilar 1: Variabel tidak dikenal: revenue");
+  });
+});
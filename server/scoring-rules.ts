@@ -0,0 +1,197 @@
+/**
+ * Declarative Scoring Rules
+ * Default rule set (version 1) and helpers to validate and apply published rule sets
+ */
+
+import type { PillarRule, ScoringRules } from "@shared/schema";
+import { evaluateExpression, validateExpression, RuleExpressionError } from "./rule-expression";
+
+// Variables available to metric and emptyWhen expressions
+export const SCORING_VARIABLES = [
+  "naCurrentQ",
+  "marginCurrentQ",
+  "totalTeam",
+  "targetMargin",
+  "expectedTeam",
+  "targetNA",
+  "activeQuarters",
+  "marginQ1", "marginQ2", "marginQ3", "marginQ4",
+  "naQ1", "naQ2", "naQ3", "naQ4",
+  "selfScore",
+] as const;
+
+export type ScoringVariables = Record<(typeof SCORING_VARIABLES)[number], number>;
+
+// Share of the supervisor score in the reality score of pillars without a rule
+export const DEFAULT_SUPERVISOR_WEIGHT = 0.5;
+
+// Share of the 360 feedback average in the same blend
+export const DEFAULT_PEER_WEIGHT = 0.3;
+
+// Mirrors the hardcoded thresholds used before rule versioning, so v1 reproduces historical scores
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  zoneThresholds: { hijau: 75, kuning: 51 },
+  supervisorWeight: DEFAULT_SUPERVISOR_WEIGHT,
+  peerWeight: DEFAULT_PEER_WEIGHT,
+  pillars: [
+    {
+      pillarId: 1, // Kemampuan Mencari Calon Nasabah
+      metric: "naCurrentQ",
+      bands: [
+        { min: 3, score: 5 },
+        { min: 2, score: 4 },
+        { min: 1, score: 3 },
+      ],
+      defaultScore: 2,
+      insight: {
+        good: "NA kuartal ini: {value}. Prospecting bagus!",
+        bad: "NA kuartal ini: {value}. Perlu lebih aktif mencari calon nasabah.",
+        empty: "Belum ada NA di kuartal ini. Focus prospecting!",
+        emptyWhen: "value == 0",
+      },
+    },
+    {
+      pillarId: 4, // Kaderisasi
+      metric: "expectedTeam == 0 ? 0 : totalTeam",
+      bands: [
+        { min: 10, score: 5 },
+        { min: 5, score: 4 },
+        { min: 2, score: 3 },
+        { min: 1, score: 2 },
+      ],
+      defaultScore: 1,
+      insight: {
+        good: "Tim: {value} orang. Kaderisasi berjalan baik.",
+        bad: "Tim: {value} orang. Perlu lebih aktif mencetak kader baru.",
+        empty: "Belum punya tim. Kaderisasi harus jadi prioritas utama!",
+        emptyWhen: "value == 0",
+      },
+    },
+    {
+      pillarId: 5, // Pencapaian Target Penjualan
+      metric: "targetMargin > 0 ? marginCurrentQ / targetMargin * 100 : 0",
+      bands: [
+        { min: 100, score: 5 },
+        { min: 80, score: 4 },
+        { min: 60, score: 3 },
+        { min: 40, score: 2 },
+      ],
+      defaultScore: 1,
+      insight: {
+        good: "Margin: ${marginCurrentQ} ({value}% dari target). Target terpenuhi!",
+        bad: "Margin: ${marginCurrentQ} ({value}% dari target). Perlu boost closing!",
+      },
+    },
+    {
+      pillarId: 7, // Kelengkapan Struktur Tim
+      metric: "expectedTeam > 0 ? totalTeam / expectedTeam * 100 : 100",
+      bands: [
+        { min: 100, score: 5 },
+        { min: 75, score: 4 },
+        { min: 50, score: 3 },
+        { min: 25, score: 2 },
+      ],
+      defaultScore: 1,
+      insight: {
+        good: "Struktur tim: {value}% lengkap. Struktur solid!",
+        bad: "Struktur tim: {value}% lengkap. Perlu lengkapi struktur tim.",
+      },
+    },
+    {
+      pillarId: 9, // Produktivitas Pimpinan
+      metric: "totalTeam > 0 ? marginCurrentQ / totalTeam : marginCurrentQ",
+      bands: [
+        { min: 20000, score: 5 },
+        { min: 15000, score: 4 },
+        { min: 10000, score: 3 },
+        { min: 5000, score: 2 },
+      ],
+      defaultScore: 1,
+      insight: {
+        good: "Produktivitas: ${value}/orang. Tim produktif!",
+        bad: "Produktivitas: ${value}/orang. Perlu tingkatkan output per member.",
+        empty: "Belum punya tim untuk diukur produktivitasnya.",
+        emptyWhen: "totalTeam == 0",
+      },
+    },
+    {
+      pillarId: 13, // Disiplin & Konsistensi
+      metric: "activeQuarters",
+      bands: [
+        { min: 4, score: 5 },
+        { min: 3, score: 4 },
+        { min: 2, score: 3 },
+        { min: 1, score: 2 },
+      ],
+      defaultScore: 1,
+      insight: {
+        good: "Konsistensi: {value}/4 kuartal aktif. Disiplin terjaga!",
+        bad: "Konsistensi: {value}/4 kuartal aktif. Perlu lebih konsisten setiap kuartal.",
+      },
+    },
+  ],
+};
+
+/**
+ * Check every expression and structural constraint of a rule set
+ * Throws RuleExpressionError with a user-facing message on the first problem
+ */
+export function validateScoringRules(rules: ScoringRules): void {
+  if (rules.zoneThresholds.kuning > rules.zoneThresholds.hijau) {
+    throw new RuleExpressionError("Batas zona kuning tidak boleh lebih tinggi dari zona hijau");
+  }
+
+  const seen = new Set<number>();
+  for (const pillar of rules.pillars) {
+    if (seen.has(pillar.pillarId)) {
+      throw new RuleExpressionError(`Pilar ${pillar.pillarId} didefinisikan lebih dari sekali`);
+    }
+    seen.add(pillar.pillarId);
+
+    try {
+      validateExpression(pillar.metric, SCORING_VARIABLES);
+      if (pillar.insight.emptyWhen) {
+        validateExpression(pillar.insight.emptyWhen, [...SCORING_VARIABLES, "value"]);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new RuleExpressionError(`Pilar ${pillar.pillarId}: ${message}`);
+    }
+  }
+}
+
+function formatPlaceholder(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+function renderInsight(template: string, variables: Record<string, number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in variables ? formatPlaceholder(variables[name]) : match
+  );
+}
+
+/**
+ * Apply a single pillar rule: evaluate the metric, pick the first matching band and render the insight
+ */
+export function applyPillarRule(
+  rule: PillarRule,
+  variables: ScoringVariables
+): { realityScore: number; insight: string } {
+  const value = evaluateExpression(rule.metric, variables);
+
+  const band = [...rule.bands]
+    .sort((a, b) => b.min - a.min)
+    .find(b => value >= b.min);
+  const realityScore = band ? band.score : rule.defaultScore;
+
+  const scope = { ...variables, value };
+  const isEmpty = rule.insight.empty !== undefined
+    && rule.insight.emptyWhen !== undefined
+    && evaluateExpression(rule.insight.emptyWhen, scope) !== 0;
+
+  const template = isEmpty
+    ? rule.insight.empty!
+    : realityScore >= 4 ? rule.insight.good : rule.insight.bad;
+
+  return { realityScore, insight: renderInsight(template, scope) };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import ExcelJS from "exceljs";
+import { parseSpreadsheet, writeSpreadsheet } from "./spreadsheet";
+
+const table = {
+  headers: ["nama", "catatan", "gap"],
+  rows: [
+    { nama: "=HYPERLINK(\"http://evil\",\"klik\")", catatan: "+62 812", gap: -4 },
+    { nama: "@SUM(A1)", catatan: "-tanpa catatan", gap: 3 },
+    { nama: "Budi; \"BD\"", catatan: "baris\nkedua", gap: 0 },
+  ],
+};
+
+describe("writeSpreadsheet", () => {
+  it("quotes formula-like text in CSV but leaves numbers alone", async () => {
+    const csv = (await writeSpreadsheet(table, "csv")).toString("utf8");
+    const [, first, second] = csv.replace(/^\uFEFF/, "").split("\r\n");
+    expect(first).toBe(`"'=HYPERLINK(""http://evil"",""klik"")",'+62 812,-4`);
+    expect(second).toBe("'@SUM(A1),'-tanpa catatan,3");
+  });
+
+  it("writes formula-like text as text cells in XLSX", async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await writeSpreadsheet(table, "xlsx"));
+    const cell = workbook.worksheets[0].getRow(2).getCell(1);
+    expect(cell.type).toBe(ExcelJS.ValueType.String);
+    expect(cell.numFmt).toBe("@");
+    expect(workbook.worksheets[0].getRow(2).getCell(3).value).toBe(-4);
+  });
+
+  it.each(["csv", "xlsx"] as const)("reads its own %s output back unchanged", async (format) => {
+    const { rows } = await parseSpreadsheet(await writeSpreadsheet(table, format), format);
+    expect(rows).toEqual(table.rows.map(row => ({ ...row, gap: String(row.gap) })));
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Spreadsheet reading and writing for AiSG
+ * CSV (comma or semicolon separated, as exported by Indonesian-locale Excel) and XLSX via exceljs
+ */
+
+import ExcelJS from "exceljs";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export type SpreadsheetCell = string | number;
+
+export interface SpreadsheetTable<Cell extends SpreadsheetCell = string> {
+  headers: string[];
+  rows: Array<Record<string, Cell>>; // Keyed by header; parsed cells are trimmed text
+}
+
+// Text a spreadsheet app would run as a formula when the file is opened (formula injection)
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Parse the first sheet of an uploaded file; the first row holds the headers.
+ * Blank rows are kept so row positions still match what the user sees in their spreadsheet.
+ */
+export async function parseSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): Promise<SpreadsheetTable> {
+  const grid = format === "csv"
+    ? parseCsv(buffer.toString("utf8")).map(cells => cells.map(unquoteFormulaText))
+    : await readXlsxGrid(buffer);
+  const [headerRow = [], ...dataRows] = grid;
+  const headers = headerRow.map(h => h.trim());
+
+  const rows = dataRows.map(cells => Object.fromEntries(headers.map((header, i) => [header, (cells[i] ?? "").trim()])));
+
+  return { headers, rows };
+}
+
+/**
+ * Serialize a table; numbers stay numeric in XLSX and CSV gets a BOM so Excel opens it as UTF-8
+ * Text that looks like a formula is written as text: quoted with ' in CSV, a text-formatted cell in XLSX
+ */
+export async function writeSpreadsheet(table: SpreadsheetTable<SpreadsheetCell>, format: SpreadsheetFormat, sheetName = "Data"): Promise<Buffer> {
+  if (format === "csv") {
+    const lines = [table.headers, ...table.rows.map(row => table.headers.map(h => row[h] ?? ""))]
+      .map(cells => cells.map(cell => escapeCsvCell(typeof cell === "string" ? quoteFormulaText(cell) : String(cell))).join(","));
+    return Buffer.from("\uFEFF" + lines.join("\r\n"), "utf8");
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.addRow(table.headers).font = { bold: true };
+  for (const row of table.rows) {
+    const added = sheet.addRow(table.headers.map(h => row[h] ?? ""));
+    added.eachCell(cell => {
+      if (typeof cell.value === "string" && FORMULA_TRIGGER.test(cell.value)) cell.numFmt = "@";
+    });
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function quoteFormulaText(value: string): string {
+  return FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+}
+
+// Reverses quoteFormulaText so exported CSV files import unchanged
+function unquoteFormulaText(value: string): string {
+  return value.startsWith("'") && FORMULA_TRIGGER.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const grid: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      grid.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    grid.push(row);
+  }
+  return grid;
+}
+
+async function readXlsxGrid(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const grid: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(cellText(row.getCell(col).value));
+    }
+    grid.push(cells);
+  });
+  return grid;
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue); // Formula
+    if ("richText" in value) return value.richText.map(part => part.text).join("");
+    if ("text" in value) return String(value.text); // Hyperlink
+    return "";
+  }
+  return String(value);
+}
@@ -1,30 +1,182 @@
-import { eq, desc, isNull, and } from "drizzle-orm";
+import { eq, desc, asc, isNull, isNotNull, lt, and, max, count, inArray, getTableColumns } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { db } from "./db";
-import { type User, type InsertUser, type Audit, type InsertAudit, type ChatMessage, type InsertChatMessage, users, audits, chatMessages } from "@shared/schema";
-import { randomUUID } from "crypto";
-import { processAuditData } from "./business-logic";
+import { type User, type Audit, type InsertAudit, type UpdateAudit, type SupervisorAssessment, type ChatMessage, type InsertChatMessage, type CareerLevel, type InsertCareerLevel, type ScoringRuleSet, type InsertScoringRuleSet, type AuditRevision, type Person, type InsertPerson, type ActionPlanItem, type UpdateActionPlanItem, type Branch, type InsertBranch, type FeedbackCampaign, type FeedbackInvite, type FeedbackResponse, type InsertFeedbackCampaign, type FeedbackResponseInput, type ProdemDecision, type ProdemDecisionInput, type ProdemStatus, type AuditListQuery, type InsertActivityLogEntry, type ActivityLogEntry, type ActivityLogQuery, type CoachPromptTemplate, type InsertCoachPromptTemplate, type KnowledgeEntry, type InsertKnowledgeEntry, users, audits, chatMessages, careerLevels, scoringRuleSets, auditRevisions, people, actionPlanItems, branches, feedbackCampaigns, feedbackInvites, feedbackResponses, prodemDecisions, activityLog, coachPromptTemplates, knowledgeEntries } from "@shared/schema";
+import { DEFAULT_CAREER_LEVELS, resolveCareerLevel } from "@shared/career-levels";
+import { randomUUID, randomBytes } from "crypto";
+import { processAuditData, buildActionPlanItems, aggregatePeerFeedback, type ScoringContext } from "./business-logic";
+import { DEFAULT_SCORING_RULES } from "./scoring-rules";
+import { DEFAULT_COACH_PROMPT_TEMPLATE } from "./prompt-template";
+import { DEFAULT_KNOWLEDGE_ENTRIES } from "./knowledge-base";
+import { normalizeName } from "./person-matching";
+import { collectDownline } from "./hierarchy";
+import { auditListConditions, auditListOrder, toAuditPage, type AuditPage } from "./audit-query";
+import { activityLogConditions, activityLogOrder, toActivityPage } from "./activity-query";
+
+// An audit names a person or branch that is not in the registry (or may not be created by the caller)
+export class AuditLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditLinkError";
+  }
+}
+
+export interface AuditLinkOptions {
+  allowNewBranch?: boolean; // Admins may register a branch by typing a cabang name that is not in the registry yet
+}
+
+// The drizzle client or a transaction opened on it, for steps that must commit together
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+// Branch names match regardless of case and spacing
+function branchKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Second join on users for the account that conducted an audit (may differ from the owner)
+const creators = alias(users, "creators");
+
+// Audit log rows: the audit summary with the owner and creator accounts
+const auditLogColumns = {
+  id: audits.id,
+  nama: audits.nama,
+  jabatan: audits.jabatan,
+  cabang: audits.cabang,
+  zonaKinerja: audits.zonaKinerja,
+  zonaPerilaku: audits.zonaPerilaku,
+  zonaFinal: audits.zonaFinal,
+  profil: audits.profil,
+  totalSelfScore: audits.totalSelfScore,
+  totalRealityScore: audits.totalRealityScore,
+  totalGap: audits.totalGap,
+  prodemRekomendasi: audits.prodemRekomendasi,
+  createdAt: audits.createdAt,
+  updatedAt: audits.updatedAt,
+  deletedAt: audits.deletedAt,
+  deletedById: audits.deletedById,
+  deletedReason: audits.deletedReason,
+  ownerId: audits.ownerId,
+  createdById: audits.createdById,
+  ownerName: users.name,
+  ownerUsername: users.username,
+  creatorName: creators.name,
+  creatorUsername: creators.username,
+};
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: typeof users.$inferInsert): Promise<User>; // password already hashed
   getAllUsers(): Promise<User[]>;
   deleteUser(id: string): Promise<void>;
+  updateUserSupervisor(id: string, supervisorId: string | null): Promise<User | undefined>;
+  getDownlineIds(userId: string): Promise<Set<string>>;
   
   // Audit operations
-  createAudit(data: InsertAudit): Promise<Audit>;
+  createAudit(data: InsertAudit, options?: AuditLinkOptions): Promise<Audit>;
+  createAuditsBulk(rows: InsertAudit[], options?: AuditLinkOptions): Promise<Audit[]>;
   getAudit(id: string): Promise<Audit | undefined>;
   getAllAudits(includeDeleted?: boolean): Promise<Audit[]>;
   getAuditsWithCreators(includeDeleted?: boolean): Promise<any[]>;
+  searchAudits(query: AuditListQuery, ownerIds: string[] | null): Promise<AuditPage<Audit>>;
+  searchAuditLog(query: AuditListQuery): Promise<AuditPage<any>>;
   getAuditsByName(nama: string): Promise<Audit[]>;
+  getAuditsByPerson(personId: string): Promise<Audit[]>;
   softDeleteAudit(id: string, deletedById: string, reason: string): Promise<void>;
   hardDeleteAudit(id: string): Promise<void>;
+  restoreAudit(id: string): Promise<Audit | undefined>;
+  purgeDeletedAudits(deletedBefore: Date, retentionDays: number): Promise<Audit[]>;
+  updateAuditWithRevision(
+    id: string,
+    changes: Partial<Omit<Audit, "id" | "createdAt">>,
+    revision: { changeType: AuditRevision["changeType"]; changedById: string | null; note?: string }
+  ): Promise<Audit | undefined>;
+  updateAudit(id: string, data: UpdateAudit, changedById: string, note?: string, options?: AuditLinkOptions): Promise<Audit | undefined>;
+  saveSupervisorAssessment(id: string, assessment: SupervisorAssessment, assessedById: string): Promise<Audit | undefined>;
+  getAuditRevisions(auditId: string): Promise<Array<AuditRevision & { changedByName: string | null }>>;
+  
+  // ProDem workflow operations
+  getProdemDecisions(auditId: string): Promise<Array<ProdemDecision & { decidedByName: string | null }>>;
+  recordProdemDecision(audit: Audit, decision: ProdemDecisionInput, toStatus: ProdemStatus, decidedById: string): Promise<Audit | undefined>; // undefined = status changed meanwhile
   
   // Chat operations
   createChatMessage(data: InsertChatMessage): Promise<ChatMessage>;
   getChatHistory(auditId: string): Promise<ChatMessage[]>;
   deleteChatHistory(auditId: string): Promise<void>;
+  
+  // Career level operations
+  getCareerLevels(): Promise<CareerLevel[]>;
+  getCareerLevel(id: string): Promise<CareerLevel | undefined>;
+  createCareerLevel(data: InsertCareerLevel): Promise<CareerLevel>;
+  updateCareerLevel(id: string, data: Partial<InsertCareerLevel>): Promise<CareerLevel | undefined>;
+  deleteCareerLevel(id: string): Promise<void>;
+  ensureCareerLevelsSeeded(): Promise<void>;
+  
+  // Scoring rule operations
+  getScoringRuleSets(): Promise<ScoringRuleSet[]>;
+  getScoringRuleSet(id: string): Promise<ScoringRuleSet | undefined>;
+  getActiveScoringRuleSet(): Promise<ScoringRuleSet | undefined>;
+  createScoringRuleSet(data: InsertScoringRuleSet, createdById: string): Promise<ScoringRuleSet>;
+  publishScoringRuleSet(id: string, publishedById: string): Promise<ScoringRuleSet | undefined>;
+  ensureScoringRulesSeeded(): Promise<void>;
+  getScoringContext(ruleSet?: ScoringRuleSet): Promise<ScoringContext>;
+  getScoringContextForVersion(version: number | null): Promise<ScoringContext>;
+  
+  // Coach prompt template operations
+  getPromptTemplates(): Promise<CoachPromptTemplate[]>;
+  getPromptTemplate(id: string): Promise<CoachPromptTemplate | undefined>;
+  getActivePromptTemplates(): Promise<CoachPromptTemplate[]>;
+  createPromptTemplate(data: InsertCoachPromptTemplate, createdById: string): Promise<CoachPromptTemplate>;
+  publishPromptTemplate(id: string, publishedById: string): Promise<CoachPromptTemplate | undefined>;
+  ensurePromptTemplatesSeeded(): Promise<void>;
+  
+  // Knowledge base operations
+  getKnowledgeEntries(): Promise<KnowledgeEntry[]>;
+  getKnowledgeEntry(id: string): Promise<KnowledgeEntry | undefined>;
+  createKnowledgeEntry(data: InsertKnowledgeEntry, createdById: string): Promise<KnowledgeEntry>;
+  updateKnowledgeEntry(id: string, data: Partial<InsertKnowledgeEntry>): Promise<KnowledgeEntry | undefined>;
+  deleteKnowledgeEntry(id: string): Promise<void>;
+  ensureKnowledgeSeeded(): Promise<void>;
+  
+  // People (auditee registry) operations
+  getPeople(): Promise<Array<Person & { auditCount: number }>>;
+  getPerson(id: string): Promise<Person | undefined>;
+  createPerson(data: InsertPerson): Promise<Person>;
+  updatePerson(id: string, data: Partial<InsertPerson>): Promise<Person | undefined>;
+  deletePerson(id: string): Promise<void>;
+  mergePeople(targetId: string, sourceIds: string[]): Promise<number>;
+  resolvePersonForAudit(data: Pick<InsertAudit, "nama" | "jabatan" | "cabang" | "tanggalLahir" | "personId">): Promise<string>;
+  ensurePeopleBackfilled(): Promise<void>;
+  
+  // Branch operations
+  getBranches(): Promise<Array<Branch & { auditCount: number }>>;
+  getBranch(id: string): Promise<Branch | undefined>;
+  createBranch(data: InsertBranch): Promise<Branch>;
+  updateBranch(id: string, data: Partial<InsertBranch>): Promise<Branch | undefined>;
+  deleteBranch(id: string): Promise<void>;
+  findBranchByName(name: string): Promise<Branch | undefined>;
+  resolveBranchForAudit(data: { cabang: string; branchId?: string | null }, options?: AuditLinkOptions): Promise<{ branchId: string; cabang: string }>;
+  ensureBranchesBackfilled(): Promise<void>;
+  
+  // Action plan tracking
+  getActionPlanItems(auditId: string): Promise<ActionPlanItem[]>;
+  getActionPlanItem(id: string): Promise<ActionPlanItem | undefined>;
+  updateActionPlanItem(id: string, data: UpdateActionPlanItem, updatedById: string): Promise<ActionPlanItem | undefined>;
+  ensureActionPlanItemsBackfilled(): Promise<void>;
+  
+  // 360 feedback operations
+  createFeedbackCampaign(auditId: string, data: InsertFeedbackCampaign, createdById: string): Promise<FeedbackCampaign & { invites: FeedbackInvite[] }>;
+  getFeedbackCampaigns(auditId: string): Promise<Array<FeedbackCampaign & { responseCount: number; invites: FeedbackInvite[] }>>;
+  getFeedbackCampaign(id: string): Promise<FeedbackCampaign | undefined>;
+  closeFeedbackCampaign(id: string): Promise<(FeedbackCampaign & { applied: boolean }) | undefined>;
+  getFeedbackInviteByToken(token: string): Promise<FeedbackInvite | undefined>;
+  submitFeedbackResponse(invite: FeedbackInvite, data: FeedbackResponseInput): Promise<boolean>;
+  applyPeerFeedback(campaignId: string): Promise<Audit | undefined>;
+  
+  // Activity log operations
+  logActivity(entries: InsertActivityLogEntry | InsertActivityLogEntry[]): Promise<void>;
+  searchActivityLog(query: ActivityLogQuery): Promise<AuditPage<ActivityLogEntry & { actorUsername: string | null; actorName: string | null }>>;
 }
 
 export class DbStorage implements IStorage {
@@ -39,7 +191,7 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: typeof users.$inferInsert): Promise<User> {
     const result = await db.insert(users).values(insertUser).returning();
     return result[0];
   }
@@ -50,21 +202,76 @@ export class DbStorage implements IStorage {
   }
 
   async deleteUser(id: string): Promise<void> {
-    await db.delete(users).where(eq(users.id, id));
+    // Direct reports move up to the deleted user's own supervisor, in the same transaction as the delete
+    await db.transaction(async (tx) => {
+      const [user] = await tx.select({ supervisorId: users.supervisorId }).from(users).where(eq(users.id, id));
+      await tx.update(users).set({ supervisorId: user?.supervisorId ?? null }).where(eq(users.supervisorId, id));
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  }
+
+  async updateUserSupervisor(id: string, supervisorId: string | null): Promise<User | undefined> {
+    const result = await db
+      .update(users)
+      .set({ supervisorId, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getDownlineIds(userId: string): Promise<Set<string>> {
+    const reportingLine: Array<Pick<User, "id" | "supervisorId">> = await db
+      .select({ id: users.id, supervisorId: users.supervisorId })
+      .from(users);
+    return collectDownline(reportingLine, userId);
   }
 
   // Audit methods
-  async createAudit(data: InsertAudit): Promise<Audit> {
+  async createAudit(data: InsertAudit, options: AuditLinkOptions = {}): Promise<Audit> {
     // Process audit data to calculate zones, profile, magic section, etc.
-    const processed = processAuditData(data);
+    const processed = processAuditData(data, await this.getScoringContext());
     
-    const auditData = {
-      ...data,
-      ...processed
-    };
+    // Registry links, the audit and its action plan are stored together, or none at all
+    return await db.transaction(async (tx) => {
+      const branch = await this.resolveBranchForAudit(data, options, tx);
+      const auditData = {
+        ...data,
+        ...branch,
+        personId: await this.resolvePersonForAudit({ ...data, ...branch }, tx),
+        ...processed
+      };
+      
+      const result = await tx.insert(audits).values(auditData).returning();
+      const audit: Audit = result[0];
+      await tx.insert(actionPlanItems).values(
+        buildActionPlanItems(audit.id, audit.auditReport.actionPlan, audit.createdAt)
+      );
+      return audit;
+    });
+  }
+
+  async createAuditsBulk(rows: InsertAudit[], options: AuditLinkOptions = {}): Promise<Audit[]> {
+    const context = await this.getScoringContext();
     
-    const result = await db.insert(audits).values(auditData).returning();
-    return result[0];
+    // All registry links, audits and their action plans are stored together, or none at all
+    return await db.transaction(async (tx) => {
+      const prepared: Array<typeof audits.$inferInsert> = [];
+      for (const data of rows) {
+        const branch = await this.resolveBranchForAudit(data, options, tx);
+        prepared.push({
+          ...data,
+          ...branch,
+          personId: await this.resolvePersonForAudit({ ...data, ...branch }, tx),
+          ...processAuditData(data, context),
+        });
+      }
+      
+      const created: Audit[] = await tx.insert(audits).values(prepared).returning();
+      await tx.insert(actionPlanItems).values(
+        created.flatMap(audit => buildActionPlanItems(audit.id, audit.auditReport.actionPlan, audit.createdAt))
+      );
+      return created;
+    });
   }
 
   async getAudit(id: string): Promise<Audit | undefined> {
@@ -85,34 +292,40 @@ export class DbStorage implements IStorage {
   async getAuditsWithCreators(includeDeleted: boolean = false): Promise<any[]> {
     const whereClause = includeDeleted ? undefined : isNull(audits.deletedAt);
     const result = await db
-      .select({
-        id: audits.id,
-        nama: audits.nama,
-        jabatan: audits.jabatan,
-        cabang: audits.cabang,
-        zonaKinerja: audits.zonaKinerja,
-        zonaPerilaku: audits.zonaPerilaku,
-        zonaFinal: audits.zonaFinal,
-        totalSelfScore: audits.totalSelfScore,
-        totalRealityScore: audits.totalRealityScore,
-        prodemRekomendasi: audits.prodemRekomendasi,
-        createdAt: audits.createdAt,
-        updatedAt: audits.updatedAt,
-        deletedAt: audits.deletedAt,
-        deletedById: audits.deletedById,
-        deletedReason: audits.deletedReason,
-        ownerId: audits.ownerId,
-        createdById: audits.createdById,
-        ownerName: users.name,
-        ownerUsername: users.username,
-      })
+      .select(auditLogColumns)
       .from(audits)
       .leftJoin(users, eq(audits.ownerId, users.id))
+      .leftJoin(creators, eq(audits.createdById, creators.id))
       .where(whereClause)
       .orderBy(desc(audits.createdAt));
     return result;
   }
 
+  async searchAudits(query: AuditListQuery, ownerIds: string[] | null): Promise<AuditPage<Audit>> {
+    const listing = db
+      .select()
+      .from(audits)
+      .where(and(...auditListConditions(query, ownerIds)))
+      .orderBy(...auditListOrder(query))
+      .$dynamic();
+    // Without a limit the whole filtered list is returned
+    const rows = await (query.limit ? listing.limit(query.limit + 1) : listing);
+    return toAuditPage(rows, query);
+  }
+
+  async searchAuditLog(query: AuditListQuery): Promise<AuditPage<any>> {
+    const listing = db
+      .select(auditLogColumns)
+      .from(audits)
+      .leftJoin(users, eq(audits.ownerId, users.id))
+      .leftJoin(creators, eq(audits.createdById, creators.id))
+      .where(and(...auditListConditions(query, null)))
+      .orderBy(...auditListOrder(query))
+      .$dynamic();
+    const rows = await (query.limit ? listing.limit(query.limit + 1) : listing);
+    return toAuditPage(rows, query);
+  }
+
   async getAuditsByName(nama: string): Promise<Audit[]> {
     const result = await db
       .select()
@@ -122,6 +335,15 @@ export class DbStorage implements IStorage {
     return result;
   }
 
+  async getAuditsByPerson(personId: string): Promise<Audit[]> {
+    const result = await db
+      .select()
+      .from(audits)
+      .where(and(eq(audits.personId, personId), isNull(audits.deletedAt)))
+      .orderBy(desc(audits.createdAt));
+    return result;
+  }
+
   async softDeleteAudit(id: string, deletedById: string, reason: string): Promise<void> {
     await db
       .update(audits)
@@ -138,6 +360,235 @@ export class DbStorage implements IStorage {
     await db.delete(audits).where(eq(audits.id, id));
   }
 
+  async restoreAudit(id: string): Promise<Audit | undefined> {
+    const result = await db
+      .update(audits)
+      .set({ deletedAt: null, deletedById: null, deletedReason: null })
+      .where(and(eq(audits.id, id), isNotNull(audits.deletedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async purgeDeletedAudits(deletedBefore: Date, retentionDays: number): Promise<Audit[]> {
+    const expiredCondition = and(isNotNull(audits.deletedAt), lt(audits.deletedAt, deletedBefore));
+    
+    // Rows and their purge records go together, so the log never misses a removed audit;
+    // the rows are locked and re-checked so an audit restored meanwhile is kept
+    return await db.transaction(async (tx) => {
+      const expired: Audit[] = await tx.select().from(audits).where(expiredCondition).for("update");
+      if (expired.length === 0) return [];
+      
+      const ids = expired.map(audit => audit.id);
+      const chatCounts: Array<{ auditId: string; total: number }> = await tx
+        .select({ auditId: chatMessages.auditId, total: count() })
+        .from(chatMessages)
+        .where(inArray(chatMessages.auditId, ids))
+        .groupBy(chatMessages.auditId);
+      
+      const stillExpired = tx.select({ id: audits.id }).from(audits).where(and(inArray(audits.id, ids), expiredCondition));
+      await tx.delete(chatMessages).where(inArray(chatMessages.auditId, stillExpired));
+      const purged: Audit[] = await tx.delete(audits).where(and(inArray(audits.id, ids), expiredCondition)).returning();
+      if (purged.length === 0) return [];
+      
+      await tx.insert(activityLog).values(purged.map(audit => ({
+        action: "audit_purge" as const,
+        actorId: null,
+        targetType: "audit" as const,
+        targetId: audit.id,
+        details: {
+          nama: audit.nama,
+          ownerId: audit.ownerId,
+          deletedAt: audit.deletedAt!.toISOString(),
+          deletedById: audit.deletedById,
+          deletedReason: audit.deletedReason,
+          chatMessages: chatCounts.find(c => c.auditId === audit.id)?.total ?? 0,
+          retentionDays,
+        },
+      })));
+      return purged;
+    });
+  }
+
+  async updateAuditWithRevision(
+    id: string,
+    changes: Partial<Omit<Audit, "id" | "createdAt">>,
+    revision: { changeType: AuditRevision["changeType"]; changedById: string | null; note?: string }
+  ): Promise<Audit | undefined> {
+    const current = await this.getAudit(id);
+    if (!current) return undefined;
+    
+    // The snapshot, a ProDem reset, rebuilt action plan tasks and the change itself commit together
+    return await db.transaction(async (tx) => {
+      // Keep the previous state so the change can be reviewed later
+      await tx.insert(auditRevisions).values({
+        auditId: id,
+        snapshot: current,
+        changeType: revision.changeType,
+        note: revision.note,
+        changedById: revision.changedById,
+      });
+      
+      // A different engine recommendation invalidates earlier reviews and decisions
+      const newRecommendation = changes.prodemRekomendasi?.recommendation;
+      const resetProdem = current.prodemStatus !== "draft" && newRecommendation !== undefined &&
+        newRecommendation !== current.prodemRekomendasi.recommendation;
+      if (resetProdem) {
+        await tx.insert(prodemDecisions).values({
+          auditId: id,
+          action: "reset",
+          fromStatus: current.prodemStatus,
+          toStatus: "draft",
+          engineRecommendation: newRecommendation,
+          note: `Rekomendasi engine berubah dari ${current.prodemRekomendasi.recommendation} ke ${newRecommendation}`,
+          decidedById: revision.changedById,
+        });
+      }
+      
+      // A regenerated plan replaces the tasks nobody has started; started ones keep their targets and check-ins
+      const newPlan = changes.auditReport?.actionPlan;
+      if (newPlan && JSON.stringify(newPlan) !== JSON.stringify(current.auditReport.actionPlan)) {
+        await tx.delete(actionPlanItems).where(and(
+          eq(actionPlanItems.auditId, id),
+          eq(actionPlanItems.status, "belum_mulai"),
+          eq(actionPlanItems.progress, 0)
+        ));
+        const kept: Array<{ periode: string }> = await tx
+          .select({ periode: actionPlanItems.periode })
+          .from(actionPlanItems)
+          .where(eq(actionPlanItems.auditId, id));
+        const keptPeriods = new Set(kept.map(item => item.periode));
+        const rebuilt = buildActionPlanItems(id, newPlan, current.createdAt).filter(item => !keptPeriods.has(item.periode));
+        if (rebuilt.length > 0) await tx.insert(actionPlanItems).values(rebuilt);
+      }
+      
+      const result = await tx
+        .update(audits)
+        .set({
+          ...changes,
+          ...(resetProdem ? { prodemStatus: "draft" as const, prodemFinalRecommendation: null } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(audits.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async updateAudit(id: string, data: UpdateAudit, changedById: string, note?: string, options: AuditLinkOptions = {}): Promise<Audit | undefined> {
+    const current = await this.getAudit(id);
+    if (!current) return undefined;
+    
+    // A new branch or cabang text is resolved against the branch registry
+    const branchChanged = (data.branchId !== undefined && data.branchId !== current.branchId) ||
+      (data.cabang !== undefined && data.cabang !== current.cabang);
+    const changes = branchChanged
+      ? { ...data, ...(await this.resolveBranchForAudit({ cabang: data.cabang ?? current.cabang, branchId: data.branchId }, options)) }
+      : data;
+    
+    // Re-run the engine on the merged input so every derived field stays consistent
+    // (new self scores keep the stored supervisor assessment)
+    const pillarAnswers = changes.pillarAnswers
+      ? changes.pillarAnswers.map(p => ({
+          ...p,
+          supervisorScore: current.pillarAnswers.find(c => c.pillarId === p.pillarId)?.supervisorScore ?? null,
+        }))
+      : current.pillarAnswers;
+    const merged = { ...current, ...changes, pillarAnswers };
+    const processed = processAuditData(merged, await this.getScoringContextForVersion(current.scoringRuleVersion), current.createdAt);
+    
+    return this.updateAuditWithRevision(id, { ...changes, ...processed }, {
+      changeType: "edit",
+      changedById,
+      note,
+    });
+  }
+
+  async saveSupervisorAssessment(id: string, assessment: SupervisorAssessment, assessedById: string): Promise<Audit | undefined> {
+    const current = await this.getAudit(id);
+    if (!current) return undefined;
+    
+    const scoreByPillar = new Map(assessment.scores.map(s => [s.pillarId, s.score]));
+    const pillarAnswers = current.pillarAnswers.map(p => ({
+      pillarId: p.pillarId,
+      selfScore: p.selfScore,
+      supervisorScore: scoreByPillar.get(p.pillarId) ?? p.supervisorScore ?? null,
+    }));
+    
+    const processed = processAuditData({ ...current, pillarAnswers }, await this.getScoringContextForVersion(current.scoringRuleVersion), current.createdAt);
+    
+    return this.updateAuditWithRevision(id, {
+      ...processed,
+      supervisorAssessedById: assessedById,
+      supervisorAssessedAt: new Date(),
+    }, {
+      changeType: "assessment",
+      changedById: assessedById,
+      note: assessment.note,
+    });
+  }
+
+  async getAuditRevisions(auditId: string): Promise<Array<AuditRevision & { changedByName: string | null }>> {
+    const result = await db
+      .select({
+        id: auditRevisions.id,
+        auditId: auditRevisions.auditId,
+        snapshot: auditRevisions.snapshot,
+        changeType: auditRevisions.changeType,
+        note: auditRevisions.note,
+        changedById: auditRevisions.changedById,
+        createdAt: auditRevisions.createdAt,
+        changedByName: users.name,
+      })
+      .from(auditRevisions)
+      .leftJoin(users, eq(auditRevisions.changedById, users.id))
+      .where(eq(auditRevisions.auditId, auditId))
+      .orderBy(desc(auditRevisions.createdAt));
+    // 360 aggregates stay out of the history so snapshots cannot be compared to single out a rater
+    return result.map(revision => ({ ...revision, snapshot: { ...revision.snapshot, peerFeedback: null } }));
+  }
+
+  // ProDem workflow methods
+  async getProdemDecisions(auditId: string): Promise<Array<ProdemDecision & { decidedByName: string | null }>> {
+    return await db
+      .select({
+        ...getTableColumns(prodemDecisions),
+        decidedByName: users.name,
+      })
+      .from(prodemDecisions)
+      .leftJoin(users, eq(prodemDecisions.decidedById, users.id))
+      .where(eq(prodemDecisions.auditId, auditId))
+      .orderBy(asc(prodemDecisions.createdAt));
+  }
+
+  async recordProdemDecision(audit: Audit, decision: ProdemDecisionInput, toStatus: ProdemStatus, decidedById: string): Promise<Audit | undefined> {
+    const engineRecommendation = audit.prodemRekomendasi.recommendation;
+    const finalRecommendation = decision.action === "override"
+      ? decision.recommendation
+      : decision.action === "approve" ? engineRecommendation : null;
+    
+    // The status condition makes a decision that raced another one (or an edit's ProDem reset) change nothing
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(audits)
+        .set({ prodemStatus: toStatus, prodemFinalRecommendation: finalRecommendation })
+        .where(and(eq(audits.id, audit.id), eq(audits.prodemStatus, audit.prodemStatus)))
+        .returning();
+      if (!updated) return undefined;
+      
+      await tx.insert(prodemDecisions).values({
+        auditId: audit.id,
+        action: decision.action,
+        fromStatus: audit.prodemStatus,
+        toStatus,
+        engineRecommendation,
+        finalRecommendation,
+        note: decision.note?.trim() || null,
+        decidedById,
+      });
+      return updated;
+    });
+  }
+
   // Chat methods
   async createChatMessage(data: InsertChatMessage): Promise<ChatMessage> {
     const result = await db.insert(chatMessages).values(data).returning();
@@ -156,6 +607,602 @@ export class DbStorage implements IStorage {
   async deleteChatHistory(auditId: string): Promise<void> {
     await db.delete(chatMessages).where(eq(chatMessages.auditId, auditId));
   }
+
+  // Career level methods
+  async getCareerLevels(): Promise<CareerLevel[]> {
+    const result = await db.select().from(careerLevels).orderBy(asc(careerLevels.rankOrder));
+    return result;
+  }
+
+  async getCareerLevel(id: string): Promise<CareerLevel | undefined> {
+    const result = await db.select().from(careerLevels).where(eq(careerLevels.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createCareerLevel(data: InsertCareerLevel): Promise<CareerLevel> {
+    const result = await db.insert(careerLevels).values(data).returning();
+    return result[0];
+  }
+
+  async updateCareerLevel(id: string, data: Partial<InsertCareerLevel>): Promise<CareerLevel | undefined> {
+    const result = await db
+      .update(careerLevels)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(careerLevels.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteCareerLevel(id: string): Promise<void> {
+    await db.delete(careerLevels).where(eq(careerLevels.id, id));
+  }
+
+  async ensureCareerLevelsSeeded(): Promise<void> {
+    const existing = await db.select().from(careerLevels).limit(1);
+    if (existing.length > 0) return;
+    
+    await db.insert(careerLevels).values(DEFAULT_CAREER_LEVELS);
+    console.log(`✅ Seeded ${DEFAULT_CAREER_LEVELS.length} career levels`);
+  }
+
+  // Scoring rule methods
+  async getScoringRuleSets(): Promise<ScoringRuleSet[]> {
+    const result = await db.select().from(scoringRuleSets).orderBy(desc(scoringRuleSets.version));
+    return result;
+  }
+
+  async getScoringRuleSet(id: string): Promise<ScoringRuleSet | undefined> {
+    const result = await db.select().from(scoringRuleSets).where(eq(scoringRuleSets.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getActiveScoringRuleSet(): Promise<ScoringRuleSet | undefined> {
+    // Most recently published version wins
+    const result = await db
+      .select()
+      .from(scoringRuleSets)
+      .where(eq(scoringRuleSets.status, "published"))
+      .orderBy(desc(scoringRuleSets.publishedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async createScoringRuleSet(data: InsertScoringRuleSet, createdById: string): Promise<ScoringRuleSet> {
+    const [{ latest }] = await db.select({ latest: max(scoringRuleSets.version) }).from(scoringRuleSets);
+    const result = await db.insert(scoringRuleSets).values({
+      ...data,
+      version: (latest ?? 0) + 1,
+      status: "draft",
+      createdById,
+    }).returning();
+    return result[0];
+  }
+
+  async publishScoringRuleSet(id: string, publishedById: string): Promise<ScoringRuleSet | undefined> {
+    const result = await db
+      .update(scoringRuleSets)
+      .set({ status: "published", publishedById, publishedAt: new Date() })
+      .where(eq(scoringRuleSets.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async ensureScoringRulesSeeded(): Promise<void> {
+    const existing = await db.select().from(scoringRuleSets).limit(1);
+    if (existing.length > 0) return;
+    
+    await db.insert(scoringRuleSets).values({
+      version: 1,
+      notes: "Default rules (initial scoring thresholds)",
+      rules: DEFAULT_SCORING_RULES,
+      status: "published",
+      publishedAt: new Date(),
+    });
+    console.log("✅ Seeded scoring rule set v1");
+  }
+
+  async getScoringContext(ruleSet?: ScoringRuleSet): Promise<ScoringContext> {
+    // Defaults to the active rule set; an explicit (possibly draft) set is used for dry-run re-scoring
+    const activeRules = ruleSet ?? await this.getActiveScoringRuleSet();
+    return {
+      careerLevels: await this.getCareerLevels(),
+      // Fall back to the built-in v1 rules if nothing has been published yet
+      scoringRules: activeRules
+        ? { version: activeRules.version, rules: activeRules.rules }
+        : { version: 1, rules: DEFAULT_SCORING_RULES },
+    };
+  }
+
+  async getScoringContextForVersion(version: number | null): Promise<ScoringContext> {
+    // Edits keep the rule set an audit was scored with; only a committed re-score moves it to another version
+    // (audits from before versioning were scored with the rules that became v1)
+    const [ruleSet] = await db
+      .select()
+      .from(scoringRuleSets)
+      .where(eq(scoringRuleSets.version, version ?? 1))
+      .limit(1);
+    if (!ruleSet && (version ?? 1) !== 1) {
+      throw new Error(`Scoring rule set v${version} not found`);
+    }
+    return {
+      careerLevels: await this.getCareerLevels(),
+      scoringRules: ruleSet
+        ? { version: ruleSet.version, rules: ruleSet.rules }
+        : { version: 1, rules: DEFAULT_SCORING_RULES },
+    };
+  }
+
+  // Coach prompt template methods
+  async getPromptTemplates(): Promise<CoachPromptTemplate[]> {
+    const result = await db
+      .select()
+      .from(coachPromptTemplates)
+      .orderBy(asc(coachPromptTemplates.name), desc(coachPromptTemplates.version));
+    return result;
+  }
+
+  async getPromptTemplate(id: string): Promise<CoachPromptTemplate | undefined> {
+    const result = await db.select().from(coachPromptTemplates).where(eq(coachPromptTemplates.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getActivePromptTemplates(): Promise<CoachPromptTemplate[]> {
+    // Only the most recently published version of each name is live
+    const published: CoachPromptTemplate[] = await db
+      .select()
+      .from(coachPromptTemplates)
+      .where(eq(coachPromptTemplates.status, "published"))
+      .orderBy(desc(coachPromptTemplates.publishedAt));
+    const latestByName = new Map<string, CoachPromptTemplate>();
+    for (const template of published) {
+      if (!latestByName.has(template.name)) latestByName.set(template.name, template);
+    }
+    return Array.from(latestByName.values());
+  }
+
+  async createPromptTemplate(data: InsertCoachPromptTemplate, createdById: string): Promise<CoachPromptTemplate> {
+    const [{ latest }] = await db
+      .select({ latest: max(coachPromptTemplates.version) })
+      .from(coachPromptTemplates)
+      .where(eq(coachPromptTemplates.name, data.name));
+    const result = await db.insert(coachPromptTemplates).values({
+      ...data,
+      version: (latest ?? 0) + 1,
+      status: "draft",
+      createdById,
+    }).returning();
+    return result[0];
+  }
+
+  async publishPromptTemplate(id: string, publishedById: string): Promise<CoachPromptTemplate | undefined> {
+    const result = await db
+      .update(coachPromptTemplates)
+      .set({ status: "published", publishedById, publishedAt: new Date() })
+      .where(eq(coachPromptTemplates.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async ensurePromptTemplatesSeeded(): Promise<void> {
+    const existing = await db.select().from(coachPromptTemplates).limit(1);
+    if (existing.length > 0) return;
+
+    await db.insert(coachPromptTemplates).values({
+      name: "Default",
+      version: 1,
+      body: DEFAULT_COACH_PROMPT_TEMPLATE,
+      notes: "Prompt coach bawaan (sebelum template)",
+      status: "published",
+      publishedAt: new Date(),
+    });
+    console.log("✅ Seeded coach prompt template v1");
+  }
+
+  // Knowledge base methods
+  async getKnowledgeEntries(): Promise<KnowledgeEntry[]> {
+    const result = await db
+      .select()
+      .from(knowledgeEntries)
+      .orderBy(asc(knowledgeEntries.category), asc(knowledgeEntries.createdAt));
+    return result;
+  }
+
+  async getKnowledgeEntry(id: string): Promise<KnowledgeEntry | undefined> {
+    const result = await db.select().from(knowledgeEntries).where(eq(knowledgeEntries.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createKnowledgeEntry(data: InsertKnowledgeEntry, createdById: string): Promise<KnowledgeEntry> {
+    const result = await db.insert(knowledgeEntries).values({ ...data, createdById }).returning();
+    return result[0];
+  }
+
+  async updateKnowledgeEntry(id: string, data: Partial<InsertKnowledgeEntry>): Promise<KnowledgeEntry | undefined> {
+    const result = await db
+      .update(knowledgeEntries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(knowledgeEntries.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteKnowledgeEntry(id: string): Promise<void> {
+    await db.delete(knowledgeEntries).where(eq(knowledgeEntries.id, id));
+  }
+
+  async ensureKnowledgeSeeded(): Promise<void> {
+    const existing = await db.select().from(knowledgeEntries).limit(1);
+    if (existing.length > 0) return;
+
+    await db.insert(knowledgeEntries).values(DEFAULT_KNOWLEDGE_ENTRIES);
+    console.log(`✅ Seeded ${DEFAULT_KNOWLEDGE_ENTRIES.length} knowledge entries`);
+  }
+
+  // People methods
+  async getPeople(): Promise<Array<Person & { auditCount: number }>> {
+    const result = await db
+      .select({ ...getTableColumns(people), auditCount: count(audits.id) })
+      .from(people)
+      .leftJoin(audits, and(eq(audits.personId, people.id), isNull(audits.deletedAt)))
+      .groupBy(people.id)
+      .orderBy(asc(people.nama));
+    return result;
+  }
+
+  async getPerson(id: string): Promise<Person | undefined> {
+    const result = await db.select().from(people).where(eq(people.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createPerson(data: InsertPerson): Promise<Person> {
+    const result = await db.insert(people).values(data).returning();
+    return result[0];
+  }
+
+  async updatePerson(id: string, data: Partial<InsertPerson>): Promise<Person | undefined> {
+    const result = await db
+      .update(people)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(people.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deletePerson(id: string): Promise<void> {
+    await db.delete(people).where(eq(people.id, id));
+  }
+
+  async mergePeople(targetId: string, sourceIds: string[]): Promise<number> {
+    // Move every audit (including soft-deleted ones) before removing the duplicates, all or nothing
+    return await db.transaction(async (tx) => {
+      const moved = await tx
+        .update(audits)
+        .set({ personId: targetId })
+        .where(inArray(audits.personId, sourceIds))
+        .returning({ id: audits.id });
+      
+      await tx.delete(people).where(inArray(people.id, sourceIds));
+      return moved.length;
+    });
+  }
+
+  async resolvePersonForAudit(
+    data: Pick<InsertAudit, "nama" | "jabatan" | "cabang" | "tanggalLahir" | "personId">,
+    tx: DbExecutor = db
+  ): Promise<string> {
+    const levelCode = resolveCareerLevel(data.jabatan, await this.getCareerLevels())?.code ?? null;
+    const refresh = { cabang: data.cabang, currentLevelCode: levelCode, updatedAt: new Date() };
+    
+    // Explicitly chosen person: must exist; keep their registry data current
+    if (data.personId) {
+      const [person] = await tx.select().from(people).where(eq(people.id, data.personId)).limit(1);
+      if (!person) throw new AuditLinkError("Auditee yang dipilih tidak ditemukan di registry");
+      await tx.update(people).set(refresh).where(eq(people.id, person.id));
+      return person.id;
+    }
+    
+    // Otherwise match on normalized name + birth date, or register a new person
+    const normalized = normalizeName(data.nama);
+    const candidates: Person[] = await tx.select().from(people).where(eq(people.tanggalLahir, data.tanggalLahir));
+    const match = candidates.find(p => normalizeName(p.nama) === normalized);
+    if (match) {
+      await tx.update(people).set(refresh).where(eq(people.id, match.id));
+      return match.id;
+    }
+    
+    const [person] = await tx.insert(people).values({
+      nama: data.nama,
+      cabang: data.cabang,
+      tanggalLahir: data.tanggalLahir,
+      currentLevelCode: levelCode,
+    }).returning();
+    return person.id;
+  }
+
+  async ensurePeopleBackfilled(): Promise<void> {
+    const unlinked = await db
+      .select()
+      .from(audits)
+      .where(isNull(audits.personId))
+      .orderBy(asc(audits.createdAt));
+    if (unlinked.length === 0) return;
+    
+    // Oldest first, so each person ends up with the branch and level of their latest audit
+    for (const audit of unlinked) {
+      const personId = await this.resolvePersonForAudit(audit);
+      await db.update(audits).set({ personId }).where(eq(audits.id, audit.id));
+    }
+    console.log(`✅ Linked ${unlinked.length} legacy audits to the people registry`);
+  }
+
+  // Branch methods
+  async getBranches(): Promise<Array<Branch & { auditCount: number }>> {
+    const result = await db
+      .select({ ...getTableColumns(branches), auditCount: count(audits.id) })
+      .from(branches)
+      .leftJoin(audits, and(eq(audits.branchId, branches.id), isNull(audits.deletedAt)))
+      .groupBy(branches.id)
+      .orderBy(asc(branches.region), asc(branches.name));
+    return result;
+  }
+
+  async getBranch(id: string): Promise<Branch | undefined> {
+    const result = await db.select().from(branches).where(eq(branches.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createBranch(data: InsertBranch): Promise<Branch> {
+    const result = await db.insert(branches).values(data).returning();
+    return result[0];
+  }
+
+  async updateBranch(id: string, data: Partial<InsertBranch>): Promise<Branch | undefined> {
+    const current = await this.getBranch(id);
+    if (!current) return undefined;
+    
+    return await db.transaction(async (tx) => {
+      const result = await tx
+        .update(branches)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(branches.id, id))
+        .returning();
+      
+      // Renamed branch: keep the denormalized cabang text in sync, all or nothing
+      if (data.name && data.name !== current.name) {
+        await tx.update(audits).set({ cabang: data.name }).where(eq(audits.branchId, id));
+        await tx.update(people).set({ cabang: data.name }).where(eq(people.cabang, current.name));
+      }
+      return result[0];
+    });
+  }
+
+  async deleteBranch(id: string): Promise<void> {
+    await db.delete(branches).where(eq(branches.id, id));
+  }
+
+  async findBranchByName(name: string, tx: DbExecutor = db): Promise<Branch | undefined> {
+    const key = branchKey(name);
+    const allBranches: Branch[] = await tx.select().from(branches);
+    return allBranches.find(b => branchKey(b.name) === key);
+  }
+
+  async resolveBranchForAudit(
+    data: { cabang: string; branchId?: string | null },
+    options: AuditLinkOptions = {},
+    tx: DbExecutor = db
+  ): Promise<{ branchId: string; cabang: string }> {
+    // Explicitly chosen branch: must exist, and its registry name wins over the typed text
+    if (data.branchId) {
+      const [branch] = await tx.select().from(branches).where(eq(branches.id, data.branchId)).limit(1);
+      if (!branch) throw new AuditLinkError("Cabang yang dipilih tidak ditemukan di registry");
+      return { branchId: branch.id, cabang: branch.name };
+    }
+    
+    // Otherwise the free-text cabang must name a registered branch; only admins may add one this way
+    const match = await this.findBranchByName(data.cabang, tx);
+    if (match) return { branchId: match.id, cabang: match.name };
+    if (!options.allowNewBranch) {
+      throw new AuditLinkError(`Cabang "${data.cabang.trim()}" belum terdaftar. Hubungi admin untuk menambahkannya.`);
+    }
+    
+    const [branch] = await tx.insert(branches).values({ name: data.cabang.trim().replace(/\s+/g, " ") }).returning();
+    return { branchId: branch.id, cabang: branch.name };
+  }
+
+  async ensureBranchesBackfilled(): Promise<void> {
+    const unlinked: Audit[] = await db.select().from(audits).where(isNull(audits.branchId));
+    if (unlinked.length === 0) return;
+    
+    for (const audit of unlinked) {
+      // Legacy free-text branches are registered as found
+      const branch = await this.resolveBranchForAudit(audit, { allowNewBranch: true });
+      await db.update(audits).set(branch).where(eq(audits.id, audit.id));
+    }
+    console.log(`✅ Linked ${unlinked.length} audits to the branch registry`);
+  }
+
+  // Action plan tracking methods
+  async getActionPlanItems(auditId: string): Promise<ActionPlanItem[]> {
+    return await db
+      .select()
+      .from(actionPlanItems)
+      .where(eq(actionPlanItems.auditId, auditId))
+      .orderBy(asc(actionPlanItems.offsetDays));
+  }
+
+  async getActionPlanItem(id: string): Promise<ActionPlanItem | undefined> {
+    const result = await db.select().from(actionPlanItems).where(eq(actionPlanItems.id, id)).limit(1);
+    return result[0];
+  }
+
+  async updateActionPlanItem(id: string, data: UpdateActionPlanItem, updatedById: string): Promise<ActionPlanItem | undefined> {
+    const changes = { ...data };
+    // Keep status and completion percentage consistent
+    if (changes.status === "selesai" && changes.progress === undefined) changes.progress = 100;
+    if (changes.progress === 100 && changes.status === undefined) changes.status = "selesai";
+
+    const result = await db
+      .update(actionPlanItems)
+      .set({ ...changes, updatedById, updatedAt: new Date() })
+      .where(eq(actionPlanItems.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async ensureActionPlanItemsBackfilled(): Promise<void> {
+    const tracked = await db.select({ auditId: actionPlanItems.auditId }).from(actionPlanItems);
+    const trackedIds = new Set(tracked.map((row: { auditId: string }) => row.auditId));
+    const untracked = (await this.getAllAudits(true)).filter(audit => !trackedIds.has(audit.id));
+    if (untracked.length === 0) return;
+
+    for (const audit of untracked) {
+      await db.insert(actionPlanItems).values(
+        buildActionPlanItems(audit.id, audit.auditReport.actionPlan, audit.createdAt)
+      );
+    }
+    console.log(`✅ Created action plan items for ${untracked.length} existing audits`);
+  }
+
+  // 360 feedback methods
+  async createFeedbackCampaign(auditId: string, data: InsertFeedbackCampaign, createdById: string): Promise<FeedbackCampaign & { invites: FeedbackInvite[] }> {
+    const [campaign]: FeedbackCampaign[] = await db
+      .insert(feedbackCampaigns)
+      .values({
+        auditId,
+        pillarIds: Array.from(new Set(data.pillarIds)).sort((a, b) => a - b),
+        minResponses: data.minResponses,
+        createdById,
+      })
+      .returning();
+    
+    const relations = [
+      ...Array(data.rekanLinks).fill("rekan" as const),
+      ...Array(data.bawahanLinks).fill("bawahan" as const),
+    ];
+    const invites: FeedbackInvite[] = await db
+      .insert(feedbackInvites)
+      .values(relations.map(relation => ({
+        campaignId: campaign.id,
+        token: randomBytes(24).toString("hex"),
+        relation,
+      })))
+      .returning();
+    
+    return { ...campaign, invites };
+  }
+
+  async getFeedbackCampaigns(auditId: string): Promise<Array<FeedbackCampaign & { responseCount: number; invites: FeedbackInvite[] }>> {
+    const campaigns: FeedbackCampaign[] = await db
+      .select()
+      .from(feedbackCampaigns)
+      .where(eq(feedbackCampaigns.auditId, auditId))
+      .orderBy(desc(feedbackCampaigns.createdAt));
+    if (campaigns.length === 0) return [];
+    
+    const campaignIds = campaigns.map(c => c.id);
+    const invites: FeedbackInvite[] = await db
+      .select()
+      .from(feedbackInvites)
+      .where(inArray(feedbackInvites.campaignId, campaignIds))
+      .orderBy(asc(feedbackInvites.createdAt));
+    const responseCounts: Array<{ campaignId: string; count: number }> = await db
+      .select({ campaignId: feedbackResponses.campaignId, count: count() })
+      .from(feedbackResponses)
+      .where(inArray(feedbackResponses.campaignId, campaignIds))
+      .groupBy(feedbackResponses.campaignId);
+    
+    return campaigns.map(campaign => ({
+      ...campaign,
+      responseCount: Number(responseCounts.find(r => r.campaignId === campaign.id)?.count ?? 0),
+      invites: invites.filter(invite => invite.campaignId === campaign.id),
+    }));
+  }
+
+  async getFeedbackCampaign(id: string): Promise<FeedbackCampaign | undefined> {
+    const result = await db.select().from(feedbackCampaigns).where(eq(feedbackCampaigns.id, id)).limit(1);
+    return result[0];
+  }
+
+  async closeFeedbackCampaign(id: string): Promise<(FeedbackCampaign & { applied: boolean }) | undefined> {
+    const [closed]: FeedbackCampaign[] = await db
+      .update(feedbackCampaigns)
+      .set({ status: "closed", closedAt: new Date() })
+      .where(and(eq(feedbackCampaigns.id, id), eq(feedbackCampaigns.status, "open")))
+      .returning();
+    if (!closed) {
+      const existing = await this.getFeedbackCampaign(id);
+      return existing && { ...existing, applied: false };
+    }
+    
+    // The aggregate reaches the audit once, when no further response can change it
+    const audit = await this.applyPeerFeedback(closed.id);
+    return { ...closed, applied: !!audit };
+  }
+
+  async getFeedbackInviteByToken(token: string): Promise<FeedbackInvite | undefined> {
+    const result = await db.select().from(feedbackInvites).where(eq(feedbackInvites.token, token)).limit(1);
+    return result[0];
+  }
+
+  async submitFeedbackResponse(invite: FeedbackInvite, data: FeedbackResponseInput): Promise<boolean> {
+    // Claim the link first so a double submit cannot be counted twice
+    // (responses only reach the audit when the campaign closes, see closeFeedbackCampaign)
+    return await db.transaction(async (tx) => {
+      const claimed = await tx
+        .update(feedbackInvites)
+        .set({ used: true })
+        .where(and(eq(feedbackInvites.id, invite.id), eq(feedbackInvites.used, false)))
+        .returning();
+      if (claimed.length === 0) return false;
+      
+      await tx.insert(feedbackResponses).values({
+        campaignId: invite.campaignId,
+        relation: invite.relation,
+        scores: data.scores,
+        comment: data.comment?.trim() || null,
+      });
+      return true;
+    });
+  }
+
+  async applyPeerFeedback(campaignId: string): Promise<Audit | undefined> {
+    const campaign = await this.getFeedbackCampaign(campaignId);
+    if (!campaign) return undefined;
+    
+    const responses: FeedbackResponse[] = await db
+      .select()
+      .from(feedbackResponses)
+      .where(eq(feedbackResponses.campaignId, campaignId));
+    const peerFeedback = aggregatePeerFeedback(campaign, responses);
+    if (!peerFeedback) return undefined; // Below the minimum: nothing leaves the campaign
+    
+    const current = await this.getAudit(campaign.auditId);
+    if (!current || current.deletedAt) return undefined;
+    
+    const processed = processAuditData({ ...current, peerFeedback }, await this.getScoringContextForVersion(current.scoringRuleVersion), current.createdAt);
+    return this.updateAuditWithRevision(current.id, { ...processed, peerFeedback }, {
+      changeType: "feedback",
+      changedById: campaign.createdById,
+      note: `Umpan balik 360: ${peerFeedback.responseCount} respon`,
+    });
+  }
+
+  // Activity log methods
+  async logActivity(entries: InsertActivityLogEntry | InsertActivityLogEntry[]): Promise<void> {
+    const rows = Array.isArray(entries) ? entries : [entries];
+    if (rows.length > 0) await db.insert(activityLog).values(rows);
+  }
+
+  async searchActivityLog(query: ActivityLogQuery): Promise<AuditPage<ActivityLogEntry & { actorUsername: string | null; actorName: string | null }>> {
+    const rows: Array<ActivityLogEntry & { actorUsername: string | null; actorName: string | null }> = await db
+      .select({ ...getTableColumns(activityLog), actorUsername: users.username, actorName: users.name })
+      .from(activityLog)
+      .leftJoin(users, eq(activityLog.actorId, users.id))
+      .where(and(...activityLogConditions(query)))
+      .orderBy(...activityLogOrder)
+      .limit(query.limit + 1);
+    return toActivityPage(rows, query.limit);
+  }
 }
 
 export const storage = new DbStorage();
@@ -0,0 +1,100 @@
+/**
+ * Audit Trash Routes for AiSG
+ * Soft-deleted audits stay restorable until the retention job purges them
+ */
+
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { auditListQuerySchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth } from "./middleware";
+import { canAccessAudit } from "./auth";
+import { getRetentionDays, purgeDateFor } from "./retention";
+import { recordActivity } from "./activity";
+
+export function registerTrashRoutes(app: Express) {
+  /**
+   * GET /api/audits/trash?<filters of GET /api/audits>
+   * Soft-deleted audits the user owns (all of them for admins), each with the date it will be purged
+   */
+  app.get("/api/audits/trash", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { cursor, limit, ...filters } = req.query;
+      const query = auditListQuerySchema.parse({ ...filters, deleted: "deleted" });
+
+      // Deleting is owner-only, so the downline does not see each other's trash
+      const isAdmin = req.user!.role === "full_admin" || req.user!.role === "admin";
+      const { items } = await storage.searchAudits(query, isAdmin ? null : [req.user!.id]);
+
+      const retentionDays = getRetentionDays();
+      res.json({
+        retentionDays,
+        items: items.map(audit => ({
+          ...audit,
+          purgeAt: audit.deletedAt ? purgeDateFor(audit.deletedAt, retentionDays) : null,
+        })),
+      });
+    } catch (error) {
+      handleTrashError(res, error, "Error fetching trash:");
+    }
+  });
+
+  /**
+   * POST /api/audit/:id/restore
+   * Bring a soft-deleted audit back (owner or admin, same rule as soft-delete)
+   */
+  app.post("/api/audit/:id/restore", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const audit = await storage.getAudit(req.params.id);
+      if (!audit || !audit.deletedAt) {
+        res.status(404).json({ error: "Audit not found", userMessage: "Audit tidak ada di sampah" });
+        return;
+      }
+
+      if (!canAccessAudit(req.user!.role, req.user!.id, audit.ownerId)) {
+        res.status(403).json({
+          error: "Forbidden",
+          userMessage: "Anda tidak memiliki akses ke audit ini"
+        });
+        return;
+      }
+
+      const restored = await storage.restoreAudit(audit.id);
+      if (!restored) {
+        res.status(404).json({ error: "Audit not found", userMessage: "Audit tidak ada di sampah" });
+        return;
+      }
+
+      await recordActivity(req, {
+        action: "audit_restore",
+        targetType: "audit",
+        targetId: audit.id,
+        details: {
+          nama: audit.nama,
+          ownerId: audit.ownerId,
+          deletedAt: audit.deletedAt.toISOString(),
+          deletedById: audit.deletedById,
+        },
+      });
+
+      res.json({ success: true, message: "Audit berhasil dipulihkan", audit: restored });
+    } catch (error) {
+      handleTrashError(res, error, "Error restoring audit:");
+    }
+  });
+}
+
+function handleTrashError(res: Response, error: any, logPrefix: string) {
+  if (error instanceof z.ZodError) {
+    const validationError = fromZodError(error);
+    res.status(400).json({
+      error: "Validation error",
+      userMessage: error.errors[0].message,
+      details: validationError.message
+    });
+  } else {
+    console.error(logPrefix, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Audit period helpers ("YYYY-Qn", e.g. "2025-Q3")
+ * Shared by the scoring engine and the NewAudit form
+ */
+
+export const PERIODE_AUDIT_PATTERN = /^(\d{4})-Q([1-4])$/;
+
+export interface AuditPeriod {
+  year: number;
+  quarterNum: number; // 1-4
+}
+
+export function formatPeriodeAudit({ year, quarterNum }: AuditPeriod): string {
+  return `${year}-Q${quarterNum}`;
+}
+
+export function parsePeriodeAudit(periodeAudit: string | null | undefined): AuditPeriod | undefined {
+  const match = periodeAudit ? PERIODE_AUDIT_PATTERN.exec(periodeAudit) : null;
+  if (!match) return undefined;
+  return { year: Number(match[1]), quarterNum: Number(match[2]) };
+}
+
+export function periodFromDate(date: Date): AuditPeriod {
+  return { year: date.getFullYear(), quarterNum: Math.floor(date.getMonth() / 3) + 1 };
+}
+
+/**
+ * Human label, e.g. "Q3 2025"
+ */
+export function formatPeriodeLabel(periodeAudit: string | null | undefined): string {
+  const period = parsePeriodeAudit(periodeAudit);
+  return period ? `Q${period.quarterNum} ${period.year}` : "-";
+}
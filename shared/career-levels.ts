@@ -0,0 +1,61 @@
+import type { InsertCareerLevel } from "./schema";
+
+// Default catalog, used to seed the career_levels table on first start
+export const DEFAULT_CAREER_LEVELS: InsertCareerLevel[] = [
+  { code: "BC", name: "Business Consultant", rankOrder: 1, targetMarginQuarterly: 5000, expectedTeamSize: 0, targetNA: 2, nextLevelCode: "SBC" },
+  { code: "SBC", name: "Senior Business Consultant", rankOrder: 2, targetMarginQuarterly: 31250, expectedTeamSize: 3, targetNA: 2, nextLevelCode: "BSM" },
+  { code: "BSM", name: "Business Manager", rankOrder: 3, targetMarginQuarterly: 50000, expectedTeamSize: 10, targetNA: 2, nextLevelCode: "SBM" },
+  { code: "SBM", name: "Senior Business Manager", rankOrder: 4, targetMarginQuarterly: 75000, expectedTeamSize: 20, targetNA: 2, nextLevelCode: "EM" },
+  { code: "EM", name: "Executive Manager", rankOrder: 5, targetMarginQuarterly: 100000, expectedTeamSize: 30, targetNA: 2, nextLevelCode: "SEM" },
+  { code: "SEM", name: "Senior Executive Manager", rankOrder: 6, targetMarginQuarterly: 125000, expectedTeamSize: 40, targetNA: 2, nextLevelCode: "VBM" },
+  { code: "VBM", name: "Vice Business Manager", rankOrder: 7, targetMarginQuarterly: 150000, expectedTeamSize: 50, targetNA: 2, nextLevelCode: "BrM" },
+  { code: "BrM", name: "Branch Manager", rankOrder: 8, targetMarginQuarterly: 175000, expectedTeamSize: 60, targetNA: 2, nextLevelCode: null },
+];
+
+// Targets used when a jabatan cannot be matched to any catalog entry
+export const FALLBACK_LEVEL_TARGETS = {
+  targetMarginQuarterly: 10000,
+  expectedTeamSize: 5,
+  targetNA: 2,
+};
+
+// Audit team-structure column for each level code (jumlahXX)
+export const TEAM_FIELD_BY_LEVEL: Record<string, "jumlahBC" | "jumlahSBC" | "jumlahBsM" | "jumlahSBM" | "jumlahEM" | "jumlahSEM" | "jumlahVBM" | "jumlahBrM"> = {
+  BC: "jumlahBC",
+  SBC: "jumlahSBC",
+  BSM: "jumlahBsM",
+  SBM: "jumlahSBM",
+  EM: "jumlahEM",
+  SEM: "jumlahSEM",
+  VBM: "jumlahVBM",
+  BrM: "jumlahBrM",
+};
+
+type LevelLike = Pick<InsertCareerLevel, "code" | "name">;
+
+/**
+ * Jabatan label as stored on audits, e.g. "Business Consultant (BC)"
+ */
+export function formatJabatan(level: LevelLike): string {
+  return `${level.name} (${level.code})`;
+}
+
+/**
+ * Resolve a free-text jabatan to a catalog level.
+ * Matches the code in trailing parentheses exactly (so "SBC" never falls into "BC"),
+ * then falls back to a case-insensitive match on code or display name.
+ */
+export function resolveCareerLevel<T extends LevelLike>(jabatan: string, levels: T[]): T | undefined {
+  const trimmed = jabatan.trim();
+  const code = trimmed.match(/\(([A-Za-z]+)\)\s*$/)?.[1] ?? trimmed;
+
+  const exact = levels.find(l => l.code === code);
+  if (exact) return exact;
+
+  const lower = code.toLowerCase();
+  const byCode = levels.find(l => l.code.toLowerCase() === lower);
+  if (byCode) return byCode;
+
+  const name = trimmed.replace(/\s*\([^)]*\)\s*$/, "").toLowerCase();
+  return levels.find(l => l.name.toLowerCase() === name);
+}
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, jsonb, timestamp, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { PERIODE_AUDIT_PATTERN } from "./audit-period";
 
 // Users table
 export const users = pgTable("users", {
@@ -11,6 +12,7 @@ export const users = pgTable("users", {
   name: text("name").notNull().default("User"), // Display name
   email: text("email"), // Optional, for future features
   role: text("role").notNull().$type<"full_admin" | "admin" | "auditor" | "regular_user">().default("regular_user"),
+  supervisorId: varchar("supervisor_id"), // Links to users.id - direct upline in the reporting line (NULL = top of the line)
   securityQuestion: text("security_question"), // For password reset
   securityAnswer: text("security_answer"), // Hashed answer for security
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -24,6 +26,11 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
+// Admin assigns the upline of a user; NULL removes the user from the reporting line
+export const updateSupervisorSchema = z.object({
+  supervisorId: z.string().nullable(),
+});
+
 export const loginSchema = z.object({
   username: z.string().min(3, "Username minimal 3 karakter"),
   password: z.string().min(6, "Password minimal 6 karakter"),
@@ -49,31 +56,169 @@ export type User = typeof users.$inferSelect;
 export type LoginCredentials = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
 export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
+export type UpdateSupervisor = z.infer<typeof updateSupervisorSchema>;
 
 // Branches table
 export const branches = pgTable("branches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  name: text("name").notNull(),
-  region: text("region"),
+  name: text("name").notNull().unique(),
+  region: text("region"), // e.g. "Jawa Barat", NULL = not assigned yet
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertBranchSchema = createInsertSchema(branches).omit({ id: true });
+export const insertBranchSchema = createInsertSchema(branches, {
+  name: z.string().trim().min(2, "Nama cabang minimal 2 karakter"),
+  region: z.string().trim().max(100).nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertBranch = z.infer<typeof insertBranchSchema>;
 export type Branch = typeof branches.$inferSelect;
 
+// Career Levels table (single source of truth for jabatan targets & hierarchy)
+export const careerLevels = pgTable("career_levels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // BC, SBC, BSM, SBM, EM, SEM, VBM, BrM
+  name: text("name").notNull(), // Display name, e.g. "Business Consultant"
+  rankOrder: integer("rank_order").notNull(), // 1 = lowest level
+  targetMarginQuarterly: integer("target_margin_quarterly").notNull().default(0), // USD per quarter
+  expectedTeamSize: integer("expected_team_size").notNull().default(0), // Under langsung aktif
+  targetNA: integer("target_na").notNull().default(0), // New Account per quarter
+  nextLevelCode: text("next_level_code"), // NULL = top of hierarchy
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertCareerLevelSchema = createInsertSchema(careerLevels, {
+  code: z.string().min(1, "Kode level wajib diisi").max(10),
+  name: z.string().min(2, "Nama level minimal 2 karakter"),
+  rankOrder: z.number().int().positive(),
+  targetMarginQuarterly: z.number().int().nonnegative(),
+  expectedTeamSize: z.number().int().nonnegative(),
+  targetNA: z.number().int().nonnegative(),
+  nextLevelCode: z.string().nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+export type InsertCareerLevel = z.infer<typeof insertCareerLevelSchema>;
+export type CareerLevel = typeof careerLevels.$inferSelect;
+
+// People table (auditee registry, links repeated audits of the same employee)
+export const people = pgTable("people", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeCode: text("employee_code").unique(), // Kode karyawan (NULL for records created from legacy audits)
+  nama: text("nama").notNull(),
+  cabang: text("cabang"),
+  tanggalLahir: text("tanggal_lahir"), // DD-MM-YYYY
+  currentLevelCode: text("current_level_code"), // career_levels.code of the latest audit
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertPersonSchema = createInsertSchema(people, {
+  employeeCode: z.string().trim().min(1).max(30).nullable().optional(),
+  nama: z.string().trim().min(2, "Nama minimal 2 karakter"),
+  tanggalLahir: z.string().regex(/^\d{2}-\d{2}-\d{4}$/, "Format harus DD-MM-YYYY").nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const mergePeopleSchema = z.object({
+  targetId: z.string(), // Person that is kept
+  sourceIds: z.array(z.string()).min(1, "Pilih minimal 1 duplikat"), // Merged into target, then removed
+});
+
+export type InsertPerson = z.infer<typeof insertPersonSchema>;
+export type Person = typeof people.$inferSelect;
+
+// Scoring Rules (declarative Reality Score definitions)
+// Each pillar rule computes a metric from an expression, then maps it to a 1-5 score through threshold bands
+export const pillarRuleSchema = z.object({
+  pillarId: z.number().int().min(1).max(18),
+  metric: z.string().min(1, "Ekspresi metric wajib diisi"), // e.g. "targetMargin > 0 ? marginCurrentQ / targetMargin * 100 : 0"
+  bands: z.array(z.object({
+    min: z.number(), // metric >= min
+    score: z.number().int().min(1).max(5),
+  })).min(1), // evaluated from the highest min down
+  defaultScore: z.number().int().min(1).max(5), // metric below every band
+  insight: z.object({
+    good: z.string(), // realityScore >= 4, supports {value} and {variableName} placeholders
+    bad: z.string(),
+    empty: z.string().optional(), // used when emptyWhen evaluates to true
+    emptyWhen: z.string().optional(),
+  }),
+});
+
+export const scoringRulesSchema = z.object({
+  zoneThresholds: z.object({
+    hijau: z.number().int().min(0).max(90), // totalRealityScore >= hijau
+    kuning: z.number().int().min(0).max(90), // totalRealityScore >= kuning
+  }),
+  // Pillars without a rule use the self-assessment as reality score
+  pillars: z.array(pillarRuleSchema),
+  // Share of the supervisor score when it is blended into pillars without a rule (default 0.5)
+  supervisorWeight: z.number().min(0).max(1).optional(),
+  // Share of the anonymised 360 feedback average in the same blend (default 0.3)
+  peerWeight: z.number().min(0).max(1).optional(),
+});
+
+export type PillarRule = z.infer<typeof pillarRuleSchema>;
+export type ScoringRules = z.infer<typeof scoringRulesSchema>;
+
+// Scoring Rule Sets table (versioned, published without a code deploy)
+export const scoringRuleSets = pgTable("scoring_rule_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull().unique(),
+  notes: text("notes"), // What changed in this version
+  rules: jsonb("rules").notNull().$type<ScoringRules>(),
+  status: text("status").notNull().$type<"draft" | "published">().default("draft"),
+  createdById: varchar("created_by_id"), // Links to users.id
+  publishedById: varchar("published_by_id"), // Links to users.id
+  publishedAt: timestamp("published_at"), // Latest published version is the active one
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertScoringRuleSetSchema = z.object({
+  notes: z.string().optional(),
+  rules: scoringRulesSchema,
+});
+
+export type InsertScoringRuleSet = z.infer<typeof insertScoringRuleSetSchema>;
+export type ScoringRuleSet = typeof scoringRuleSets.$inferSelect;
+
+// ProDem approval workflow: draft -> reviewed (upline) -> approved or overridden (admin)
+export const PRODEM_RECOMMENDATIONS = ["Promosi", "Dipertahankan", "Pembinaan", "Demosi"] as const;
+export type ProdemRecommendation = typeof PRODEM_RECOMMENDATIONS[number];
+export const PRODEM_STATUSES = ["draft", "reviewed", "approved", "overridden"] as const;
+export type ProdemStatus = typeof PRODEM_STATUSES[number];
+
 // Audits table
 export const audits = pgTable("audits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   ownerId: varchar("owner_id"), // Links to users.id - who owns this audit (nullable for backward compatibility)
   createdById: varchar("created_by_id"), // Links to users.id - who created this audit (nullable for backward compatibility)
+  personId: varchar("person_id").references(() => people.id), // Auditee in the people registry
+  branchId: varchar("branch_id").references(() => branches.id), // Branch registry entry; cabang keeps its name for display
   updatedAt: timestamp("updated_at"),
   
+  // Supervisor assessment (optional second opinion from the direct upline, scores live in pillarAnswers)
+  supervisorAssessedById: varchar("supervisor_assessed_by_id"), // Links to users.id
+  supervisorAssessedAt: timestamp("supervisor_assessed_at"),
+  
+  // Anonymised 360 feedback aggregate (NULL = no campaign has reached its minimum number of responses)
+  peerFeedback: jsonb("peer_feedback").$type<{
+    campaignId: string;
+    responseCount: number;
+    pillars: Array<{ pillarId: number; avgScore: number }>; // average 1-5 rating, 1 decimal
+    comments: string[]; // free-text answers, sorted so the order reveals nothing
+    aggregatedAt: string;
+  }>(),
+  
   // Identity
   nama: text("nama").notNull(),
   jabatan: text("jabatan").notNull(),
   cabang: text("cabang").notNull(),
   tanggalLahir: text("tanggal_lahir").notNull(), // DD-MM-YYYY for zodiac
   
+  // Audit period the scores refer to, "YYYY-Qn" (NULL = legacy audit, period derived from createdAt)
+  periodeAudit: text("periode_audit"),
+  
   // Quarterly Performance Metrics - Team (Margin Tim & NA Tim in USD)
   marginTimQ1: integer("margin_tim_q1").notNull().default(0), // Jan-Mar
   marginTimQ2: integer("margin_tim_q2").notNull().default(0), // Apr-Jun
@@ -111,6 +256,9 @@ export const audits = pgTable("audits", {
     pillarId: number;
     pillarName: string;
     selfScore: number; // 1-5, user claim
+    supervisorScore?: number | null; // 1-5, direct upline assessment (NULL = not assessed)
+    peerScore?: number | null; // 1-5 average of 360 feedback (NULL = pillar not in a completed campaign)
+    dataScore?: number | null; // 1-5, scoring rule result (NULL = pillar has no rule)
     realityScore: number; // 1-5, calculated by engine
     gap: number; // selfScore - realityScore
     insight: string; // koreksi profesional per pilar
@@ -129,6 +277,9 @@ export const audits = pgTable("audits", {
   // Results - Profile Classification
   profil: text("profil").notNull(), // Leader, Visionary, Performer, At-Risk
   
+  // Scoring rule set version used to calculate the results (NULL = scored before rule versioning)
+  scoringRuleVersion: integer("scoring_rule_version"),
+  
   // Results - Audit Report (12 Sections)
   auditReport: jsonb("audit_report").notNull().$type<{
     executiveSummary: string;
@@ -168,12 +319,23 @@ export const audits = pgTable("audits", {
       status: "Align" | "Perlu Penyesuaian" | "Belum Sesuai";
       narasi: string;
     };
+    feedback360?: { // only once a 360 feedback campaign reached its minimum responses
+      responseCount: number;
+      pillars: Array<{
+        pillarId: number;
+        pillarName: string;
+        selfScore: number;
+        peerScore: number;
+      }>;
+      comments: string[];
+      narasi: string;
+    };
   }>(),
   
   // Results - ProDem Recommendation
   prodemRekomendasi: jsonb("prodem_rekomendasi").notNull().$type<{
     currentLevel: string;
-    recommendation: "Promosi" | "Dipertahankan" | "Pembinaan" | "Demosi";
+    recommendation: ProdemRecommendation;
     nextLevel?: string;
     reason: string;
     konsekuensi: string;
@@ -198,6 +360,10 @@ export const audits = pgTable("audits", {
     quote: string;
   }>(),
   
+  // ProDem approval workflow (the engine recommendation stays a draft until an admin decides)
+  prodemStatus: text("prodem_status").notNull().default("draft").$type<ProdemStatus>(),
+  prodemFinalRecommendation: text("prodem_final_recommendation").$type<ProdemRecommendation>(), // Set on approval or override
+  
   // Soft Delete Support (for user vs admin delete differentiation)
   deletedAt: timestamp("deleted_at"), // NULL = active, NOT NULL = deleted
   deletedById: varchar("deleted_by_id"), // Links to users.id - who deleted this audit
@@ -242,6 +408,8 @@ export const insertAuditSchema = createInsertSchema(audits, {
   
   tanggalLahir: z.string().regex(/^\d{2}-\d{2}-\d{4}$/, "Format harus DD-MM-YYYY"),
   
+  periodeAudit: z.string().regex(PERIODE_AUDIT_PATTERN, "Pilih tahun dan kuartal audit"),
+  
   // For INPUT: only pillarId and selfScore (backend adds the rest)
   pillarAnswers: z.array(z.object({
     pillarId: z.number().int().min(1).max(18),
@@ -257,14 +425,208 @@ export const insertAuditSchema = createInsertSchema(audits, {
   zonaPerilaku: true,
   zonaFinal: true,
   profil: true,
+  scoringRuleVersion: true,
   auditReport: true,
   magicSection: true,
-  prodemRekomendasi: true
+  prodemRekomendasi: true,
+  supervisorAssessedById: true,
+  supervisorAssessedAt: true,
+  peerFeedback: true,
+  prodemStatus: true,
+  prodemFinalRecommendation: true
+});
+
+// For PATCH: any input field may change; ownership, person link and soft-delete columns are managed by the server
+export const updateAuditSchema = insertAuditSchema.omit({
+  ownerId: true,
+  createdById: true,
+  personId: true,
+  updatedAt: true,
+  deletedAt: true,
+  deletedById: true,
+  deletedReason: true,
+}).partial();
+
+// Supervisor assessment: the direct upline scores the same 18 pillars
+export const supervisorAssessmentSchema = z.object({
+  scores: z.array(z.object({
+    pillarId: z.number().int().min(1).max(18),
+    score: z.number().int().min(1, "Skor minimal 1").max(5, "Skor maksimal 5"),
+  })).length(18, "Semua 18 pilar wajib dinilai"),
+  note: z.string().optional(),
+});
+
+// Audit list query (GET /api/audits, /api/admin/audit-log and their exports); limit switches on cursor pagination
+export const AUDIT_ZONES = ["hijau", "kuning", "merah"] as const;
+export const AUDIT_PROFILES = ["Leader", "Visionary", "Performer", "At-Risk"] as const;
+export const AUDIT_SORT_FIELDS = ["createdAt", "nama", "totalRealityScore", "totalGap"] as const;
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Format tanggal harus YYYY-MM-DD");
+
+export const auditListQuerySchema = z.object({
+  search: z.string().trim().optional(), // nama, jabatan or cabang contains
+  zona: z.enum(AUDIT_ZONES).optional(),
+  profil: z.enum(AUDIT_PROFILES).optional(),
+  prodem: z.enum(PRODEM_RECOMMENDATIONS).optional(),
+  branchId: z.string().optional(),
+  level: z.string().trim().min(1).optional(), // Career level code, e.g. "BC" matches "Business Consultant (BC)"
+  from: isoDate.optional(), // createdAt, inclusive
+  to: isoDate.optional(), // createdAt, inclusive
+  ownerId: z.string().optional(),
+  deleted: z.enum(["active", "deleted", "all"]).default("active"), // Audit log only
+  sort: z.enum(AUDIT_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
 });
 
 export type InsertAudit = z.infer<typeof insertAuditSchema>;
+export type SupervisorAssessment = z.infer<typeof supervisorAssessmentSchema>;
+export type UpdateAudit = z.infer<typeof updateAuditSchema>;
+export type AuditListQuery = z.infer<typeof auditListQuerySchema>;
 export type Audit = typeof audits.$inferSelect;
 
+// Audit Revisions table (snapshot of an audit before each change to its results)
+export const auditRevisions = pgTable("audit_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  auditId: varchar("audit_id").notNull().references(() => audits.id, { onDelete: 'cascade' }),
+  snapshot: jsonb("snapshot").notNull().$type<Audit>(), // Full audit row as it was before the change
+  changeType: text("change_type").notNull().$type<"rescore" | "edit" | "assessment" | "feedback">(),
+  note: text("note"), // e.g. "Re-score dengan rule set v3"
+  changedById: varchar("changed_by_id"), // Links to users.id
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type AuditRevision = typeof auditRevisions.$inferSelect;
+
+// Action Plan Items table (trackable tasks created from the 30-60-90 action plan of an audit)
+export const ACTION_PLAN_STATUSES = ["belum_mulai", "berjalan", "selesai", "terhambat"] as const;
+export type ActionPlanStatus = typeof ACTION_PLAN_STATUSES[number];
+
+export const actionPlanItems = pgTable("action_plan_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  auditId: varchar("audit_id").notNull().references(() => audits.id, { onDelete: 'cascade' }),
+  periode: text("periode").notNull(), // "30 Hari" | "60 Hari" | "90 Hari"
+  offsetDays: integer("offset_days").notNull(), // 30 | 60 | 90, counted from the audit date
+  target: text("target").notNull(),
+  aktivitas: text("aktivitas").notNull(),
+  pic: text("pic").notNull(),
+  output: text("output").notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  status: text("status").notNull().default("belum_mulai").$type<ActionPlanStatus>(),
+  progress: integer("progress").notNull().default(0), // Completion percentage 0-100
+  evidenceNotes: text("evidence_notes"), // Proof of progress (what was done, links, numbers)
+  updatedById: varchar("updated_by_id"), // Links to users.id - last check-in
+  updatedAt: timestamp("updated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Check-in on an action plan item; plan content itself comes from the audit
+export const updateActionPlanItemSchema = z.object({
+  status: z.enum(ACTION_PLAN_STATUSES).optional(),
+  progress: z.number().int().min(0, "Progress minimal 0%").max(100, "Progress maksimal 100%").optional(),
+  evidenceNotes: z.string().max(2000, "Catatan bukti maksimal 2000 karakter").nullable().optional(),
+});
+
+export type UpdateActionPlanItem = z.infer<typeof updateActionPlanItemSchema>;
+export type ActionPlanItem = typeof actionPlanItems.$inferSelect;
+
+// ProDem Decisions table (decision trail of the approval workflow, newest last)
+export const prodemDecisions = pgTable("prodem_decisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  auditId: varchar("audit_id").notNull().references(() => audits.id, { onDelete: 'cascade' }),
+  action: text("action").notNull().$type<"review" | "approve" | "override" | "reset">(), // reset = engine result changed
+  fromStatus: text("from_status").notNull().$type<ProdemStatus>(),
+  toStatus: text("to_status").notNull().$type<ProdemStatus>(),
+  engineRecommendation: text("engine_recommendation").notNull().$type<ProdemRecommendation>(),
+  finalRecommendation: text("final_recommendation").$type<ProdemRecommendation>(),
+  note: text("note"), // Review note, approval note or override justification
+  decidedById: varchar("decided_by_id"), // Links to users.id
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const prodemDecisionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("review"),
+    note: z.string().max(1000, "Catatan maksimal 1000 karakter").optional(),
+  }),
+  z.object({
+    action: z.literal("approve"),
+    note: z.string().max(1000, "Catatan maksimal 1000 karakter").optional(),
+  }),
+  z.object({
+    action: z.literal("override"),
+    recommendation: z.enum(PRODEM_RECOMMENDATIONS),
+    note: z.string().trim()
+      .min(20, "Justifikasi override wajib diisi (minimal 20 karakter)")
+      .max(2000, "Justifikasi maksimal 2000 karakter"),
+  }),
+]);
+
+export type ProdemDecisionInput = z.infer<typeof prodemDecisionSchema>;
+export type ProdemDecision = typeof prodemDecisions.$inferSelect;
+
+// 360 Feedback Campaigns table (anonymous ratings of selected pillars by peers and subordinates of the auditee)
+export const FEEDBACK_RELATIONS = ["rekan", "bawahan"] as const;
+export type FeedbackRelation = typeof FEEDBACK_RELATIONS[number];
+
+// Fewer answers than this would make individual raters identifiable
+export const MIN_FEEDBACK_RESPONSES = 3;
+
+export const feedbackCampaigns = pgTable("feedback_campaigns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  auditId: varchar("audit_id").notNull().references(() => audits.id, { onDelete: 'cascade' }),
+  pillarIds: jsonb("pillar_ids").notNull().$type<number[]>(), // Pillars the raters score
+  minResponses: integer("min_responses").notNull().default(MIN_FEEDBACK_RESPONSES), // Closing with fewer responses leaves the audit unchanged
+  status: text("status").notNull().default("open").$type<"open" | "closed">(),
+  createdById: varchar("created_by_id"), // Links to users.id
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One-time links; a used invite is only flagged, responses never point back to it
+export const feedbackInvites = pgTable("feedback_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => feedbackCampaigns.id, { onDelete: 'cascade' }),
+  token: varchar("token").notNull().unique(),
+  relation: text("relation").notNull().$type<FeedbackRelation>(),
+  used: boolean("used").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Anonymous answers (no invite link and no timestamp, so they cannot be matched to a rater)
+export const feedbackResponses = pgTable("feedback_responses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => feedbackCampaigns.id, { onDelete: 'cascade' }),
+  relation: text("relation").notNull().$type<FeedbackRelation>(),
+  scores: jsonb("scores").notNull().$type<Array<{ pillarId: number; score: number }>>(),
+  comment: text("comment"),
+});
+
+export const insertFeedbackCampaignSchema = z.object({
+  pillarIds: z.array(z.number().int().min(1).max(18)).min(1, "Pilih minimal 1 pilar"),
+  minResponses: z.number().int()
+    .min(MIN_FEEDBACK_RESPONSES, `Minimal ${MIN_FEEDBACK_RESPONSES} respon agar penilai tetap anonim`)
+    .max(50, "Maksimal 50 respon"),
+  rekanLinks: z.number().int().min(0).max(50, "Maksimal 50 link rekan"),
+  bawahanLinks: z.number().int().min(0).max(50, "Maksimal 50 link bawahan"),
+}).refine(data => data.rekanLinks + data.bawahanLinks >= data.minResponses, {
+  message: "Jumlah link harus minimal sama dengan jumlah respon minimum",
+});
+
+export const feedbackResponseSchema = z.object({
+  scores: z.array(z.object({
+    pillarId: z.number().int().min(1).max(18),
+    score: z.number().int().min(1, "Skor minimal 1").max(5, "Skor maksimal 5"),
+  })).min(1),
+  comment: z.string().max(1000, "Komentar maksimal 1000 karakter").optional(),
+});
+
+export type InsertFeedbackCampaign = z.infer<typeof insertFeedbackCampaignSchema>;
+export type FeedbackResponseInput = z.infer<typeof feedbackResponseSchema>;
+export type FeedbackCampaign = typeof feedbackCampaigns.$inferSelect;
+export type FeedbackInvite = typeof feedbackInvites.$inferSelect;
+export type FeedbackResponse = typeof feedbackResponses.$inferSelect;
+
 // Chat Messages table
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -281,3 +643,106 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
 
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
+
+// Activity Log table (append-only: rows are inserted and read, never updated or deleted)
+export const ACTIVITY_ACTIONS = [
+  "login",
+  "login_failed",
+  "user_create",
+  "user_delete",
+  "password_change",
+  "audit_create",
+  "audit_view",
+  "audit_update",
+  "audit_delete",
+  "audit_restore",
+  "audit_purge",
+  "audit_rescore",
+  "prodem_decision",
+  "audit_pdf_download",
+  "chat_clear",
+] as const;
+export type ActivityAction = typeof ACTIVITY_ACTIONS[number];
+export const ACTIVITY_TARGET_TYPES = ["audit", "user"] as const;
+
+export const activityLog = pgTable("activity_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  action: text("action").notNull().$type<ActivityAction>(),
+  actorId: varchar("actor_id"), // Links to users.id - NULL = system job or anonymous request (failed login, password reset)
+  targetType: text("target_type").$type<typeof ACTIVITY_TARGET_TYPES[number]>(),
+  targetId: varchar("target_id"), // Kept as plain text so entries survive the target being purged
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  ipAddress: text("ip_address"), // NULL for system jobs
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const activityLogQuerySchema = z.object({
+  search: z.string().trim().optional(), // actor username/name, target id, IP or details contain
+  action: z.enum(ACTIVITY_ACTIONS).optional(),
+  actorId: z.string().optional(),
+  targetType: z.enum(ACTIVITY_TARGET_TYPES).optional(),
+  targetId: z.string().optional(),
+  from: isoDate.optional(), // createdAt, inclusive
+  to: isoDate.optional(), // createdAt, inclusive
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type ActivityLogQuery = z.infer<typeof activityLogQuerySchema>;
+export type ActivityLogEntry = typeof activityLog.$inferSelect;
+export type InsertActivityLogEntry = typeof activityLog.$inferInsert;
+
+// Coach Prompt Templates table (versioned per name; the latest published version of each name is live)
+export const coachPromptTemplates = pgTable("coach_prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // e.g. "Default", "Zona Merah"
+  version: integer("version").notNull(), // Counts up per name
+  role: text("role").$type<User["role"]>(), // Only for chats by this role - NULL = any role
+  zona: text("zona").$type<typeof AUDIT_ZONES[number]>(), // Only for audits in this final zone - NULL = any zone
+  body: text("body").notNull(), // System prompt with {{placeholder}} bindings to audit fields
+  notes: text("notes"), // What changed in this version
+  status: text("status").notNull().$type<"draft" | "published">().default("draft"),
+  createdById: varchar("created_by_id"), // Links to users.id
+  publishedById: varchar("published_by_id"), // Links to users.id
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  nameVersionUnique: unique().on(table.name, table.version),
+}));
+
+export const insertCoachPromptTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Nama template harus diisi").max(100),
+  role: z.enum(["full_admin", "admin", "auditor", "regular_user"]).nullable().optional(),
+  zona: z.enum(AUDIT_ZONES).nullable().optional(),
+  body: z.string().trim().min(1, "Isi prompt harus diisi").max(50000),
+  notes: z.string().optional(),
+});
+
+export const coachPromptPreviewSchema = z.object({
+  auditId: z.string().min(1, "Pilih audit untuk preview"),
+  body: z.string().optional(), // Unsaved editor content; without it the template selected for role and zone is rendered
+  role: z.enum(["full_admin", "admin", "auditor", "regular_user"]).optional(),
+});
+
+export type InsertCoachPromptTemplate = z.infer<typeof insertCoachPromptTemplateSchema>;
+export type CoachPromptTemplate = typeof coachPromptTemplates.$inferSelect;
+
+// Knowledge Entries table (offline coach answers, matched on keywords when no AI provider replies)
+export const knowledgeEntries = pgTable("knowledge_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: text("category").notNull(), // e.g. "Leadership", "Sales - Closing"
+  keywords: jsonb("keywords").notNull().$type<string[]>(), // Lowercase words or phrases looked for in the question
+  response: text("response").notNull(), // Markdown answer with {{placeholder}} bindings to audit fields
+  createdById: varchar("created_by_id"), // Links to users.id (NULL = seeded)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertKnowledgeEntrySchema = createInsertSchema(knowledgeEntries, {
+  category: z.string().trim().min(1, "Kategori harus diisi").max(100),
+  keywords: z.array(z.string().trim().toLowerCase().min(1)).min(1, "Minimal satu kata kunci"),
+  response: z.string().trim().min(1, "Jawaban harus diisi").max(20000),
+}).omit({ id: true, createdById: true, createdAt: true, updatedAt: true });
+
+export type InsertKnowledgeEntry = z.infer<typeof insertKnowledgeEntrySchema>;
+export type KnowledgeEntry = typeof knowledgeEntries.$inferSelect;